@@ -0,0 +1,316 @@
+import { useMemo, useState } from 'react';
+import katex from 'katex';
+import { useSimulationStore } from '../../stores/simulation.ts';
+import { FUNCTION_NAMES } from '../../engine/expression.ts';
+import {
+  EXAMPLE_CUSTOM_MODEL,
+  customModelId,
+  customModelLatex,
+  validateCustomModel,
+} from '../../engine/models/index.ts';
+import type { CustomModelSpec, CustomParameterSpec } from '../../engine/models/index.ts';
+import { Tooltip } from '../ui/Tooltip.tsx';
+import { toggleButtonStyle } from '../ui/toggleButtonStyle.ts';
+
+const NEW_PARAMETER: CustomParameterSpec = {
+  name: '',
+  symbol: '',
+  default: 1,
+  min: 0,
+  max: 10,
+  unit: '',
+  group: 'custom',
+};
+
+/**
+ * Editor for user-defined models: the I(V, x) and dx/dt expressions, the
+ * state bounds and a parameter table, with live validation and a rendered
+ * preview of the equations. Saved models are kept in localStorage and
+ * appear in the model selector.
+ */
+export function CustomModelEditor() {
+  const customModels = useSimulationStore((s) => s.customModels);
+  const saveCustomModel = useSimulationStore((s) => s.saveCustomModel);
+  const deleteCustomModel = useSimulationStore((s) => s.deleteCustomModel);
+  const [draft, setDraft] = useState<CustomModelSpec>(EXAMPLE_CUSTOM_MODEL);
+
+  const spec = useMemo(() => ({ ...draft, id: customModelId(draft.name) }), [draft]);
+  const issues = useMemo(() => validateCustomModel(spec), [spec]);
+  const latex = useMemo(() => customModelLatex(spec), [spec]);
+  const overwrites = customModels.some((m) => m.id === spec.id);
+
+  const setParameter = (index: number, patch: Partial<CustomParameterSpec>) =>
+    setDraft({
+      ...draft,
+      parameters: draft.parameters.map((p, k) => (k === index ? { ...p, ...patch } : p)),
+    });
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '10px' }}>
+      <Field label="Name" tooltip="Display name. Saving under an existing name replaces that model.">
+        <input
+          value={draft.name}
+          onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+          style={{ ...inputStyle, textAlign: 'left', width: '100%' }}
+        />
+      </Field>
+
+      <Field
+        label="I(V, x)"
+        tooltip="Device current from the voltage V, the state x and the parameters."
+      >
+        <ExpressionInput value={draft.current} onChange={(current) => setDraft({ ...draft, current })} />
+      </Field>
+      <Field
+        label="dx/dt(V, x, i)"
+        tooltip="State derivative. May also use the current i = I(V, x) and the time t."
+      >
+        <ExpressionInput value={draft.dxdt} onChange={(dxdt) => setDraft({ ...draft, dxdt })} />
+      </Field>
+      <Tooltip text="Multiply dx/dt by the window function chosen under Simulation, with x normalised to the state bounds. Leave off if dx/dt has its own boundary behaviour.">
+        <label style={{ ...labelStyle, display: 'flex', alignItems: 'center', gap: '6px', cursor: 'help' }}>
+          <input
+            type="checkbox"
+            checked={!!draft.window}
+            onChange={(e) => setDraft({ ...draft, window: e.target.checked })}
+          />
+          Apply window function
+        </label>
+      </Tooltip>
+      <div style={{ fontSize: '10px', color: 'var(--color-text-muted)', lineHeight: 1.5 }}>
+        Operators + − * / ^ and comparisons, constants pi and e, functions{' '}
+        {FUNCTION_NAMES.join(', ')}.
+      </div>
+
+      <div style={{ display: 'flex', gap: '4px' }}>
+        {(['min', 'max', 'default'] as const).map((key) => (
+          <Field
+            key={key}
+            label={key === 'default' ? 'x₀' : `x ${key}`}
+            tooltip={
+              key === 'default'
+                ? 'Default initial state.'
+                : 'The integrator clamps x to [x min, x max].'
+            }
+          >
+            <NumberInput
+              value={draft.state[key]}
+              onChange={(v) => setDraft({ ...draft, state: { ...draft.state, [key]: v } })}
+            />
+          </Field>
+        ))}
+      </div>
+
+      <div style={{ display: 'flex', flexDirection: 'column', gap: '6px' }}>
+        <span style={labelStyle}>Parameters</span>
+        {draft.parameters.map((param, k) => (
+          <div
+            key={k}
+            style={{
+              display: 'flex',
+              flexDirection: 'column',
+              gap: '3px',
+              padding: '6px',
+              borderRadius: '6px',
+              border: '1px solid var(--color-border)',
+              background: 'var(--color-surface)',
+            }}
+          >
+            <div style={{ display: 'flex', gap: '3px' }}>
+              <TextInput placeholder="name" value={param.name} onChange={(name) => setParameter(k, { name })} />
+              <TextInput placeholder="symbol" value={param.symbol} onChange={(symbol) => setParameter(k, { symbol })} />
+              <TextInput placeholder="unit" value={param.unit} onChange={(unit) => setParameter(k, { unit })} />
+              <TextInput placeholder="group" value={param.group} onChange={(group) => setParameter(k, { group })} />
+            </div>
+            <div style={{ display: 'flex', gap: '3px', alignItems: 'center' }}>
+              <NumberInput title="Default" value={param.default} onChange={(v) => setParameter(k, { default: v })} />
+              <NumberInput title="Min" value={param.min} onChange={(v) => setParameter(k, { min: v })} />
+              <NumberInput title="Max" value={param.max} onChange={(v) => setParameter(k, { max: v })} />
+              <button
+                onClick={() =>
+                  setDraft({ ...draft, parameters: draft.parameters.filter((_, j) => j !== k) })
+                }
+                title="Remove parameter"
+                style={{ ...secondaryButtonStyle, padding: '2px 8px' }}
+              >
+                ×
+              </button>
+            </div>
+          </div>
+        ))}
+        <button
+          onClick={() => setDraft({ ...draft, parameters: [...draft.parameters, NEW_PARAMETER] })}
+          style={secondaryButtonStyle}
+        >
+          Add Parameter
+        </button>
+      </div>
+
+      <div
+        style={{
+          padding: '8px 10px',
+          borderRadius: '6px',
+          background: 'var(--color-surface)',
+          border: '1px solid var(--color-border)',
+          overflowX: 'auto',
+          fontSize: '11px',
+        }}
+      >
+        {[latex.current, latex.dxdt].map((eq) => (
+          <div
+            key={eq}
+            dangerouslySetInnerHTML={{
+              __html: katex.renderToString(eq, { throwOnError: false, displayMode: true }),
+            }}
+          />
+        ))}
+      </div>
+
+      {issues.length > 0 && (
+        <ul style={{ margin: 0, paddingLeft: '16px', fontSize: '11px', color: '#fca5a5' }}>
+          {issues.map((issue) => (
+            <li key={issue}>{issue}</li>
+          ))}
+        </ul>
+      )}
+
+      <button
+        onClick={() => saveCustomModel(spec)}
+        disabled={issues.length > 0}
+        style={{
+          padding: '7px 12px',
+          fontSize: '12px',
+          borderRadius: '6px',
+          ...toggleButtonStyle(true),
+          cursor: issues.length > 0 ? 'default' : 'pointer',
+          opacity: issues.length > 0 ? 0.5 : 1,
+        }}
+      >
+        {overwrites ? 'Update & Simulate' : 'Save & Simulate'}
+      </button>
+
+      {customModels.length > 0 && (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '4px' }}>
+          <span style={labelStyle}>Saved Models</span>
+          {customModels.map((saved) => (
+            <div
+              key={saved.id}
+              style={{ display: 'flex', alignItems: 'center', gap: '4px', fontSize: '12px' }}
+            >
+              <span style={{ flex: 1, overflow: 'hidden', textOverflow: 'ellipsis' }}>
+                {saved.name}
+              </span>
+              <button onClick={() => setDraft(saved)} style={secondaryButtonStyle}>
+                Edit
+              </button>
+              <button onClick={() => deleteCustomModel(saved.id)} style={secondaryButtonStyle}>
+                Delete
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function Field({
+  label,
+  tooltip,
+  children,
+}: {
+  label: string;
+  tooltip: string;
+  children: React.ReactNode;
+}) {
+  return (
+    <div style={{ flex: 1, minWidth: 0 }}>
+      <Tooltip text={tooltip}>
+        <span style={{ ...labelStyle, display: 'block', marginBottom: '2px', cursor: 'help' }}>
+          {label}
+        </span>
+      </Tooltip>
+      {children}
+    </div>
+  );
+}
+
+function ExpressionInput({ value, onChange }: { value: string; onChange: (v: string) => void }) {
+  return (
+    <textarea
+      value={value}
+      rows={2}
+      spellCheck={false}
+      onChange={(e) => onChange(e.target.value)}
+      style={{ ...inputStyle, textAlign: 'left', width: '100%', resize: 'vertical' }}
+    />
+  );
+}
+
+function TextInput({
+  placeholder,
+  value,
+  onChange,
+}: {
+  placeholder: string;
+  value: string;
+  onChange: (v: string) => void;
+}) {
+  return (
+    <input
+      placeholder={placeholder}
+      title={placeholder}
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      style={{ ...inputStyle, textAlign: 'left', width: '25%' }}
+    />
+  );
+}
+
+/** Number field that reports NaN while empty, so validation can flag it. */
+function NumberInput({
+  title,
+  value,
+  onChange,
+}: {
+  title?: string;
+  value: number;
+  onChange: (v: number) => void;
+}) {
+  return (
+    <input
+      type="number"
+      title={title}
+      value={Number.isNaN(value) ? '' : value}
+      onChange={(e) => onChange(parseFloat(e.target.value))}
+      style={{ ...inputStyle, flex: 1, minWidth: 0, width: '100%' }}
+    />
+  );
+}
+
+const labelStyle: React.CSSProperties = {
+  fontSize: '12px',
+  color: 'var(--color-text-muted)',
+};
+
+const inputStyle: React.CSSProperties = {
+  padding: '2px 6px',
+  fontSize: '11px',
+  fontFamily: 'monospace',
+  background: 'var(--color-surface)',
+  border: '1px solid var(--color-border)',
+  borderRadius: '4px',
+  color: 'var(--color-text)',
+  textAlign: 'right',
+  boxSizing: 'border-box',
+};
+
+const secondaryButtonStyle: React.CSSProperties = {
+  padding: '4px 10px',
+  fontSize: '11px',
+  borderRadius: '6px',
+  border: '1px solid var(--color-border)',
+  background: 'var(--color-surface)',
+  color: 'var(--color-text-muted)',
+  cursor: 'pointer',
+};
@@ -0,0 +1,199 @@
+import { useSimulationStore } from '../../stores/simulation.ts';
+import { EVENT_DIRECTION_OPTIONS, EVENT_KIND_OPTIONS } from '../../engine/events.ts';
+import type { EventDefinition, EventDirection, EventKind } from '../../engine/events.ts';
+import type { ParamValues } from '../../engine/models/types.ts';
+import { Tooltip } from '../ui/Tooltip.tsx';
+import { toggleButtonStyle } from '../ui/toggleButtonStyle.ts';
+
+/** Labels of the direction select for bound events, which pick a bound. */
+const BOUND_DIRECTION_LABELS: Record<EventDirection, string> = {
+  rising: 'Upper',
+  falling: 'Lower',
+  either: 'Either',
+};
+
+/**
+ * Editor for the events located during the run: threshold crossings of
+ * the device voltage, state levels and hits of the state bounds. Each
+ * occurrence is marked on the plots.
+ */
+export function EventControls() {
+  const events = useSimulationStore((s) => s.events);
+  const modelParams = useSimulationStore((s) => s.modelParams);
+  const result = useSimulationStore((s) => s.result);
+  const setEvents = useSimulationStore((s) => s.setEvents);
+
+  const thresholds = thresholdEvents(modelParams);
+  const update = (index: number, change: Partial<EventDefinition>) =>
+    setEvents(events.map((event, i) => (i === index ? { ...event, ...change } : event)));
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '8px' }}>
+      {events.map((event, index) => (
+        <div
+          key={index}
+          style={{
+            display: 'flex',
+            flexDirection: 'column',
+            gap: '4px',
+            padding: '6px',
+            borderRadius: '6px',
+            border: '1px solid var(--color-border)',
+          }}
+        >
+          <div style={{ display: 'flex', gap: '4px' }}>
+            <input
+              type="text"
+              value={event.label}
+              onChange={(e) => update(index, { label: e.target.value })}
+              title="Label shown at the markers"
+              style={{ ...inputStyle, flex: 1, textAlign: 'left', fontFamily: 'inherit' }}
+            />
+            <button
+              onClick={() => setEvents(events.filter((_, i) => i !== index))}
+              title="Remove event"
+              style={removeStyle}
+            >
+              ✕
+            </button>
+          </div>
+          <div style={{ display: 'flex', gap: '4px' }}>
+            <select
+              value={event.kind}
+              onChange={(e) => update(index, { kind: e.target.value as EventKind })}
+              style={selectStyle}
+            >
+              {EVENT_KIND_OPTIONS.map(({ value, label }) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+            <select
+              value={event.direction}
+              onChange={(e) => update(index, { direction: e.target.value as EventDirection })}
+              style={selectStyle}
+            >
+              {EVENT_DIRECTION_OPTIONS.map(({ value, label }) => (
+                <option key={value} value={value}>
+                  {event.kind === 'bound' ? BOUND_DIRECTION_LABELS[value] : label}
+                </option>
+              ))}
+            </select>
+            <input
+              type="number"
+              disabled={event.kind === 'bound'}
+              value={event.kind === 'bound' ? '' : event.level}
+              step={0.01}
+              onChange={(e) => {
+                const v = parseFloat(e.target.value);
+                if (!isNaN(v)) update(index, { level: v });
+              }}
+              title={event.kind === 'voltage' ? 'Level in V' : 'Level in state units'}
+              style={{
+                ...inputStyle,
+                flex: 1,
+                minWidth: 0,
+                opacity: event.kind === 'bound' ? 0.4 : 1,
+              }}
+            />
+          </div>
+        </div>
+      ))}
+
+      <div style={{ display: 'flex', gap: '4px' }}>
+        <button
+          onClick={() =>
+            setEvents([
+              ...events,
+              { label: `Event ${events.length + 1}`, kind: 'state', level: 0.5, direction: 'either' },
+            ])
+          }
+          style={addStyle}
+        >
+          Add Event
+        </button>
+        {thresholds.length > 0 && (
+          <Tooltip
+            text="Add the crossings of the model's switching thresholds by the device voltage."
+            containerStyle={{ flex: 1 }}
+          >
+            <button
+              onClick={() => setEvents([...events, ...thresholds])}
+              style={{ ...addStyle, width: '100%' }}
+            >
+              Add Thresholds
+            </button>
+          </Tooltip>
+        )}
+      </div>
+
+      {result && events.length > 0 && (
+        <div style={{ fontSize: '11px', color: 'var(--color-text-muted)' }}>
+          {result.events.length} event{result.events.length === 1 ? '' : 's'} located.
+          Rising crossings are marked ▲, falling ones ▼.
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * SET and RESET threshold crossings for models with voltage thresholds:
+ * ±Vp/Vn (Yakopcic) or v_off/v_on (VTEAM).
+ */
+function thresholdEvents(params: ParamValues): EventDefinition[] {
+  if ('Vp' in params && 'Vn' in params) {
+    return [
+      { label: 'SET', kind: 'voltage', level: params.Vp, direction: 'rising' },
+      { label: 'RESET', kind: 'voltage', level: -params.Vn, direction: 'falling' },
+    ];
+  }
+  if ('voff' in params && 'von' in params) {
+    return [
+      { label: 'OFF', kind: 'voltage', level: params.voff, direction: 'rising' },
+      { label: 'ON', kind: 'voltage', level: params.von, direction: 'falling' },
+    ];
+  }
+  return [];
+}
+
+const inputStyle: React.CSSProperties = {
+  padding: '2px 6px',
+  fontSize: '11px',
+  fontFamily: 'monospace',
+  background: 'var(--color-surface)',
+  border: '1px solid var(--color-border)',
+  borderRadius: '4px',
+  color: 'var(--color-text)',
+  textAlign: 'right',
+  boxSizing: 'border-box',
+};
+
+const selectStyle: React.CSSProperties = {
+  width: '76px',
+  padding: '2px 4px',
+  fontSize: '11px',
+  background: 'var(--color-surface)',
+  border: '1px solid var(--color-border)',
+  borderRadius: '4px',
+  color: 'var(--color-text)',
+};
+
+const addStyle: React.CSSProperties = {
+  flex: 1,
+  padding: '5px 10px',
+  fontSize: '12px',
+  borderRadius: '6px',
+  ...toggleButtonStyle(true),
+};
+
+const removeStyle: React.CSSProperties = {
+  padding: '0 6px',
+  fontSize: '11px',
+  borderRadius: '4px',
+  border: '1px solid var(--color-border)',
+  background: 'var(--color-surface)',
+  color: 'var(--color-text-muted)',
+  cursor: 'pointer',
+};
@@ -0,0 +1,58 @@
+import { useSimulationStore } from '../../stores/simulation.ts';
+import { MODEL_REGISTRY } from '../../engine/models/index.ts';
+import { IV_SHAPE_OPTIONS } from '../../engine/ivshapes.ts';
+import type { IVShapeType } from '../../engine/ivshapes.ts';
+import { Tooltip } from '../ui/Tooltip.tsx';
+
+/**
+ * Conduction-mechanism selector for models with ON/OFF I-V branches.
+ * Changing a branch's shape swaps its parameters in the ParameterPanel.
+ */
+export function IVShapeControls() {
+  const modelId = useSimulationStore((s) => s.modelId);
+  const ivShapes = useSimulationStore((s) => s.ivShapes);
+  const setIVShape = useSimulationStore((s) => s.setIVShape);
+
+  const branches = MODEL_REGISTRY[modelId]?.ivBranches;
+  if (!branches) return null;
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '10px' }}>
+      {branches.map((branch) => (
+        <div
+          key={branch.key}
+          style={{
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'space-between',
+          }}
+        >
+          <Tooltip text={`Conduction mechanism of the ${branch.label} I-V branch. Each shape brings its own fit parameters.`}>
+            <span style={{ fontSize: '12px', color: 'var(--color-text-muted)', cursor: 'help' }}>
+              {branch.label}
+            </span>
+          </Tooltip>
+          <select
+            value={ivShapes[branch.key] ?? branch.defaultShape}
+            onChange={(e) => setIVShape(branch.key, e.target.value as IVShapeType)}
+            style={{
+              width: '170px',
+              padding: '4px 6px',
+              fontSize: '12px',
+              background: 'var(--color-surface)',
+              border: '1px solid var(--color-border)',
+              borderRadius: '4px',
+              color: 'var(--color-text)',
+            }}
+          >
+            {IV_SHAPE_OPTIONS.map(({ value, label }) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -1,54 +1,51 @@
 import { useSimulationStore } from '../../stores/simulation.ts';
 import { MODEL_REGISTRY } from '../../engine/models/index.ts';
 import { Tooltip } from '../ui/Tooltip.tsx';
+import { ToggleButton } from '../ui/ToggleButton.tsx';
 
 const MODEL_TOOLTIPS: Record<string, string> = {
   hp_labs:
     'The original 2008 HP Labs physical model. Simulates oxygen vacancy drift in a nanoscale TiO₂ film. Best for understanding the fundamental memristive mechanism.',
   yakopcic:
     'A generalised behavioural model fitted to many oxide-based memristors. Uses sinh I–V relationship with threshold-gated state evolution. Supports Oblea, Miao, and Jo device datasets.',
+  team:
+    'Kvatinsky\'s ThrEshold Adaptive Memristor model. State changes only when the device current exceeds i_on / i_off, with a polynomial rate law.',
+  vteam:
+    'Voltage-threshold variant of TEAM. State changes only when the applied voltage exceeds v_on / v_off — matches most oxide devices.',
+  yakopcic_new:
+    'Newer Yakopcic formulation with separately fitted ON and OFF I–V branches (gmax/bmax, gmin/bmin). Matches the SrTiO₃ SPICE subcircuit and our fitted devices.',
+  stanford:
+    'Stanford/ASU physical model of filamentary oxide RRAM. The state is the tunnelling gap (nm) between filament tip and electrode, which grows or shrinks by field-enhanced vacancy hopping.',
 };
 
 export function ModelSelector() {
   const modelId = useSimulationStore((s) => s.modelId);
   const setModel = useSimulationStore((s) => s.setModel);
+  // Subscribed so the list refreshes when custom models are saved or deleted
+  useSimulationStore((s) => s.customModels);
   const models = Object.values(MODEL_REGISTRY);
 
   return (
-    <div style={{ display: 'flex', gap: '6px' }}>
+    <div style={{ display: 'flex', gap: '6px', flexWrap: 'wrap' }}>
       {models.map((model) => (
         <Tooltip
           key={model.id}
           text={MODEL_TOOLTIPS[model.id] ?? model.name}
-          containerStyle={{ flex: 1 }}
+          containerStyle={{ flex: '1 1 auto' }}
         >
-          <button
+          <ToggleButton
             onClick={() => setModel(model.id)}
+            selected={model.id === modelId}
             style={{
-              width: '100%',
               padding: '8px 10px',
               fontSize: '12px',
               fontWeight: model.id === modelId ? 600 : 400,
               borderRadius: '6px',
-              border:
-                model.id === modelId
-                  ? '1px solid var(--color-primary)'
-                  : '1px solid var(--color-border)',
-              background:
-                model.id === modelId
-                  ? 'rgba(59, 130, 246, 0.15)'
-                  : 'var(--color-surface)',
-              color:
-                model.id === modelId
-                  ? 'var(--color-primary)'
-                  : 'var(--color-text)',
-              cursor: 'pointer',
-              transition: 'all 0.15s',
               textAlign: 'center',
             }}
           >
             {model.name.replace(' Model', '').replace(' Generalised', '')}
-          </button>
+          </ToggleButton>
         </Tooltip>
       ))}
     </div>
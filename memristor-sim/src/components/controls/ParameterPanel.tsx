@@ -1,5 +1,9 @@
 import { useSimulationStore } from '../../stores/simulation.ts';
-import { MODEL_REGISTRY } from '../../engine/models/index.ts';
+import { MODEL_REGISTRY, stateInfoOf } from '../../engine/models/index.ts';
+import { resolveParameterInfo } from '../../engine/ivshapes.ts';
+import { THERMAL_PARAMETER_INFO } from '../../engine/thermal.ts';
+import { relaxationParameterInfo } from '../../engine/relaxation.ts';
+import type { ParameterInfo } from '../../engine/models/types.ts';
 import { ParameterSlider } from './ParameterSlider.tsx';
 import { GROUP_LABELS, GROUP_DESCRIPTIONS } from '../../content/parameters.ts';
 
@@ -7,13 +11,23 @@ export function ParameterPanel() {
   const modelId = useSimulationStore((s) => s.modelId);
   const modelParams = useSimulationStore((s) => s.modelParams);
   const setModelParam = useSimulationStore((s) => s.setModelParam);
+  const ivShapes = useSimulationStore((s) => s.ivShapes);
+  const thermal = useSimulationStore((s) => s.thermal);
+  const relaxation = useSimulationStore((s) => s.relaxation);
 
   const model = MODEL_REGISTRY[modelId];
   if (!model) return null;
 
+  const modelInfo = resolveParameterInfo(model, ivShapes);
+  const paramInfo = [
+    ...modelInfo,
+    ...relaxationParameterInfo(stateInfoOf(model)[0], relaxation),
+    ...(thermal ? THERMAL_PARAMETER_INFO : []),
+  ];
+
   // Group parameters by their group field
-  const groups = new Map<string, typeof model.parameterInfo>();
-  for (const param of model.parameterInfo) {
+  const groups = new Map<string, ParameterInfo[]>();
+  for (const param of paramInfo) {
     const existing = groups.get(param.group) ?? [];
     existing.push(param);
     groups.set(param.group, existing);
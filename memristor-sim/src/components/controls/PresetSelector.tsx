@@ -1,69 +1,141 @@
+import { useState } from 'react';
 import { useSimulationStore } from '../../stores/simulation.ts';
 import { PRESETS } from '../../engine/presets.ts';
+import { Tooltip } from '../ui/Tooltip.tsx';
+import { toggleButtonStyle } from '../ui/toggleButtonStyle.ts';
 
+/**
+ * The experiment presets of the current model, followed by the setups
+ * the user saved for it, and a form to save the present setup — signal,
+ * sequence segments and all — as a preset of its own.
+ */
 export function PresetSelector() {
   const modelId = useSimulationStore((s) => s.modelId);
   const loadPreset = useSimulationStore((s) => s.loadPreset);
   const currentParams = useSimulationStore((s) => s.modelParams);
+  const savedPresets = useSimulationStore((s) => s.savedPresets);
+  const savePreset = useSimulationStore((s) => s.savePreset);
+  const deletePreset = useSimulationStore((s) => s.deletePreset);
+  const [name, setName] = useState('');
 
-  const relevantPresets = PRESETS.filter((p) => p.modelId === modelId);
+  const relevantPresets = [...PRESETS, ...savedPresets].filter((p) => p.modelId === modelId);
+  const saved = new Set(savedPresets.map((p) => p.id));
 
   return (
     <div style={{ display: 'flex', flexDirection: 'column', gap: '6px' }}>
       {relevantPresets.map((preset) => {
         const isActive = isPresetActive(preset.modelParams, currentParams);
         return (
+          <div key={preset.id} style={{ position: 'relative' }}>
+            <button
+              onClick={() => loadPreset(preset)}
+              title={preset.description}
+              style={{
+                width: '100%',
+                padding: '8px 12px',
+                fontSize: '12px',
+                textAlign: 'left',
+                borderRadius: '6px',
+                border: isActive
+                  ? '1px solid var(--color-accent)'
+                  : '1px solid var(--color-border)',
+                background: isActive
+                  ? 'rgba(129, 140, 248, 0.1)'
+                  : 'var(--color-surface)',
+                color: isActive ? 'var(--color-accent)' : 'var(--color-text)',
+                cursor: 'pointer',
+                transition: 'all 0.15s',
+                lineHeight: 1.4,
+              }}
+            >
+              <div style={{ fontWeight: 500 }}>{preset.name}</div>
+              <div
+                style={{
+                  fontSize: '11px',
+                  color: 'var(--color-text-muted)',
+                  marginTop: '2px',
+                  overflow: 'hidden',
+                  textOverflow: 'ellipsis',
+                  whiteSpace: 'nowrap',
+                }}
+              >
+                {preset.description.split('.')[0]}
+              </div>
+              <div
+                style={{
+                  fontSize: '10px',
+                  color: 'var(--color-accent)',
+                  marginTop: '3px',
+                  fontStyle: 'italic',
+                  overflow: 'hidden',
+                  textOverflow: 'ellipsis',
+                  whiteSpace: 'nowrap',
+                  opacity: 0.85,
+                }}
+              >
+                ◈ {preset.citation}
+              </div>
+            </button>
+            {saved.has(preset.id) && (
+              <button
+                onClick={() => deletePreset(preset.id)}
+                title="Delete saved preset"
+                style={{
+                  position: 'absolute',
+                  top: '6px',
+                  right: '6px',
+                  padding: '0 6px',
+                  fontSize: '11px',
+                  borderRadius: '4px',
+                  border: '1px solid var(--color-border)',
+                  background: 'var(--color-surface)',
+                  color: 'var(--color-text-muted)',
+                  cursor: 'pointer',
+                }}
+              >
+                ✕
+              </button>
+            )}
+          </div>
+        );
+      })}
+
+      <div style={{ display: 'flex', gap: '4px' }}>
+        <input
+          type="text"
+          value={name}
+          placeholder="Name of the setup"
+          onChange={(e) => setName(e.target.value)}
+          style={{
+            flex: 1,
+            minWidth: 0,
+            padding: '4px 8px',
+            fontSize: '12px',
+            background: 'var(--color-surface)',
+            border: '1px solid var(--color-border)',
+            borderRadius: '4px',
+            color: 'var(--color-text)',
+          }}
+        />
+        <Tooltip text="Save the model, its parameters, the signal with all its settings and the source and simulation settings as a preset, kept in this browser. Saving under an existing name replaces that preset.">
           <button
-            key={preset.id}
-            onClick={() => loadPreset(preset)}
-            title={preset.description}
+            onClick={() => {
+              savePreset(name);
+              setName('');
+            }}
+            disabled={!name.trim()}
             style={{
-              padding: '8px 12px',
+              padding: '4px 10px',
               fontSize: '12px',
-              textAlign: 'left',
               borderRadius: '6px',
-              border: isActive
-                ? '1px solid var(--color-accent)'
-                : '1px solid var(--color-border)',
-              background: isActive
-                ? 'rgba(129, 140, 248, 0.1)'
-                : 'var(--color-surface)',
-              color: isActive ? 'var(--color-accent)' : 'var(--color-text)',
-              cursor: 'pointer',
-              transition: 'all 0.15s',
-              lineHeight: 1.4,
+              ...toggleButtonStyle(true),
+              opacity: name.trim() ? 1 : 0.5,
             }}
           >
-            <div style={{ fontWeight: 500 }}>{preset.name}</div>
-            <div
-              style={{
-                fontSize: '11px',
-                color: 'var(--color-text-muted)',
-                marginTop: '2px',
-                overflow: 'hidden',
-                textOverflow: 'ellipsis',
-                whiteSpace: 'nowrap',
-              }}
-            >
-              {preset.description.split('.')[0]}
-            </div>
-            <div
-              style={{
-                fontSize: '10px',
-                color: 'var(--color-accent)',
-                marginTop: '3px',
-                fontStyle: 'italic',
-                overflow: 'hidden',
-                textOverflow: 'ellipsis',
-                whiteSpace: 'nowrap',
-                opacity: 0.85,
-              }}
-            >
-              ◈ {preset.citation}
-            </div>
+            Save Setup
           </button>
-        );
-      })}
+        </Tooltip>
+      </div>
     </div>
   );
 }
@@ -0,0 +1,310 @@
+import { useSimulationStore } from '../../stores/simulation.ts';
+import {
+  generatorDuration,
+  segmentStarts,
+  sequenceDuration,
+  SEGMENT_GENERATOR_OPTIONS,
+  SEQUENCE_MODE_OPTIONS,
+} from '../../engine/signals/sequence.ts';
+import type {
+  SegmentGenerator,
+  SequenceMode,
+  SequenceSegment,
+} from '../../engine/signals/sequence.ts';
+import { pulseSequence } from '../../engine/signals/pulse.ts';
+import { staircaseStepCount } from '../../engine/signals/staircase.ts';
+import { Tooltip } from '../ui/Tooltip.tsx';
+import { ToggleButton } from '../ui/ToggleButton.tsx';
+import { toggleButtonStyle } from '../ui/toggleButtonStyle.ts';
+
+const SEQUENCE_MODE_TOOLTIPS: Record<SequenceMode, string> = {
+  concatenate: 'Play the segments one after another; each delay is idle time after the previous segment.',
+  sum: 'Add the segments up, e.g. a pulse burst on a DC bias; each delay is the start time of its segment.',
+};
+
+/** Signal-type buttons whose settings pulse, staircase and PWL segments take over. */
+const SETTINGS_SOURCES: Partial<Record<SegmentGenerator, string>> = {
+  pulse: 'Pulses',
+  staircase: 'Staircase',
+  pwl: 'PWL',
+};
+
+/** Segment appended by Add Segment: a rest at 0. */
+const NEW_SEGMENT: SequenceSegment = {
+  generator: 'dc',
+  duration: 1,
+  delay: 0,
+  offset: 0,
+  amplitude: 0,
+  frequency: 1,
+};
+
+/**
+ * List editor of the segments of a waveform sequence. Pulse, staircase
+ * and PWL segments take over the settings last made under their own
+ * signal type, so a burst is set up there and then added here.
+ */
+export function SequenceEditor({ unit }: { unit: string }) {
+  const sequence = useSimulationStore((s) => s.sequence);
+  const setSequence = useSimulationStore((s) => s.setSequence);
+  const pulse = useSimulationStore((s) => s.pulse);
+  const staircase = useSimulationStore((s) => s.staircase);
+  const pwl = useSimulationStore((s) => s.pwl);
+
+  const { segments } = sequence;
+  const starts = segmentStarts(sequence);
+  const setSegments = (next: SequenceSegment[]) => setSequence({ ...sequence, segments: next });
+  const update = (index: number, change: Partial<SequenceSegment>) =>
+    setSegments(segments.map((segment, i) => (i === index ? { ...segment, ...change } : segment)));
+
+  /** Switch a segment's generator; one with settings of its own plays them through. */
+  const setGenerator = (index: number, generator: SegmentGenerator) => {
+    const own =
+      generator === 'pulse'
+        ? { pulse: { ...pulse } }
+        : generator === 'staircase'
+          ? { staircase: { ...staircase } }
+          : generator === 'pwl'
+            ? { pwl: { ...pwl } }
+            : {};
+    const settings = { pulse: undefined, staircase: undefined, pwl: undefined, ...own };
+    const duration = generatorDuration({ ...segments[index], generator, ...settings });
+    update(index, { generator, ...settings, ...(duration ? { duration } : {}) });
+  };
+
+  const move = (index: number, by: number) => {
+    const next = [...segments];
+    [next[index], next[index + by]] = [next[index + by], next[index]];
+    setSegments(next);
+  };
+
+  return (
+    <>
+      <div style={{ display: 'flex', gap: '4px' }}>
+        {SEQUENCE_MODE_OPTIONS.map(({ value, label }) => (
+          <Tooltip key={value} text={SEQUENCE_MODE_TOOLTIPS[value]} containerStyle={{ flex: 1 }}>
+            <ToggleButton
+              onClick={() => setSequence({ ...sequence, mode: value })}
+              selected={value === sequence.mode}
+            >
+              {label}
+            </ToggleButton>
+          </Tooltip>
+        ))}
+      </div>
+
+      {segments.map((segment, index) => {
+        const source = SETTINGS_SOURCES[segment.generator];
+        const periodic = segment.generator === 'sine' || segment.generator === 'triangle';
+        return (
+          <div
+            key={index}
+            style={{
+              display: 'flex',
+              flexDirection: 'column',
+              gap: '4px',
+              padding: '6px',
+              borderRadius: '6px',
+              border: '1px solid var(--color-border)',
+            }}
+          >
+            <div style={{ display: 'flex', gap: '4px', alignItems: 'center' }}>
+              <span
+                title="Start time of the segment"
+                style={{ fontSize: '11px', color: 'var(--color-text-muted)', fontFamily: 'monospace', width: '54px' }}
+              >
+                {parseFloat(starts[index].toPrecision(4))} s
+              </span>
+              <select
+                value={segment.generator}
+                onChange={(e) => setGenerator(index, e.target.value as SegmentGenerator)}
+                style={{ ...selectStyle, flex: 1 }}
+              >
+                {SEGMENT_GENERATOR_OPTIONS.map(({ value, label }) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+              <button
+                onClick={() => move(index, -1)}
+                disabled={index === 0}
+                title="Move up"
+                style={{ ...iconButtonStyle, opacity: index === 0 ? 0.4 : 1 }}
+              >
+                ▲
+              </button>
+              <button
+                onClick={() => move(index, 1)}
+                disabled={index === segments.length - 1}
+                title="Move down"
+                style={{ ...iconButtonStyle, opacity: index === segments.length - 1 ? 0.4 : 1 }}
+              >
+                ▼
+              </button>
+              <button
+                onClick={() => setSegments(segments.filter((_, i) => i !== index))}
+                disabled={segments.length === 1}
+                title="Remove segment"
+                style={{ ...iconButtonStyle, opacity: segments.length === 1 ? 0.4 : 1 }}
+              >
+                ✕
+              </button>
+            </div>
+            <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '4px 8px' }}>
+              <SegmentInput
+                label="Duration (s)"
+                title="Time the segment is active. Pulse, staircase and PWL segments are cut short or padded after their own end."
+                value={segment.duration}
+                min={1e-12}
+                onChange={(duration) => update(index, { duration })}
+              />
+              <SegmentInput
+                label="Delay (s)"
+                title={SEQUENCE_MODE_TOOLTIPS[sequence.mode]}
+                value={segment.delay}
+                min={0}
+                onChange={(delay) => update(index, { delay })}
+              />
+              <SegmentInput
+                label={`Offset (${unit})`}
+                title="Level added while the segment is active."
+                value={segment.offset}
+                onChange={(offset) => update(index, { offset })}
+              />
+              <SegmentInput
+                label={source ? 'Scale (×)' : `Amplitude (${unit})`}
+                title={
+                  source
+                    ? 'Factor on the levels of the segment’s own settings; −1 inverts them.'
+                    : segment.generator === 'dc'
+                      ? 'Level of the segment, on top of the offset; 0 for a rest.'
+                      : segment.generator === 'ramp'
+                        ? 'Level the ramp reaches at the end of the segment.'
+                        : 'Peak of the waveform.'
+                }
+                value={segment.amplitude}
+                onChange={(amplitude) => update(index, { amplitude })}
+              />
+              {periodic && (
+                <SegmentInput
+                  label="Frequency (Hz)"
+                  title="Cycles per second; a segment of whole cycles ends at 0."
+                  value={segment.frequency}
+                  min={1e-9}
+                  onChange={(frequency) => update(index, { frequency })}
+                />
+              )}
+            </div>
+            {source && (
+              <div style={{ display: 'flex', gap: '4px', alignItems: 'center' }}>
+                <span style={{ flex: 1, fontSize: '11px', color: 'var(--color-text-muted)', fontFamily: 'monospace' }}>
+                  {settingsSummary(segment)}
+                </span>
+                <Tooltip text={`Take over the settings now made under the ${source} signal type, and their duration.`}>
+                  <button onClick={() => setGenerator(index, segment.generator)} style={iconButtonStyle}>
+                    From {source}
+                  </button>
+                </Tooltip>
+              </div>
+            )}
+          </div>
+        );
+      })}
+
+      <button onClick={() => setSegments([...segments, { ...NEW_SEGMENT }])} style={addStyle}>
+        Add Segment
+      </button>
+      <div style={{ fontSize: '11px', color: 'var(--color-text-muted)', fontFamily: 'monospace' }}>
+        {segments.length} segment{segments.length === 1 ? '' : 's'} ·{' '}
+        {parseFloat(sequenceDuration(sequence).toPrecision(4))} s
+      </div>
+    </>
+  );
+}
+
+/** Size of the settings a pulse, staircase or PWL segment plays. */
+function settingsSummary({ generator, pulse, staircase, pwl }: SequenceSegment): string {
+  if (generator === 'pulse' && pulse) return `${pulseSequence(pulse).length} pulses`;
+  if (generator === 'staircase' && staircase) return `${staircaseStepCount(staircase)} steps`;
+  if (generator === 'pwl' && pwl) return `${pwl.times.length} points`;
+  return 'no settings';
+}
+
+function SegmentInput({
+  label,
+  title,
+  value,
+  min = -Infinity,
+  onChange,
+}: {
+  label: string;
+  title: string;
+  value: number;
+  min?: number;
+  onChange: (v: number) => void;
+}) {
+  return (
+    <label
+      title={title}
+      style={{
+        display: 'flex',
+        flexDirection: 'column',
+        gap: '2px',
+        fontSize: '10px',
+        color: 'var(--color-text-muted)',
+        cursor: 'help',
+      }}
+    >
+      {label}
+      <input
+        type="number"
+        value={parseFloat(value.toPrecision(6))}
+        onChange={(e) => {
+          const v = parseFloat(e.target.value);
+          if (!isNaN(v) && v >= min) onChange(v);
+        }}
+        style={inputStyle}
+      />
+    </label>
+  );
+}
+
+const inputStyle: React.CSSProperties = {
+  width: '100%',
+  padding: '2px 6px',
+  fontSize: '11px',
+  fontFamily: 'monospace',
+  background: 'var(--color-surface)',
+  border: '1px solid var(--color-border)',
+  borderRadius: '4px',
+  color: 'var(--color-text)',
+  textAlign: 'right',
+  boxSizing: 'border-box',
+};
+
+const selectStyle: React.CSSProperties = {
+  padding: '2px 4px',
+  fontSize: '11px',
+  background: 'var(--color-surface)',
+  border: '1px solid var(--color-border)',
+  borderRadius: '4px',
+  color: 'var(--color-text)',
+};
+
+const iconButtonStyle: React.CSSProperties = {
+  padding: '1px 6px',
+  fontSize: '11px',
+  borderRadius: '4px',
+  border: '1px solid var(--color-border)',
+  background: 'var(--color-surface)',
+  color: 'var(--color-text-muted)',
+  cursor: 'pointer',
+};
+
+const addStyle: React.CSSProperties = {
+  padding: '5px 10px',
+  fontSize: '12px',
+  borderRadius: '6px',
+  ...toggleButtonStyle(true),
+};
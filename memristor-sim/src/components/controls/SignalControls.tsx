@@ -1,11 +1,60 @@
+import { useState } from 'react';
 import { useSimulationStore } from '../../stores/simulation.ts';
 import type { SignalType } from '../../engine/signals/types.ts';
+import {
+  formatPwlTable,
+  parsePwl,
+  pwlDuration,
+  PWL_INTERPOLATION_OPTIONS,
+} from '../../engine/signals/pwl.ts';
+import type { PwlInterpolation } from '../../engine/signals/pwl.ts';
+import {
+  pulseSequence,
+  pulseTrainDuration,
+  PULSE_POLARITY_OPTIONS,
+} from '../../engine/signals/pulse.ts';
+import type { PulsePolarity } from '../../engine/signals/pulse.ts';
+import { staircaseDuration, staircaseStepCount } from '../../engine/signals/staircase.ts';
+import { formatSmuCsv, parseSmuCsv } from '../../engine/smucsv.ts';
+import { SequenceEditor } from './SequenceEditor.tsx';
+import { DRIVE_OPTIONS } from '../../engine/drive.ts';
+import type { DriveMode } from '../../engine/drive.ts';
 import { Tooltip } from '../ui/Tooltip.tsx';
+import { ToggleButton } from '../ui/ToggleButton.tsx';
+
+const DRIVE_TOOLTIPS: Record<DriveMode, string> = {
+  voltage: 'Voltage source: the signal sets the voltage and the device current is the response.',
+  current:
+    'Current source: the signal sets the current (amplitudes in A) and the device voltage is the response, found by inverting I(V, x).',
+};
 
 const SIGNAL_TOOLTIPS: Record<SignalType, string> = {
   sine: 'Sinusoidal drive — standard test signal for measuring pinched hysteresis loops.',
   triangle:
     'Linear ramp — approximates a DC voltage sweep; useful for threshold voltage measurement.',
+  retention:
+    'Retention test — one programming pulse, then a low read bias over log-spaced times to track state decay.',
+  pwl: 'Piecewise-linear table — the same time–value stimulus as a SPICE PWL source, pasted or loaded from a file.',
+  pulse:
+    'Pulse train — identical SET and RESET pulses with small read pulses in between, for potentiation/depression (synaptic) characterisation.',
+  staircase:
+    'Staircase DC sweep — the SMU protocol of the measured sweeps: fixed voltage steps held for a dwell time and read at the end of each.',
+  sequence:
+    'Waveform sequence — a whole measurement recipe: segments such as a forming ramp, triangle cycles, a pulse burst and a rest, played in turn or summed.',
+  measured:
+    'Measured replay — drive the model with the V(t) readings of a measured SMU CSV file and overlay the measured current, so model and device see the same excitation.',
+};
+
+const PULSE_POLARITY_TOOLTIPS: Record<PulsePolarity, string> = {
+  set: 'Only SET (positive) pulses: potentiation.',
+  reset: 'Only RESET (negative) pulses: depression.',
+  setReset: 'N SET pulses, then N RESET pulses: one potentiation/depression cycle.',
+  alternating: 'N pulses alternating SET and RESET.',
+};
+
+const PWL_INTERPOLATION_TOOLTIPS: Record<PwlInterpolation, string> = {
+  linear: 'Ramp linearly between points, as a SPICE PWL source does.',
+  step: 'Hold each value until the next point, as a stepped source-measure unit does.',
 };
 
 export function SignalControls() {
@@ -13,79 +62,578 @@ export function SignalControls() {
   const signalParams = useSimulationStore((s) => s.signalParams);
   const setSignalType = useSimulationStore((s) => s.setSignalType);
   const setSignalParam = useSimulationStore((s) => s.setSignalParam);
+  const retention = useSimulationStore((s) => s.retention);
+  const setRetentionParam = useSimulationStore((s) => s.setRetentionParam);
+  const drive = useSimulationStore((s) => s.drive);
+  const voltageCompliance = useSimulationStore((s) => s.voltageCompliance);
+  const setDrive = useSimulationStore((s) => s.setDrive);
+  const setVoltageCompliance = useSimulationStore((s) => s.setVoltageCompliance);
+  const seriesResistance = useSimulationStore((s) => s.seriesResistance);
+  const compliance = useSimulationStore((s) => s.compliance);
+  const setSeriesResistance = useSimulationStore((s) => s.setSeriesResistance);
+  const setCompliance = useSimulationStore((s) => s.setCompliance);
 
   const signalTypes: { value: SignalType; label: string }[] = [
     { value: 'sine', label: 'Sine' },
     { value: 'triangle', label: 'Triangle' },
+    { value: 'retention', label: 'Retention' },
+    { value: 'pwl', label: 'PWL' },
+    { value: 'pulse', label: 'Pulses' },
+    { value: 'staircase', label: 'Staircase' },
+    { value: 'sequence', label: 'Sequence' },
+    { value: 'measured', label: 'Measured' },
   ];
 
+  // Amplitudes are in amps under current drive
+  const currentDriven = drive === 'current';
+  const q = currentDriven ? 'I' : 'V';
+  const unit = currentDriven ? 'A' : 'V';
+  const amplitudeRange = currentDriven
+    ? { step: 1e-6, min: 1e-12, max: 1 }
+    : { step: 0.01, min: 0.01, max: 20 };
+
   return (
     <div style={{ display: 'flex', flexDirection: 'column', gap: '10px' }}>
-      {/* Signal type toggle */}
+      {/* Source type toggle */}
       <div style={{ display: 'flex', gap: '6px' }}>
+        {DRIVE_OPTIONS.map(({ value, label }) => (
+          <Tooltip key={value} text={DRIVE_TOOLTIPS[value]} containerStyle={{ flex: 1 }}>
+            <ToggleButton
+              onClick={() => setDrive(value)}
+              selected={value === drive}
+            >
+              {label} Source
+            </ToggleButton>
+          </Tooltip>
+        ))}
+      </div>
+
+      {/* Signal type toggle */}
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: '6px' }}>
         {signalTypes.map(({ value, label }) => (
-          <Tooltip key={value} text={SIGNAL_TOOLTIPS[value]} containerStyle={{ flex: 1 }}>
-            <button
+          <Tooltip key={value} text={SIGNAL_TOOLTIPS[value]} containerStyle={{ flex: '1 0 auto' }}>
+            <ToggleButton
               onClick={() => setSignalType(value)}
-              style={{
-                width: '100%',
-                padding: '6px 8px',
-                fontSize: '12px',
-                borderRadius: '6px',
-                border:
-                  value === signalType
-                    ? '1px solid var(--color-primary)'
-                    : '1px solid var(--color-border)',
-                background:
-                  value === signalType
-                    ? 'rgba(59, 130, 246, 0.15)'
-                    : 'var(--color-surface)',
-                color:
-                  value === signalType
-                    ? 'var(--color-primary)'
-                    : 'var(--color-text)',
-                cursor: 'pointer',
-                transition: 'all 0.15s',
-              }}
+              selected={value === signalType}
+              style={{ padding: '6px 4px', borderRadius: '6px' }}
             >
               {label}
-            </button>
+            </ToggleButton>
           </Tooltip>
         ))}
       </div>
 
       {/* Signal parameters */}
-      <CompactInput
-        label="V+ (V)"
-        tooltip="Peak positive voltage amplitude of the driving waveform."
-        value={signalParams.vp}
-        step={0.01}
-        min={0.01}
-        max={20}
-        onChange={(v) => setSignalParam('vp', v)}
+      {signalType === 'pwl' ? (
+        <PwlEditor unit={unit} />
+      ) : signalType === 'pulse' ? (
+        <PulseEditor q={q} unit={unit} amplitudeMax={amplitudeRange.max} />
+      ) : signalType === 'staircase' ? (
+        <StaircaseEditor q={q} unit={unit} amplitudeMax={amplitudeRange.max} />
+      ) : signalType === 'sequence' ? (
+        <SequenceEditor unit={unit} />
+      ) : signalType === 'measured' ? (
+        <MeasuredEditor currentDriven={currentDriven} />
+      ) : signalType === 'retention' ? (
+        <>
+          <CompactInput
+            label={`${q}_prog (${unit})`}
+            tooltip="Amplitude of the programming pulse. Use a negative value to program the opposite state."
+            value={retention.vProgram}
+            step={amplitudeRange.step}
+            min={-amplitudeRange.max}
+            max={amplitudeRange.max}
+            onChange={(v) => setRetentionParam('vProgram', v)}
+          />
+          <CompactInput
+            label="t_prog (s)"
+            tooltip="Width of the programming pulse. The read phase starts when it ends."
+            value={retention.tProgram}
+            step={1e-6}
+            min={1e-9}
+            max={1000}
+            onChange={(v) => setRetentionParam('tProgram', v)}
+          />
+          <CompactInput
+            label={`${q}_read (${unit})`}
+            tooltip="Read bias applied after the pulse. Keep it below the switching thresholds so reading does not disturb the state."
+            value={retention.vRead}
+            step={amplitudeRange.step}
+            min={-amplitudeRange.max}
+            max={amplitudeRange.max}
+            onChange={(v) => setRetentionParam('vRead', v)}
+          />
+        </>
+      ) : (
+        <>
+          <CompactInput
+            label={`${q}+ (${unit})`}
+            tooltip={`Peak positive ${currentDriven ? 'current' : 'voltage'} amplitude of the driving waveform.`}
+            value={signalParams.vp}
+            {...amplitudeRange}
+            onChange={(v) => setSignalParam('vp', v)}
+          />
+          <CompactInput
+            label={`${q}- (${unit})`}
+            tooltip={`Peak negative ${currentDriven ? 'current' : 'voltage'} amplitude.`}
+            value={signalParams.vn}
+            {...amplitudeRange}
+            onChange={(v) => setSignalParam('vn', v)}
+          />
+          <CompactInput
+            label="Frequency (Hz)"
+            tooltip="Frequency of the periodic drive in Hz."
+            value={signalParams.frequency}
+            step={0.1}
+            min={0.001}
+            max={10000}
+            onChange={(v) => setSignalParam('frequency', v)}
+          />
+        </>
+      )}
+
+      {/* Measurement circuit */}
+      {currentDriven ? (
+        <CompactInput
+          label="V_compliance (V)"
+          tooltip="Voltage limit of the current source. If the device cannot carry the set current within it (e.g. fully OFF), the voltage is clamped and the current falls short; such intervals are shaded on the plots."
+          value={voltageCompliance}
+          step={0.1}
+          min={0.01}
+          max={200}
+          onChange={setVoltageCompliance}
+        />
+      ) : (
+        <>
+          <CompactInput
+            label="R_series (Ω)"
+            tooltip="Contact and line resistance in series with the device. It takes part of the source voltage, so the device sees less than the signal. 0 = none."
+            value={seriesResistance}
+            step={1}
+            min={0}
+            max={1e7}
+            onChange={setSeriesResistance}
+          />
+          <CompactInput
+            label="I_compliance (A)"
+            tooltip="Current limit of the source-measure unit. Above it the source lowers its voltage to hold the current; such intervals are shaded on the plots. 0 = none."
+            value={compliance}
+            step={1e-6}
+            min={0}
+            max={1}
+            onChange={setCompliance}
+          />
+        </>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Text editor of the PWL table, which accepts rows of time and value or
+ * a SPICE PWL specification, and its interpolation and timing.
+ */
+function PwlEditor({ unit }: { unit: string }) {
+  const pwl = useSimulationStore((s) => s.pwl);
+  const setPwlTable = useSimulationStore((s) => s.setPwlTable);
+  const setPwlInterpolation = useSimulationStore((s) => s.setPwlInterpolation);
+  const setPwlRepeat = useSimulationStore((s) => s.setPwlRepeat);
+  const setPwlTimeScale = useSimulationStore((s) => s.setPwlTimeScale);
+
+  // The text a table was loaded from, shown again as rows once another
+  // table (e.g. a preset's) replaces it
+  const [source, setSource] = useState(() => ({ table: pwl.times, text: formatPwlTable(pwl) }));
+  const [error, setError] = useState<string | null>(null);
+  if (source.table !== pwl.times) {
+    setSource({ table: pwl.times, text: formatPwlTable(pwl) });
+  }
+
+  const apply = (text: string) => {
+    try {
+      const table = parsePwl(text);
+      setSource({ table: table.times, text });
+      setError(null);
+      setPwlTable(table);
+    } catch (e) {
+      setSource({ ...source, text });
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const upload = async (file: File | undefined) => {
+    if (file) apply(await file.text());
+  };
+
+  const low = pwl.values.reduce((a, b) => Math.min(a, b));
+  const high = pwl.values.reduce((a, b) => Math.max(a, b));
+
+  return (
+    <>
+      <textarea
+        value={source.text}
+        rows={5}
+        spellCheck={false}
+        placeholder="time,value rows or PWL(0 0 1 1 2 -2 3 0)"
+        onChange={(e) => setSource({ ...source, text: e.target.value })}
+        style={{
+          width: '100%',
+          padding: '4px 6px',
+          fontSize: '11px',
+          fontFamily: 'monospace',
+          background: 'var(--color-surface)',
+          border: '1px solid var(--color-border)',
+          borderRadius: '4px',
+          color: 'var(--color-text)',
+          resize: 'vertical',
+          boxSizing: 'border-box',
+        }}
       />
+      <div style={{ display: 'flex', gap: '6px' }}>
+        <button onClick={() => apply(source.text)} style={{ ...secondaryButtonStyle, flex: 1 }}>
+          Apply
+        </button>
+        <Tooltip
+          text="Load a PWL file as referenced by PWL file=…, a CSV of time and value, or a netlist line with a PWL source."
+          containerStyle={{ flex: 1 }}
+        >
+          <label style={{ ...secondaryButtonStyle, display: 'block', textAlign: 'center' }}>
+            Upload…
+            <input
+              type="file"
+              accept=".txt,.csv,.pwl,.cir,.net"
+              onChange={(e) => {
+                void upload(e.target.files?.[0]);
+                e.target.value = '';
+              }}
+              style={{ display: 'none' }}
+            />
+          </label>
+        </Tooltip>
+      </div>
+      {error && <div style={{ fontSize: '11px', color: '#fca5a5' }}>{error}</div>}
+      <div style={{ fontSize: '11px', color: 'var(--color-text-muted)', fontFamily: 'monospace' }}>
+        {pwl.times.length} points · {parseFloat(pwlDuration(pwl).toPrecision(4))} s ·{' '}
+        {parseFloat(low.toPrecision(3))} … {parseFloat(high.toPrecision(3))} {unit}
+      </div>
+
+      <div style={{ display: 'flex', gap: '4px' }}>
+        {PWL_INTERPOLATION_OPTIONS.map(({ value, label }) => (
+          <Tooltip key={value} text={PWL_INTERPOLATION_TOOLTIPS[value]} containerStyle={{ flex: 1 }}>
+            <ToggleButton
+              onClick={() => setPwlInterpolation(value)}
+              selected={value === pwl.interpolation}
+            >
+              {label}
+            </ToggleButton>
+          </Tooltip>
+        ))}
+      </div>
+      <Tooltip text="Start the table over after its last point, like r=0 in SPICE, instead of holding the last value.">
+        <label
+          style={{
+            fontSize: '12px',
+            color: 'var(--color-text-muted)',
+            display: 'flex',
+            alignItems: 'center',
+            gap: '6px',
+            cursor: 'help',
+          }}
+        >
+          <input
+            type="checkbox"
+            checked={pwl.repeat}
+            onChange={(e) => setPwlRepeat(e.target.checked)}
+          />
+          Repeat table
+        </label>
+      </Tooltip>
       <CompactInput
-        label="V- (V)"
-        tooltip="Peak negative voltage amplitude."
-        value={signalParams.vn}
-        step={0.01}
-        min={0.01}
-        max={20}
-        onChange={(v) => setSignalParam('vn', v)}
+        label="Time scale"
+        tooltip="Factor applied to every point time, like TIME_SCALE_FACTOR in LTspice. t_max follows the scaled duration."
+        value={pwl.timeScale}
+        step={0.1}
+        min={1e-9}
+        max={1e9}
+        onChange={setPwlTimeScale}
       />
+    </>
+  );
+}
+
+/** Write and read pulses of a pulse train, and the order of the write pulses. */
+function PulseEditor({ q, unit, amplitudeMax }: { q: string; unit: string; amplitudeMax: number }) {
+  const pulse = useSimulationStore((s) => s.pulse);
+  const setPulseParam = useSimulationStore((s) => s.setPulseParam);
+  const setPulsePolarity = useSimulationStore((s) => s.setPulsePolarity);
+  const amplitude = { step: unit === 'A' ? 1e-6 : 0.01, min: 0, max: amplitudeMax };
+  const time = { step: 1e-4, min: 0, max: 1000 };
+
+  return (
+    <>
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: '4px' }}>
+        {PULSE_POLARITY_OPTIONS.map(({ value, label }) => (
+          <Tooltip key={value} text={PULSE_POLARITY_TOOLTIPS[value]} containerStyle={{ flex: '1 0 auto' }}>
+            <ToggleButton
+              onClick={() => setPulsePolarity(value)}
+              selected={value === pulse.polarity}
+              style={{ padding: '5px 6px' }}
+            >
+              {label}
+            </ToggleButton>
+          </Tooltip>
+        ))}
+      </div>
       <CompactInput
-        label="Frequency (Hz)"
-        tooltip="Frequency of the periodic drive voltage in Hz."
-        value={signalParams.frequency}
-        step={0.1}
-        min={0.001}
+        label="N (pulses)"
+        tooltip="Number of write pulses of each polarity; with alternating polarity, the number in all."
+        value={pulse.count}
+        step={1}
+        min={1}
         max={10000}
-        onChange={(v) => setSignalParam('frequency', v)}
+        onChange={(v) => setPulseParam('count', Math.round(v))}
       />
-    </div>
+      <CompactInput
+        label={`${q}_SET (${unit})`}
+        tooltip="Amplitude of the SET (potentiating) pulses."
+        value={pulse.vSet}
+        {...amplitude}
+        onChange={(v) => setPulseParam('vSet', v)}
+      />
+      <CompactInput
+        label={`${q}_RESET (${unit})`}
+        tooltip="Amplitude of the RESET (depressing) pulses, applied with negative polarity."
+        value={pulse.vReset}
+        {...amplitude}
+        onChange={(v) => setPulseParam('vReset', v)}
+      />
+      <CompactInput
+        label="Width (s)"
+        tooltip="Time each write pulse spends at full amplitude, between its rise and fall."
+        value={pulse.width}
+        {...time}
+        min={1e-12}
+        onChange={(v) => setPulseParam('width', v)}
+      />
+      <CompactInput
+        label="Rise (s)"
+        tooltip="Linear rise time of a write pulse. 0 gives a rectangular edge."
+        value={pulse.rise}
+        {...time}
+        onChange={(v) => setPulseParam('rise', v)}
+      />
+      <CompactInput
+        label="Fall (s)"
+        tooltip="Linear fall time of a write pulse."
+        value={pulse.fall}
+        {...time}
+        onChange={(v) => setPulseParam('fall', v)}
+      />
+      <CompactInput
+        label="Period (s)"
+        tooltip="Start-to-start spacing of the pulses. The write pulse and its read pulse must fit in it."
+        value={pulse.period}
+        {...time}
+        min={1e-12}
+        onChange={(v) => setPulseParam('period', v)}
+      />
+      <CompactInput
+        label={`${q}_read (${unit})`}
+        tooltip="Amplitude of the read pulse centred between write pulses, below the switching thresholds so it does not disturb the state. 0 = no read pulses."
+        value={pulse.vRead}
+        step={amplitude.step}
+        min={-amplitudeMax}
+        max={amplitudeMax}
+        onChange={(v) => setPulseParam('vRead', v)}
+      />
+      <CompactInput
+        label="Read width (s)"
+        tooltip="Width of the rectangular read pulse. The conductance is read at its centre."
+        value={pulse.readWidth}
+        {...time}
+        onChange={(v) => setPulseParam('readWidth', v)}
+      />
+      <div style={{ fontSize: '11px', color: 'var(--color-text-muted)', fontFamily: 'monospace' }}>
+        {pulseSequence(pulse).length} write pulses ·{' '}
+        {parseFloat(pulseTrainDuration(pulse).toPrecision(4))} s
+      </div>
+    </>
+  );
+}
+
+/**
+ * Levels, step and timing of a staircase sweep, and a download of the
+ * simulated readings in the layout of the measured CSV files.
+ */
+function StaircaseEditor({ q, unit, amplitudeMax }: { q: string; unit: string; amplitudeMax: number }) {
+  const staircase = useSimulationStore((s) => s.staircase);
+  const setStaircaseParam = useSimulationStore((s) => s.setStaircaseParam);
+  const readings = useSimulationStore((s) => s.result?.sweepReadings);
+  const level = {
+    step: unit === 'A' ? 1e-6 : 0.01,
+    min: -amplitudeMax,
+    max: amplitudeMax,
+  };
+
+  const download = () => {
+    if (!readings) return;
+    const url = URL.createObjectURL(new Blob([formatSmuCsv(readings)], { type: 'text/csv' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'simulated_sweep.csv';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <>
+      <CompactInput
+        label={`${q}_start (${unit})`}
+        tooltip="Level of the first step."
+        value={staircase.start}
+        {...level}
+        onChange={(v) => setStaircaseParam('start', v)}
+      />
+      <CompactInput
+        label={`${q}_peak,1 (${unit})`}
+        tooltip="First turning point of the sweep."
+        value={staircase.firstPeak}
+        {...level}
+        onChange={(v) => setStaircaseParam('firstPeak', v)}
+      />
+      <CompactInput
+        label={`${q}_peak,2 (${unit})`}
+        tooltip="Second turning point. 0 → +1 → −2 → 0 V passes 0 V between the peaks."
+        value={staircase.secondPeak}
+        {...level}
+        onChange={(v) => setStaircaseParam('secondPeak', v)}
+      />
+      <CompactInput
+        label={`${q}_stop (${unit})`}
+        tooltip="Level of the last step."
+        value={staircase.stop}
+        {...level}
+        onChange={(v) => setStaircaseParam('stop', v)}
+      />
+      <CompactInput
+        label={`Step (${unit})`}
+        tooltip="Level change between steps, e.g. 0.01 V. A leg that is not a whole number of steps ends with a shorter one."
+        value={staircase.step}
+        step={level.step / 10}
+        min={1e-12}
+        max={amplitudeMax}
+        onChange={(v) => setStaircaseParam('step', v)}
+      />
+      <CompactInput
+        label="Dwell (s)"
+        tooltip="Time each level is held; the SMU reads at the end of it. The measured sweeps take about 84 ms per point."
+        value={staircase.dwell}
+        step={1e-3}
+        min={1e-12}
+        max={1000}
+        onChange={(v) => setStaircaseParam('dwell', v)}
+      />
+      <CompactInput
+        label="Cycles"
+        tooltip="Number of times the whole sweep is run."
+        value={staircase.cycles}
+        step={1}
+        min={1}
+        max={1000}
+        onChange={(v) => setStaircaseParam('cycles', Math.round(v))}
+      />
+      <div style={{ fontSize: '11px', color: 'var(--color-text-muted)', fontFamily: 'monospace' }}>
+        {staircaseStepCount(staircase)} steps ·{' '}
+        {parseFloat(staircaseDuration(staircase).toPrecision(4))} s
+      </div>
+      <Tooltip
+        containerStyle={{ display: 'flex' }}
+        text="One row per step, read at its end, in the Item, Smu1.Time, Smu1.V, Smu1.I, Smu1.R layout of the measured files, so row k lines up with row k of a measurement.">
+        <button
+          onClick={download}
+          disabled={!readings}
+          style={{ ...secondaryButtonStyle, width: '100%', opacity: readings ? 1 : 0.5 }}
+        >
+          Download Readings (CSV)
+        </button>
+      </Tooltip>
+    </>
   );
 }
 
+/**
+ * Upload of a measured sweep to replay: its voltage readings drive the
+ * model, or its current readings under current drive.
+ */
+function MeasuredEditor({ currentDriven }: { currentDriven: boolean }) {
+  const measured = useSimulationStore((s) => s.measured);
+  const setMeasured = useSimulationStore((s) => s.setMeasured);
+  const [error, setError] = useState<string | null>(null);
+
+  const upload = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      setMeasured({ ...parseSmuCsv(await file.text()), name: file.name });
+      setError(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const range = (values: number[]) => {
+    const low = values.reduce((a, b) => Math.min(a, b));
+    const high = values.reduce((a, b) => Math.max(a, b));
+    return `${parseFloat(low.toPrecision(3))} … ${parseFloat(high.toPrecision(3))}`;
+  };
+
+  return (
+    <>
+      <Tooltip
+        containerStyle={{ display: 'flex' }}
+        text="A measured sweep with Time, V and I columns, such as the Smu1.Time, Smu1.V, Smu1.I files in imported_data/data. The readings are joined linearly and t_max follows the last one."
+      >
+        <label style={{ ...secondaryButtonStyle, display: 'block', width: '100%', textAlign: 'center' }}>
+          Load Measured CSV…
+          <input
+            type="file"
+            accept=".csv,.txt"
+            onChange={(e) => {
+              void upload(e.target.files?.[0]);
+              e.target.value = '';
+            }}
+            style={{ display: 'none' }}
+          />
+        </label>
+      </Tooltip>
+      {error && <div style={{ fontSize: '11px', color: '#fca5a5' }}>{error}</div>}
+      {measured ? (
+        <div style={{ fontSize: '11px', color: 'var(--color-text-muted)', fontFamily: 'monospace' }}>
+          {measured.name && <div>{measured.name}</div>}
+          {measured.time.length} readings ·{' '}
+          {parseFloat(measured.time[measured.time.length - 1].toPrecision(4))} s
+          <br />
+          {range(measured.voltage)} V · {range(measured.current)} A
+          <br />
+          Replaying {currentDriven ? 'I(t); measured V overlaid' : 'V(t); measured I overlaid'}
+        </div>
+      ) : (
+        <div style={{ fontSize: '11px', color: 'var(--color-text-muted)' }}>
+          No measurement loaded.
+        </div>
+      )}
+    </>
+  );
+}
+
+const secondaryButtonStyle: React.CSSProperties = {
+  padding: '4px 10px',
+  fontSize: '11px',
+  borderRadius: '6px',
+  border: '1px solid var(--color-border)',
+  background: 'var(--color-surface)',
+  color: 'var(--color-text-muted)',
+  cursor: 'pointer',
+};
+
 function CompactInput({
   label,
   tooltip,
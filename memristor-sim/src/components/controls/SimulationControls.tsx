@@ -1,6 +1,14 @@
 import { useSimulationStore } from '../../stores/simulation.ts';
 import type { WindowType } from '../../engine/windows.ts';
+import { MODEL_REGISTRY, stateInfoOf } from '../../engine/models/index.ts';
+import { RELAXATION_OPTIONS } from '../../engine/relaxation.ts';
+import type { RelaxationType } from '../../engine/relaxation.ts';
+import { SOLVER_METHOD_OPTIONS } from '../../engine/solver.ts';
+import type { SolverMethod } from '../../engine/solver.ts';
+import { SAMPLING_OPTIONS } from '../../engine/sampling.ts';
+import type { SamplingMode } from '../../engine/sampling.ts';
 import { Tooltip } from '../ui/Tooltip.tsx';
+import { ToggleButton } from '../ui/ToggleButton.tsx';
 
 const WINDOW_TOOLTIPS: Record<WindowType, string> = {
   joglekar:
@@ -9,55 +17,281 @@ const WINDOW_TOOLTIPS: Record<WindowType, string> = {
     'Current-direction-aware window. More physical behaviour than Joglekar; boundary only activates in the relevant drift direction.',
   anusudha:
     'Alternative window formulation; symmetric exponential boundary suppression.',
+  prodromakis:
+    'Polynomial window with independent height j and sharpness p. Zero at both boundaries, so a saturated state stays locked.',
+  zha:
+    'Prodromakis window made current-direction-aware like Biolek: only the boundary being approached blocks drift, so a saturated state can switch back.',
+  boundary:
+    'Corinto & Ascoli boundary-condition model. No slowdown inside the device; a state at 0 or 1 is held until the voltage exceeds the detachment threshold the other way.',
   none: 'No boundary constraint — state may saturate at 0 or 1. Use with caution.',
 };
 
+const RELAXATION_TOOLTIPS: Record<RelaxationType, string> = {
+  none: 'Non-volatile: the state only changes under drive.',
+  exponential:
+    'The state decays towards its rest value as exp(−t/τ), e.g. a single detrapping process.',
+  stretched:
+    'Kohlrausch-Williams-Watts decay exp(−(t/τ)^β): a fast initial drop and a long tail, typical of filament dissolution.',
+};
+
+const SOLVER_TOOLTIPS: Record<SolverMethod, string> = {
+  auto:
+    'Start with RK45 and switch to Rosenbrock for the rest of the run once the step size is limited by stability rather than accuracy.',
+  rk45:
+    'Explicit Dormand-Prince (as ode45). Fast and accurate for non-stiff dynamics, but crawls or gives up on stiff ones.',
+  rosenbrock:
+    'Linearly implicit Rosenbrock23 (as ode23s) with the model Jacobian. Stable for stiff dynamics, such as a small thermal capacitance or very fast ion motion.',
+};
+
+const SAMPLING_TOOLTIPS: Record<SamplingMode, string> = {
+  uniform: 'Evenly spaced output points. Simple to export, but a fast switching edge may fall between two points.',
+  adaptive:
+    'Output at the solver steps, refined where the voltage, current or state change quickly. Switching transients are resolved without oversampling slow stretches.',
+};
+
 export function SimulationControls() {
   const modelId = useSimulationStore((s) => s.modelId);
   const x0 = useSimulationStore((s) => s.x0);
   const tMax = useSimulationStore((s) => s.tMax);
+  const signalType = useSimulationStore((s) => s.signalType);
+  const relaxation = useSimulationStore((s) => s.relaxation);
+  const setRelaxation = useSimulationStore((s) => s.setRelaxation);
+  const solverMethod = useSimulationStore((s) => s.solverMethod);
+  const setSolverMethod = useSimulationStore((s) => s.setSolverMethod);
+  const sampling = useSimulationStore((s) => s.sampling);
+  const setSampling = useSimulationStore((s) => s.setSampling);
   const windowType = useSimulationStore((s) => s.windowType);
   const windowP = useSimulationStore((s) => s.windowP);
+  const windowJ = useSimulationStore((s) => s.windowJ);
+  const windowVth0 = useSimulationStore((s) => s.windowVth0);
+  const windowVth1 = useSimulationStore((s) => s.windowVth1);
+  const thermal = useSimulationStore((s) => s.thermal);
+  const ambientTemperature = useSimulationStore((s) => s.ambientTemperature);
   const setX0 = useSimulationStore((s) => s.setX0);
   const setTMax = useSimulationStore((s) => s.setTMax);
   const setWindowType = useSimulationStore((s) => s.setWindowType);
   const setWindowP = useSimulationStore((s) => s.setWindowP);
+  const setWindowJ = useSimulationStore((s) => s.setWindowJ);
+  const setWindowVth0 = useSimulationStore((s) => s.setWindowVth0);
+  const setWindowVth1 = useSimulationStore((s) => s.setWindowVth1);
+  const setThermal = useSimulationStore((s) => s.setThermal);
+  const setAmbientTemperature = useSimulationStore((s) => s.setAmbientTemperature);
+  const stochastic = useSimulationStore((s) => s.stochastic);
+  const noiseSeed = useSimulationStore((s) => s.noiseSeed);
+  const stateNoise = useSimulationStore((s) => s.stateNoise);
+  const paramJitter = useSimulationStore((s) => s.paramJitter);
+  const setStochastic = useSimulationStore((s) => s.setStochastic);
+  const setNoiseSeed = useSimulationStore((s) => s.setNoiseSeed);
+  const setStateNoise = useSimulationStore((s) => s.setStateNoise);
+  const setParamJitter = useSimulationStore((s) => s.setParamJitter);
   const resetToDefaults = useSimulationStore((s) => s.resetToDefaults);
 
-  const isHPLabs = modelId === 'hp_labs';
+  const acceptsWindow = !!MODEL_REGISTRY[modelId]?.acceptsWindow;
+  const state = stateInfoOf(MODEL_REGISTRY[modelId])[0];
+  const windowHasJ =
+    windowType === 'anusudha' || windowType === 'prodromakis' || windowType === 'zha';
 
   const windowTypes: { value: WindowType; label: string }[] = [
     { value: 'joglekar', label: 'Joglekar' },
     { value: 'biolek', label: 'Biolek' },
     { value: 'anusudha', label: 'Anusudha' },
+    { value: 'prodromakis', label: 'Prodromakis' },
+    { value: 'zha', label: 'Zha' },
+    { value: 'boundary', label: 'Boundary' },
     { value: 'none', label: 'None' },
   ];
 
   return (
     <div style={{ display: 'flex', flexDirection: 'column', gap: '10px' }}>
       <CompactSlider
-        label="x₀ (initial state)"
-        tooltip="Initial normalised state: x=0 → fully undoped (high resistance ROFF), x=1 → fully doped (low resistance RON)."
+        label={`${state.name}₀ (initial state${state.unit ? `, ${state.unit}` : ''})`}
+        tooltip={`Initial value of the state variable. ${state.description}`}
         value={x0}
-        min={0.001}
-        max={0.999}
-        step={0.001}
+        min={state.min}
+        max={state.max}
+        step={(state.max - state.min) / 1000}
         onChange={setX0}
       />
       <CompactSlider
         label="t_max (s)"
-        tooltip="Total simulation duration. The adaptive RK45 solver selects step sizes automatically."
+        tooltip="Total simulation duration. The adaptive solver selects step sizes automatically."
         value={tMax}
         min={0.001}
-        max={100}
+        max={signalType === 'sine' || signalType === 'triangle' ? 100 : 1e6}
         step={0.001}
         onChange={setTMax}
       />
 
-      {isHPLabs && (
+      <div style={{ marginTop: '4px' }}>
+        <Tooltip text="ODE integration method. Stiff dynamics (fast modes next to slow ones) force an explicit solver to tiny steps; an implicit solver stays stable.">
+          <label
+            style={{
+              fontSize: '12px',
+              color: 'var(--color-text-muted)',
+              display: 'block',
+              marginBottom: '6px',
+              cursor: 'help',
+            }}
+          >
+            Solver <span style={{ opacity: 0.6 }}>?</span>
+          </label>
+        </Tooltip>
+        <div style={{ display: 'flex', gap: '4px' }}>
+          {SOLVER_METHOD_OPTIONS.map(({ value, label }) => (
+            <Tooltip
+              key={value}
+              text={SOLVER_TOOLTIPS[value]}
+              containerStyle={{ flex: 1 }}
+            >
+              <ToggleButton
+                onClick={() => setSolverMethod(value)}
+                selected={value === solverMethod}
+              >
+                {label}
+              </ToggleButton>
+            </Tooltip>
+          ))}
+        </div>
+      </div>
+
+      <div style={{ marginTop: '4px' }}>
+        <Tooltip text="Where the output points are placed. Stochastic and retention runs keep their own sampling.">
+          <label
+            style={{
+              fontSize: '12px',
+              color: 'var(--color-text-muted)',
+              display: 'block',
+              marginBottom: '6px',
+              cursor: 'help',
+            }}
+          >
+            Output <span style={{ opacity: 0.6 }}>?</span>
+          </label>
+        </Tooltip>
+        <div style={{ display: 'flex', gap: '4px' }}>
+          {SAMPLING_OPTIONS.map(({ value, label }) => (
+            <Tooltip
+              key={value}
+              text={SAMPLING_TOOLTIPS[value]}
+              containerStyle={{ flex: 1 }}
+            >
+              <ToggleButton
+                onClick={() => setSampling(value)}
+                selected={value === sampling}
+              >
+                {label}
+              </ToggleButton>
+            </Tooltip>
+          ))}
+        </div>
+      </div>
+
+      <div style={{ marginTop: '4px' }}>
+        <Tooltip text="Let the state decay back towards a rest value without drive, as in volatile devices. Adds τ, the rest state and (stretched) β to the parameters.">
+          <label
+            style={{
+              fontSize: '12px',
+              color: 'var(--color-text-muted)',
+              display: 'block',
+              marginBottom: '6px',
+              cursor: 'help',
+            }}
+          >
+            State Relaxation <span style={{ opacity: 0.6 }}>?</span>
+          </label>
+        </Tooltip>
+        <div style={{ display: 'flex', gap: '4px' }}>
+          {RELAXATION_OPTIONS.map(({ value, label }) => (
+            <Tooltip
+              key={value}
+              text={RELAXATION_TOOLTIPS[value]}
+              containerStyle={{ flex: 1 }}
+            >
+              <ToggleButton
+                onClick={() => setRelaxation(value)}
+                selected={value === relaxation}
+              >
+                {label}
+              </ToggleButton>
+            </Tooltip>
+          ))}
+        </div>
+      </div>
+
+      <div style={{ marginTop: '4px' }}>
+        <Tooltip text="Integrate the device temperature from Joule heating (I·V) through R_th and C_th. The temperature speeds up switching via Arrhenius-scaled rate parameters.">
+          <label
+            style={{
+              fontSize: '12px',
+              color: 'var(--color-text-muted)',
+              display: 'block',
+              marginBottom: '6px',
+              cursor: 'help',
+            }}
+          >
+            Electro-Thermal Coupling <span style={{ opacity: 0.6 }}>?</span>
+          </label>
+        </Tooltip>
+        <OnOffToggle value={thermal} onChange={setThermal} />
+      </div>
+
+      {thermal && (
+        <CompactSlider
+          label="T_amb (K)"
+          tooltip="Ambient temperature. The device starts at, and cools towards, this temperature; rate parameters are unscaled at T_ref."
+          value={ambientTemperature}
+          min={4}
+          max={800}
+          step={1}
+          onChange={setAmbientTemperature}
+        />
+      )}
+
+      <div style={{ marginTop: '4px' }}>
+        <Tooltip text="Add random state noise and cycle-to-cycle parameter jitter, integrated as a stochastic differential equation. Runs are reproducible for a given seed.">
+          <label
+            style={{
+              fontSize: '12px',
+              color: 'var(--color-text-muted)',
+              display: 'block',
+              marginBottom: '6px',
+              cursor: 'help',
+            }}
+          >
+            Stochastic Mode <span style={{ opacity: 0.6 }}>?</span>
+          </label>
+        </Tooltip>
+        <OnOffToggle value={stochastic} onChange={setStochastic} />
+      </div>
+
+      {stochastic && (
+        <>
+          <CompactSlider
+            label="σ_x (state noise)"
+            tooltip="Spread of the random walk of the state over one signal period, as a fraction of the state range."
+            value={stateNoise}
+            min={0}
+            max={0.5}
+            step={0.005}
+            onChange={setStateNoise}
+          />
+          <CompactSlider
+            label="σ_p (cycle jitter)"
+            tooltip="Relative log-normal spread of each continuous model parameter, redrawn every signal cycle."
+            value={paramJitter}
+            min={0}
+            max={0.5}
+            step={0.005}
+            onChange={setParamJitter}
+          />
+          <SeedInput value={noiseSeed} onChange={setNoiseSeed} />
+        </>
+      )}
+
+      {acceptsWindow && (
         <>
           <div style={{ marginTop: '4px' }}>
-            <Tooltip text="Boundary function F(x) that prevents the state variable leaving [0,1]. Required for the HP Labs model.">
+            <Tooltip text="Boundary function F(x) that keeps the state variable within its bounds. Needed by drift models such as HP Labs, which have no boundary behaviour of their own.">
               <label
                 style={{
                   fontSize: '12px',
@@ -77,37 +311,18 @@ export function SimulationControls() {
                   text={WINDOW_TOOLTIPS[value]}
                   containerStyle={{ flex: '1 1 auto' }}
                 >
-                  <button
+                  <ToggleButton
                     onClick={() => setWindowType(value)}
-                    style={{
-                      width: '100%',
-                      padding: '5px 8px',
-                      fontSize: '11px',
-                      borderRadius: '4px',
-                      border:
-                        value === windowType
-                          ? '1px solid var(--color-primary)'
-                          : '1px solid var(--color-border)',
-                      background:
-                        value === windowType
-                          ? 'rgba(59, 130, 246, 0.15)'
-                          : 'var(--color-surface)',
-                      color:
-                        value === windowType
-                          ? 'var(--color-primary)'
-                          : 'var(--color-text)',
-                      cursor: 'pointer',
-                      transition: 'all 0.15s',
-                    }}
+                    selected={value === windowType}
                   >
                     {label}
-                  </button>
+                  </ToggleButton>
                 </Tooltip>
               ))}
             </div>
           </div>
 
-          {windowType !== 'none' && (
+          {windowType !== 'none' && windowType !== 'boundary' && (
             <CompactSlider
               label="Window p"
               tooltip="Sharpness exponent for the selected window function. Higher values confine state evolution closer to x=0 and x=1."
@@ -118,6 +333,39 @@ export function SimulationControls() {
               onChange={setWindowP}
             />
           )}
+          {windowHasJ && (
+            <CompactSlider
+              label="Window j"
+              tooltip="Scale factor of the window, i.e. its maximum height. Larger values speed up drift everywhere inside the device."
+              value={windowJ}
+              min={0.1}
+              max={10}
+              step={0.1}
+              onChange={setWindowJ}
+            />
+          )}
+          {windowType === 'boundary' && (
+            <>
+              <CompactSlider
+                label="v_th,0 (V)"
+                tooltip="Voltage needed to pull a state held at x = 0 away from the boundary."
+                value={windowVth0}
+                min={0}
+                max={5}
+                step={0.01}
+                onChange={setWindowVth0}
+              />
+              <CompactSlider
+                label="v_th,1 (V)"
+                tooltip="Magnitude of the negative voltage needed to pull a state held at x = 1 away from the boundary."
+                value={windowVth1}
+                min={0}
+                max={5}
+                step={0.01}
+                onChange={setWindowVth1}
+              />
+            </>
+          )}
         </>
       )}
 
@@ -221,3 +469,94 @@ function CompactSlider({
     </div>
   );
 }
+
+function OnOffToggle({
+  value,
+  onChange,
+}: {
+  value: boolean;
+  onChange: (v: boolean) => void;
+}) {
+  return (
+    <div style={{ display: 'flex', gap: '4px' }}>
+      {[false, true].map((option) => (
+        <ToggleButton
+          key={String(option)}
+          onClick={() => onChange(option)}
+          selected={option === value}
+          style={{ flex: 1 }}
+        >
+          {option ? 'On' : 'Off'}
+        </ToggleButton>
+      ))}
+    </div>
+  );
+}
+
+function SeedInput({
+  value,
+  onChange,
+}: {
+  value: number;
+  onChange: (v: number) => void;
+}) {
+  return (
+    <div
+      style={{
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'space-between',
+        gap: '6px',
+      }}
+    >
+      <Tooltip text="Seed of the random number generator. The same seed always reproduces the same noise realisation.">
+        <span
+          style={{
+            fontSize: '12px',
+            color: 'var(--color-text-muted)',
+            cursor: 'help',
+          }}
+        >
+          Seed
+        </span>
+      </Tooltip>
+      <div style={{ display: 'flex', gap: '4px' }}>
+        <input
+          type="number"
+          value={value}
+          step={1}
+          min={0}
+          onChange={(e) => {
+            const v = parseInt(e.target.value, 10);
+            if (!isNaN(v) && v >= 0) onChange(v);
+          }}
+          style={{
+            width: '90px',
+            padding: '2px 6px',
+            fontSize: '11px',
+            fontFamily: 'monospace',
+            background: 'var(--color-surface)',
+            border: '1px solid var(--color-border)',
+            borderRadius: '4px',
+            color: 'var(--color-text)',
+            textAlign: 'right',
+          }}
+        />
+        <button
+          onClick={() => onChange(Math.floor(Math.random() * 1_000_000))}
+          style={{
+            padding: '2px 8px',
+            fontSize: '11px',
+            borderRadius: '4px',
+            border: '1px solid var(--color-border)',
+            background: 'var(--color-surface)',
+            color: 'var(--color-text-muted)',
+            cursor: 'pointer',
+          }}
+        >
+          New
+        </button>
+      </div>
+    </div>
+  );
+}
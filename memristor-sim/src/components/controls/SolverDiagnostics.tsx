@@ -0,0 +1,93 @@
+import { useSimulationStore } from '../../stores/simulation.ts';
+import { solverWarnings } from '../../engine/solver.ts';
+import { Tooltip } from '../ui/Tooltip.tsx';
+
+/**
+ * Step statistics of the last simulation: how hard the solver had to
+ * work and whether it had to cut corners (forced steps at the minimum
+ * step size, clamping, running out of steps).
+ */
+export function SolverDiagnostics() {
+  const result = useSimulationStore((s) => s.result);
+  if (!result) {
+    return (
+      <div style={{ fontSize: '11px', color: 'var(--color-text-muted)' }}>
+        No simulation result.
+      </div>
+    );
+  }
+
+  const d = result.diagnostics;
+  const clampedShare = d.acceptedSteps > 0 ? d.clampedSteps / d.acceptedSteps : 0;
+  const warnings = solverWarnings(d);
+  const rows: { label: string; value: string; tooltip: string }[] = [
+    {
+      label: 'Accepted steps',
+      value: String(d.acceptedSteps),
+      tooltip: 'Integration steps that passed the error test.',
+    },
+    {
+      label: 'Rejected steps',
+      value: String(d.rejectedSteps),
+      tooltip: 'Steps that failed the error test and were retried with a smaller step size.',
+    },
+    {
+      label: 'Smallest step',
+      value: `${formatNumber(d.minStep)} s`,
+      tooltip: 'Smallest accepted step size. Steps near 10⁻¹² of the run length mean the solver was struggling.',
+    },
+    {
+      label: 'Forced steps',
+      value: String(d.forcedSteps),
+      tooltip: 'Steps accepted at the minimum step size although they failed the error test, e.g. at a discontinuity.',
+    },
+    {
+      label: 'Clamped steps',
+      value: `${d.clampedSteps} (${(100 * clampedShare).toFixed(1)}%)`,
+      tooltip: 'Steps whose new state left the physical bounds and was clamped back.',
+    },
+    {
+      label: 'Stiff solver',
+      value: d.stiffFrom === undefined ? 'not used' : `from t = ${formatNumber(d.stiffFrom)} s`,
+      tooltip: 'Time from which the Rosenbrock solver integrated, when selected or switched to automatically.',
+    },
+    {
+      label: 'Status',
+      value: d.truncated ? `truncated at ${formatNumber(d.truncatedAt ?? 0)} s` : 'complete',
+      tooltip: 'Whether the solver reached the end of the run within its step budget.',
+    },
+  ];
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '4px' }}>
+      {rows.map(({ label, value, tooltip }) => (
+        <div
+          key={label}
+          style={{
+            display: 'flex',
+            justifyContent: 'space-between',
+            gap: '8px',
+            fontSize: '12px',
+          }}
+        >
+          <Tooltip text={tooltip}>
+            <span style={{ color: 'var(--color-text-muted)', cursor: 'help' }}>{label}</span>
+          </Tooltip>
+          <span style={{ fontFamily: 'monospace', fontSize: '11px' }}>{value}</span>
+        </div>
+      ))}
+      {warnings.map((warning) => (
+        <div key={warning} style={{ fontSize: '11px', color: '#fbbf24', marginTop: '4px' }}>
+          {warning}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function formatNumber(value: number): string {
+  if (value === 0) return '0';
+  return Math.abs(value) >= 0.001 && Math.abs(value) < 100000
+    ? parseFloat(value.toPrecision(4)).toString()
+    : value.toExponential(2);
+}
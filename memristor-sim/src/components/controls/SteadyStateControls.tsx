@@ -0,0 +1,134 @@
+import { useSimulationStore } from '../../stores/simulation.ts';
+import { ANALYSIS_OPTIONS } from '../../engine/steadystate.ts';
+import type { AnalysisType } from '../../engine/steadystate.ts';
+import { Tooltip } from '../ui/Tooltip.tsx';
+import { ToggleButton } from '../ui/ToggleButton.tsx';
+
+const ANALYSIS_TOOLTIPS: Record<AnalysisType, string> = {
+  transient: 'The response from the initial state over t_max, first loop included.',
+  steadyState:
+    'Shoot for the initial state that returns to itself after one period and plot only that settled loop. Sine signals repeat every 1/f, a repeating PWL table after its last point, a triangle or staircase sweep, pulse train, sequence, measured replay or single PWL table every t_max.',
+};
+
+/**
+ * Analysis selection and the report of the periodic steady-state
+ * analysis: whether the loop closed, how the shooting residual fell and
+ * how fast a transient run would settle onto it.
+ */
+export function SteadyStateControls() {
+  const analysis = useSimulationStore((s) => s.analysis);
+  const setAnalysis = useSimulationStore((s) => s.setAnalysis);
+  const result = useSimulationStore((s) => s.result);
+  const report = result?.steadyState;
+
+  const rows: { label: string; value: string; tooltip: string }[] = report
+    ? [
+        {
+          label: 'Status',
+          value: report.converged
+            ? `converged in ${report.iterations} iteration${report.iterations === 1 ? '' : 's'}`
+            : `not converged after ${report.iterations}`,
+          tooltip: 'Whether the state after one period matched the starting state to 10⁻⁷ of its range.',
+        },
+        {
+          label: 'Residuals',
+          value: residualHistory(report.residuals),
+          tooltip: 'Largest mismatch |x(T) − x(0)| relative to the state range, for x₀ and after each iteration. Newton iterations roughly square it each time.',
+        },
+        {
+          label: 'Multiplier |μ|',
+          value: report.multiplier.toFixed(4),
+          tooltip: 'Largest Floquet multiplier: the factor by which a deviation from the loop shrinks every period. Below 1 the loop attracts; at 1 it is neutral.',
+        },
+        {
+          label: 'Transient settles',
+          value:
+            report.transientPeriods === null
+              ? `never (${report.neutral ? 'neutral' : 'unstable'})`
+              : `after ~${report.transientPeriods} period${report.transientPeriods === 1 ? '' : 's'}`,
+          tooltip: 'Periods a transient run from x₀ needs to come within 0.1% of the loop, estimated from |μ|. Far from the loop a slow drift can take longer.',
+        },
+        {
+          label: 'Period',
+          value: `${formatNumber(report.period)} s`,
+          tooltip: 'Length of one loop of the signal.',
+        },
+        ...report.initialState.map((value, k) => {
+          const info = result!.stateInfo[k];
+          return {
+            label: `${info.name}₀ of loop`,
+            value: `${formatNumber(value)}${info.unit ? ` ${info.unit}` : ''}`,
+            tooltip: `${info.description} Value at the start of the periodic loop.`,
+          };
+        }),
+      ]
+    : [];
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '8px' }}>
+      <div style={{ display: 'flex', gap: '4px' }}>
+        {ANALYSIS_OPTIONS.map(({ value, label }) => (
+          <Tooltip key={value} text={ANALYSIS_TOOLTIPS[value]} containerStyle={{ flex: 1 }}>
+            <ToggleButton
+              onClick={() => setAnalysis(value)}
+              selected={value === analysis}
+            >
+              {label}
+            </ToggleButton>
+          </Tooltip>
+        ))}
+      </div>
+
+      {rows.length > 0 && (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '4px' }}>
+          {rows.map(({ label, value, tooltip }) => (
+            <div
+              key={label}
+              style={{
+                display: 'flex',
+                justifyContent: 'space-between',
+                gap: '8px',
+                fontSize: '12px',
+              }}
+            >
+              <Tooltip text={tooltip}>
+                <span style={{ color: 'var(--color-text-muted)', cursor: 'help', whiteSpace: 'nowrap' }}>
+                  {label}
+                </span>
+              </Tooltip>
+              <span style={{ fontFamily: 'monospace', fontSize: '11px', textAlign: 'right' }}>
+                {value}
+              </span>
+            </div>
+          ))}
+          {report && !report.converged && (
+            <div style={{ fontSize: '11px', color: '#fbbf24', marginTop: '4px' }}>
+              The loop did not close, so the plots show one period from the last iterate.
+            </div>
+          )}
+          {report?.neutral && report.converged && (
+            <div style={{ fontSize: '11px', color: 'var(--color-text-muted)', marginTop: '4px' }}>
+              Every nearby initial state lies on a periodic loop of its own, so the
+              loop depends on x₀ and a transient run never settles elsewhere.
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/** Residual sequence, shortened to its start and last few entries. */
+function residualHistory(residuals: number[]): string {
+  const shown = residuals.length > 6
+    ? [formatNumber(residuals[0]), '…', ...residuals.slice(-4).map(formatNumber)]
+    : residuals.map(formatNumber);
+  return shown.join(' → ');
+}
+
+function formatNumber(value: number): string {
+  if (value === 0) return '0';
+  return Math.abs(value) >= 0.001 && Math.abs(value) < 100000
+    ? parseFloat(value.toPrecision(4)).toString()
+    : value.toExponential(1);
+}
@@ -0,0 +1,262 @@
+import { useSimulationStore } from '../../stores/simulation.ts';
+import { MODEL_REGISTRY } from '../../engine/models/index.ts';
+import { resolveParameterInfo } from '../../engine/ivshapes.ts';
+import { DISTRIBUTION_OPTIONS } from '../../engine/montecarlo.ts';
+import type { DistributionType } from '../../engine/montecarlo.ts';
+import { Tooltip } from '../ui/Tooltip.tsx';
+import { toggleButtonStyle } from '../ui/toggleButtonStyle.ts';
+
+/**
+ * Monte Carlo device-to-device variability setup: a distribution and
+ * relative spread per model parameter, the number of devices and seed,
+ * and the button that runs the batch.
+ */
+export function VariabilityControls() {
+  const modelId = useSimulationStore((s) => s.modelId);
+  const ivShapes = useSimulationStore((s) => s.ivShapes);
+  const variability = useSimulationStore((s) => s.variability);
+  const mcRuns = useSimulationStore((s) => s.mcRuns);
+  const mcSeed = useSimulationStore((s) => s.mcSeed);
+  const monteCarlo = useSimulationStore((s) => s.monteCarlo);
+  const running = useSimulationStore((s) => s.monteCarloRunning);
+  const progress = useSimulationStore((s) => s.monteCarloProgress);
+  const mcError = useSimulationStore((s) => s.monteCarloError);
+  const setVariability = useSimulationStore((s) => s.setVariability);
+  const setMcRuns = useSimulationStore((s) => s.setMcRuns);
+  const setMcSeed = useSimulationStore((s) => s.setMcSeed);
+  const runMonteCarlo = useSimulationStore((s) => s.runMonteCarlo);
+  const cancelMonteCarlo = useSimulationStore((s) => s.cancelMonteCarlo);
+  const clearMonteCarlo = useSimulationStore((s) => s.clearMonteCarlo);
+
+  const model = MODEL_REGISTRY[modelId];
+  if (!model) return null;
+
+  // Integer-stepped parameters are mode flags and exponents, not device spreads
+  const params = resolveParameterInfo(model, ivShapes).filter((info) => info.step < 1);
+  const active = Object.keys(variability).length;
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '10px' }}>
+      <div style={{ display: 'flex', gap: '8px' }}>
+        <NumberField
+          label="Devices"
+          tooltip="Number of simulated devices. Each draws its own parameter set."
+          value={mcRuns}
+          min={2}
+          max={1000}
+          onChange={setMcRuns}
+        />
+        <NumberField
+          label="Seed"
+          tooltip="Seed of the parameter draws. The same seed always gives the same devices."
+          value={mcSeed}
+          min={0}
+          max={1_000_000_000}
+          onChange={setMcSeed}
+        />
+      </div>
+
+      <div style={{ display: 'flex', flexDirection: 'column', gap: '4px' }}>
+        {params.map((info) => {
+          const dist = variability[info.name];
+          return (
+            <div
+              key={info.name}
+              style={{
+                display: 'flex',
+                alignItems: 'center',
+                justifyContent: 'space-between',
+                gap: '6px',
+              }}
+            >
+              <Tooltip text={info.description}>
+                <span
+                  style={{
+                    fontSize: '11px',
+                    fontFamily: 'monospace',
+                    color: dist ? 'var(--color-text)' : 'var(--color-text-muted)',
+                    cursor: 'help',
+                  }}
+                >
+                  {info.name}
+                </span>
+              </Tooltip>
+              <div style={{ display: 'flex', gap: '4px' }}>
+                <select
+                  value={dist?.type ?? 'none'}
+                  onChange={(e) =>
+                    setVariability(
+                      info.name,
+                      e.target.value === 'none'
+                        ? null
+                        : {
+                            type: e.target.value as DistributionType,
+                            spread: dist?.spread ?? 0.1,
+                          },
+                    )
+                  }
+                  style={selectStyle}
+                >
+                  <option value="none">Fixed</option>
+                  {DISTRIBUTION_OPTIONS.map(({ value, label }) => (
+                    <option key={value} value={value}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+                <input
+                  type="number"
+                  disabled={!dist}
+                  value={dist ? parseFloat((dist.spread * 100).toPrecision(4)) : ''}
+                  placeholder="%"
+                  step={1}
+                  min={0}
+                  onChange={(e) => {
+                    const v = parseFloat(e.target.value);
+                    if (dist && !isNaN(v) && v >= 0) {
+                      setVariability(info.name, { ...dist, spread: v / 100 });
+                    }
+                  }}
+                  title="Relative spread in %"
+                  style={{ ...inputStyle, width: '56px', opacity: dist ? 1 : 0.4 }}
+                />
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <div style={{ display: 'flex', gap: '4px' }}>
+        <button
+          onClick={runMonteCarlo}
+          disabled={running || active === 0}
+          style={{
+            flex: 1,
+            padding: '7px 12px',
+            fontSize: '12px',
+            borderRadius: '6px',
+            ...toggleButtonStyle(true),
+            ...(running && {
+              background: `linear-gradient(to right, rgba(59, 130, 246, 0.3) ${Math.round(100 * progress)}%, rgba(59, 130, 246, 0.15) 0)`,
+            }),
+            cursor: running || active === 0 ? 'default' : 'pointer',
+            opacity: !running && active === 0 ? 0.5 : 1,
+          }}
+        >
+          {running ? `Running… ${Math.round(100 * progress)}%` : `Run ${mcRuns} Devices`}
+        </button>
+        {running && (
+          <button
+            onClick={cancelMonteCarlo}
+            style={{
+              padding: '7px 12px',
+              fontSize: '12px',
+              borderRadius: '6px',
+              border: '1px solid var(--color-border)',
+              background: 'var(--color-surface)',
+              color: 'var(--color-text-muted)',
+              cursor: 'pointer',
+            }}
+          >
+            Cancel
+          </button>
+        )}
+        {monteCarlo && (
+          <button
+            onClick={clearMonteCarlo}
+            style={{
+              padding: '7px 12px',
+              fontSize: '12px',
+              borderRadius: '6px',
+              border: '1px solid var(--color-border)',
+              background: 'var(--color-surface)',
+              color: 'var(--color-text-muted)',
+              cursor: 'pointer',
+            }}
+          >
+            Clear
+          </button>
+        )}
+      </div>
+
+      {monteCarlo && (
+        <div style={{ fontSize: '11px', color: 'var(--color-text-muted)' }}>
+          {monteCarlo.runs - monteCarlo.failed} of {monteCarlo.runs} devices simulated
+          {monteCarlo.failed > 0 && ` (${monteCarlo.failed} failed)`}. Bands show the
+          5–95% and 25–75% ranges around the median.
+        </div>
+      )}
+      {mcError && (
+        <div style={{ fontSize: '11px', color: '#fca5a5' }}>{mcError}</div>
+      )}
+    </div>
+  );
+}
+
+function NumberField({
+  label,
+  tooltip,
+  value,
+  min,
+  max,
+  onChange,
+}: {
+  label: string;
+  tooltip: string;
+  value: number;
+  min: number;
+  max: number;
+  onChange: (v: number) => void;
+}) {
+  return (
+    <div style={{ flex: 1 }}>
+      <Tooltip text={tooltip}>
+        <span
+          style={{
+            fontSize: '12px',
+            color: 'var(--color-text-muted)',
+            display: 'block',
+            marginBottom: '2px',
+            cursor: 'help',
+          }}
+        >
+          {label}
+        </span>
+      </Tooltip>
+      <input
+        type="number"
+        value={value}
+        step={1}
+        min={min}
+        max={max}
+        onChange={(e) => {
+          const v = parseInt(e.target.value, 10);
+          if (!isNaN(v)) onChange(Math.max(min, Math.min(max, v)));
+        }}
+        style={{ ...inputStyle, width: '100%' }}
+      />
+    </div>
+  );
+}
+
+const inputStyle: React.CSSProperties = {
+  padding: '2px 6px',
+  fontSize: '11px',
+  fontFamily: 'monospace',
+  background: 'var(--color-surface)',
+  border: '1px solid var(--color-border)',
+  borderRadius: '4px',
+  color: 'var(--color-text)',
+  textAlign: 'right',
+  boxSizing: 'border-box',
+};
+
+const selectStyle: React.CSSProperties = {
+  width: '96px',
+  padding: '2px 4px',
+  fontSize: '11px',
+  background: 'var(--color-surface)',
+  border: '1px solid var(--color-border)',
+  borderRadius: '4px',
+  color: 'var(--color-text)',
+};
@@ -1,13 +1,31 @@
 import katex from 'katex';
 import { useSimulationStore } from '../../stores/simulation.ts';
 import { MODEL_CONTENT } from '../../content/models.ts';
+import { MODEL_REGISTRY, customModelLatex } from '../../engine/models/index.ts';
+import { IV_SHAPE_OPTIONS, ivShapeLatex } from '../../engine/ivshapes.ts';
+import type { ModelContent } from '../../content/models.ts';
+import type { CustomModelSpec } from '../../engine/models/index.ts';
 
 export function ModelDescription() {
   const modelId = useSimulationStore((s) => s.modelId);
-  const content = MODEL_CONTENT[modelId];
+  const ivShapes = useSimulationStore((s) => s.ivShapes);
+  const customModels = useSimulationStore((s) => s.customModels);
+  const custom = customModels.find((m) => m.id === modelId);
+  const content = MODEL_CONTENT[modelId] ?? (custom && customContent(custom));
 
   if (!content) return null;
 
+  // Append the selected conduction mechanism of each I-V branch
+  const branchEquations = (MODEL_REGISTRY[modelId]?.ivBranches ?? []).map((branch) => {
+    const shape = ivShapes[branch.key] ?? branch.defaultShape;
+    const label = IV_SHAPE_OPTIONS.find((o) => o.value === shape)?.label ?? shape;
+    return {
+      latex: `h_{\\mathrm{${branch.key}}}(V) = ${ivShapeLatex(shape, branch)}`,
+      label: `${branch.label} Branch — ${label}`,
+    };
+  });
+  const equations = [...content.equations, ...branchEquations];
+
   return (
     <div style={{ fontSize: '12px', lineHeight: 1.6 }}>
       <p
@@ -21,7 +39,7 @@ export function ModelDescription() {
       </p>
 
       <div style={{ display: 'flex', flexDirection: 'column', gap: '10px' }}>
-        {content.equations.map((eq, idx) => (
+        {equations.map((eq, idx) => (
           <div
             key={idx}
             style={{
@@ -58,34 +76,51 @@ export function ModelDescription() {
         ))}
       </div>
 
-      <div style={{ marginTop: '14px' }}>
-        <div
-          style={{
-            fontSize: '10px',
-            textTransform: 'uppercase',
-            letterSpacing: '0.06em',
-            color: 'var(--color-text-muted)',
-            marginBottom: '6px',
-          }}
-        >
-          References
+      {content.references.length > 0 && (
+        <div style={{ marginTop: '14px' }}>
+          <div
+            style={{
+              fontSize: '10px',
+              textTransform: 'uppercase',
+              letterSpacing: '0.06em',
+              color: 'var(--color-text-muted)',
+              marginBottom: '6px',
+            }}
+          >
+            References
+          </div>
+          <ul
+            style={{
+              margin: 0,
+              paddingLeft: '16px',
+              color: 'var(--color-text-muted)',
+              fontSize: '10px',
+              lineHeight: 1.5,
+            }}
+          >
+            {content.references.map((ref, idx) => (
+              <li key={idx} style={{ marginBottom: '4px' }}>
+                {ref}
+              </li>
+            ))}
+          </ul>
         </div>
-        <ul
-          style={{
-            margin: 0,
-            paddingLeft: '16px',
-            color: 'var(--color-text-muted)',
-            fontSize: '10px',
-            lineHeight: 1.5,
-          }}
-        >
-          {content.references.map((ref, idx) => (
-            <li key={idx} style={{ marginBottom: '4px' }}>
-              {ref}
-            </li>
-          ))}
-        </ul>
-      </div>
+      )}
     </div>
   );
 }
+
+/** Reference content of a user-defined model, built from its equations. */
+function customContent(spec: CustomModelSpec): ModelContent {
+  const latex = customModelLatex(spec);
+  return {
+    name: spec.name,
+    shortDescription: 'User-defined model, compiled from the equations below.',
+    fullDescription: '',
+    equations: [
+      { latex: latex.current, label: 'I-V Relationship' },
+      { latex: latex.dxdt, label: 'State Equation' },
+    ],
+    references: [],
+  };
+}
@@ -1,10 +1,21 @@
+import { useSimulationStore } from '../../stores/simulation.ts';
+import { MODEL_REGISTRY } from '../../engine/models/index.ts';
+import { CustomModelEditor } from '../controls/CustomModelEditor.tsx';
+import { EventControls } from '../controls/EventControls.tsx';
 import { ModelSelector } from '../controls/ModelSelector.tsx';
+import { IVShapeControls } from '../controls/IVShapeControls.tsx';
 import { PresetSelector } from '../controls/PresetSelector.tsx';
 import { SignalControls } from '../controls/SignalControls.tsx';
 import { SimulationControls } from '../controls/SimulationControls.tsx';
+import { SolverDiagnostics } from '../controls/SolverDiagnostics.tsx';
+import { SteadyStateControls } from '../controls/SteadyStateControls.tsx';
+import { VariabilityControls } from '../controls/VariabilityControls.tsx';
 import { ModelDescription } from '../education/ModelDescription.tsx';
 
 export function Sidebar() {
+  const modelId = useSimulationStore((s) => s.modelId);
+  const hasIVBranches = !!MODEL_REGISTRY[modelId]?.ivBranches;
+
   return (
     <aside
       style={{
@@ -22,10 +33,20 @@ export function Sidebar() {
         <ModelSelector />
       </SidebarSection>
 
+      <SidebarSection title="Custom Model" defaultOpen={false}>
+        <CustomModelEditor />
+      </SidebarSection>
+
       <SidebarSection title="Experiment Presets">
         <PresetSelector />
       </SidebarSection>
 
+      {hasIVBranches && (
+        <SidebarSection title="Conduction Mechanism">
+          <IVShapeControls />
+        </SidebarSection>
+      )}
+
       <SidebarSection title="Input Signal">
         <SignalControls />
       </SidebarSection>
@@ -34,6 +55,22 @@ export function Sidebar() {
         <SimulationControls />
       </SidebarSection>
 
+      <SidebarSection title="Steady State" defaultOpen={false}>
+        <SteadyStateControls />
+      </SidebarSection>
+
+      <SidebarSection title="Events" defaultOpen={false}>
+        <EventControls />
+      </SidebarSection>
+
+      <SidebarSection title="Solver Diagnostics" defaultOpen={false}>
+        <SolverDiagnostics />
+      </SidebarSection>
+
+      <SidebarSection title="Device Variability" defaultOpen={false}>
+        <VariabilityControls />
+      </SidebarSection>
+
       <SidebarSection title="Model Reference" defaultOpen={false}>
         <ModelDescription />
       </SidebarSection>
@@ -0,0 +1,74 @@
+import Plot from 'react-plotly.js';
+import type { PulseRead } from '../../engine/simulate.ts';
+
+interface Props {
+  reads: PulseRead[];
+}
+
+const POLARITY_COLORS: Record<number, string> = {
+  1: '#f87171',
+  [-1]: '#818cf8',
+  0: '#8888a0',
+};
+
+/**
+ * Conductance read between the pulses of a pulse train against the
+ * number of write pulses applied: reads after a SET pulse in red, after a
+ * RESET pulse in blue, and the opening read in grey.
+ */
+export function ConductancePlot({ reads }: Props) {
+  return (
+    <Plot
+      data={[
+        {
+          x: reads.map((read) => read.pulse),
+          y: reads.map((read) => read.conductance),
+          type: 'scatter',
+          mode: 'lines+markers',
+          line: { color: '#505068', width: 1 },
+          marker: { color: reads.map((read) => POLARITY_COLORS[read.polarity]), size: 6 },
+          hovertemplate: 'G = %{y:.4g} S<br>after pulse %{x}<extra></extra>',
+        },
+      ]}
+      layout={{
+        autosize: true,
+        margin: { l: 65, r: 20, t: 35, b: 45 },
+        paper_bgcolor: 'rgba(0,0,0,0)',
+        plot_bgcolor: 'rgba(0,0,0,0)',
+        font: { color: '#e0e0ee', size: 11 },
+        title: {
+          text: 'Conductance vs Pulse Number',
+          font: { size: 13, color: '#8888a0' },
+          x: 0.5,
+          y: 0.98,
+        },
+        xaxis: {
+          title: { text: 'Pulse number', standoff: 8 },
+          gridcolor: '#2a2a3c',
+          zerolinecolor: '#383850',
+          color: '#8888a0',
+        },
+        yaxis: {
+          title: { text: 'Conductance (S)', standoff: 6 },
+          exponentformat: 'e',
+          gridcolor: '#2a2a3c',
+          zerolinecolor: '#383850',
+          color: '#8888a0',
+        },
+        showlegend: false,
+      }}
+      config={{
+        responsive: true,
+        displayModeBar: true,
+        modeBarButtonsToRemove: ['lasso2d', 'select2d'],
+        displaylogo: false,
+        toImageButtonOptions: {
+          format: 'svg',
+          filename: 'memristor_conductance',
+        },
+      }}
+      useResizeHandler
+      style={{ width: '100%', height: '100%' }}
+    />
+  );
+}
@@ -1,9 +1,14 @@
 import { useMemo } from 'react';
 import Plot from 'react-plotly.js';
 import type { SimulationResult } from '../../engine/simulate.ts';
+import type { MonteCarloResult } from '../../engine/montecarlo.ts';
+import { eventMarkers } from './eventMarkers.ts';
+import { lttb, pick } from './downsample.ts';
 
 interface Props {
   result: SimulationResult;
+  /** Device-to-device envelope to overlay, if a Monte Carlo run exists. */
+  monteCarlo?: MonteCarloResult | null;
 }
 
 /**
@@ -12,34 +17,75 @@ interface Props {
  * pinched hysteresis loop easier to interpret.
  *
  * Replicates the arrows() function from functions.py:109-116.
+ *
+ * With a Monte Carlo result the median loop and its 25–75% and 5–95%
+ * percentile curves are drawn over the nominal device. Behind a series
+ * resistance the loop is drawn against the source voltage with the
+ * device-voltage loop dashed, and points held at the compliance limit
+ * are marked in amber. Under current drive the axes swap, so the drive
+ * (current) is on x and the response (voltage) on y. Located events
+ * are marked where they fall on the loop. Long loops are thinned with
+ * LTTB, which follows the sample order and so keeps both branches. A
+ * steady-state result is the settled loop alone, and the title says so.
+ * A staircase sweep adds the SMU's end-of-step readings as dots, and a
+ * measured replay the measured loop in orange.
  */
-export function IVCurvePlot({ result }: Props) {
-  const { scaledCurrent, currentUnit, arrows } = useMemo(
+export function IVCurvePlot({ result, monteCarlo }: Props) {
+  const { scaledCurrent, currentUnit, factor, arrows, limited } = useMemo(
     () => processData(result),
     [result],
   );
+  const bands = useMemo(
+    () => (monteCarlo ? envelopeTraces(monteCarlo, factor, currentUnit) : []),
+    [monteCarlo, factor, currentUnit],
+  );
+  const shown = useMemo(() => {
+    const curve = (v: number[]) => {
+      const kept = lttb(v, scaledCurrent);
+      return { v: pick(v, kept), i: pick(scaledCurrent, kept) };
+    };
+    return {
+      loop: curve(result.voltage),
+      deviceLoop: result.deviceVoltage && curve(result.deviceVoltage),
+    };
+  }, [result, scaledCurrent]);
+
+  // Drive on x, response on y
+  const currentDriven = !!result.currentDriven;
+  const xy = (v: number[], i: number[]) =>
+    currentDriven ? { x: i, y: v } : { x: v, y: i };
+  const pointHover = currentDriven
+    ? `I = %{x:.4g} ${currentUnit}<br>V = %{y:.4g} V`
+    : `V = %{x:.4g} V<br>I = %{y:.4g} ${currentUnit}`;
+  const driveName = currentDriven ? 'I' : 'V';
+  const eventPoints = xy(
+    result.events.map((event) => event.voltage),
+    result.events.map((event) => event.current / factor),
+  );
+  const eventTrace = eventMarkers(result.events, eventPoints.x, eventPoints.y, pointHover);
+  const readings = result.sweepReadings;
+  const measured = result.measured;
+  const voltageAxis = { text: 'Voltage (V)', standoff: 8 };
+  const currentAxis = { text: `Current (${currentUnit})`, standoff: 6 };
 
   return (
     <Plot
       data={[
         // Main I-V curve
         {
-          x: result.voltage,
-          y: scaledCurrent,
+          ...xy(shown.loop.v, shown.loop.i),
           type: 'scattergl',
           mode: 'lines',
-          name: 'I-V Curve',
+          name: currentDriven ? 'V-I Curve' : 'I-V Curve',
           line: { color: '#60a5fa', width: 2 },
-          hovertemplate:
-            `V = %{x:.4g} V<br>I = %{y:.4g} ${currentUnit}<extra></extra>`,
+          hovertemplate: `${pointHover}<extra></extra>`,
         },
-        // Arrows showing sweep direction — increasing voltage (red >)
+        // Arrows showing sweep direction — increasing drive (red >)
         {
-          x: arrows.increasing.v,
-          y: arrows.increasing.i,
+          ...xy(arrows.increasing.v, arrows.increasing.i),
           type: 'scatter',
           mode: 'markers',
-          name: 'V increasing',
+          name: `${driveName} increasing`,
           marker: {
             symbol: 'triangle-right',
             size: 7,
@@ -49,13 +95,12 @@ export function IVCurvePlot({ result }: Props) {
           hoverinfo: 'skip',
           showlegend: true,
         },
-        // Arrows showing sweep direction — decreasing voltage (blue <)
+        // Arrows showing sweep direction — decreasing drive (blue <)
         {
-          x: arrows.decreasing.v,
-          y: arrows.decreasing.i,
+          ...xy(arrows.decreasing.v, arrows.decreasing.i),
           type: 'scatter',
           mode: 'markers',
-          name: 'V decreasing',
+          name: `${driveName} decreasing`,
           marker: {
             symbol: 'triangle-left',
             size: 7,
@@ -65,6 +110,65 @@ export function IVCurvePlot({ result }: Props) {
           hoverinfo: 'skip',
           showlegend: true,
         },
+        ...(shown.deviceLoop
+          ? [
+              {
+                x: shown.deviceLoop.v,
+                y: shown.deviceLoop.i,
+                type: 'scattergl' as const,
+                mode: 'lines' as const,
+                name: 'Device V',
+                line: { color: '#60a5fa', width: 1, dash: 'dash' },
+                hovertemplate:
+                  `V_dev = %{x:.4g} V<br>I = %{y:.4g} ${currentUnit}<extra></extra>`,
+              },
+            ]
+          : []),
+        ...(limited.v.length > 0
+          ? [
+              {
+                ...xy(limited.v, limited.i),
+                type: 'scattergl' as const,
+                mode: 'markers' as const,
+                name: 'Compliance',
+                marker: { color: '#fbbf24', size: 4 },
+                hovertemplate: `Compliance<br>${pointHover}<extra></extra>`,
+              },
+            ]
+          : []),
+        ...(readings
+          ? [
+              {
+                ...xy(
+                  readings.map((reading) => reading.voltage),
+                  readings.map((reading) => reading.current / factor),
+                ),
+                type: 'scattergl' as const,
+                mode: 'markers' as const,
+                name: 'SMU readings',
+                marker: { color: '#e0e0ee', size: 3 },
+                hovertemplate: `Step %{text}<br>${pointHover}<extra></extra>`,
+                text: readings.map((reading) => String(reading.step + 1)),
+              },
+            ]
+          : []),
+        ...(measured
+          ? [
+              {
+                ...xy(
+                  measured.voltage,
+                  measured.current.map((i) => i / factor),
+                ),
+                type: 'scattergl' as const,
+                mode: 'lines' as const,
+                name: 'Measured',
+                line: { color: '#fb923c', width: 1.5 },
+                hovertemplate: `Measured<br>${pointHover}<extra></extra>`,
+              },
+            ]
+          : []),
+        ...bands,
+        ...(result.events.length > 0 ? [eventTrace] : []),
       ]}
       layout={{
         autosize: true,
@@ -73,20 +177,20 @@ export function IVCurvePlot({ result }: Props) {
         plot_bgcolor: 'rgba(0,0,0,0)',
         font: { color: '#e0e0ee', size: 11 },
         title: {
-          text: 'I-V Characteristic',
+          text: result.steadyState ? 'I-V Characteristic (steady-state loop)' : 'I-V Characteristic',
           font: { size: 13, color: '#8888a0' },
           x: 0.5,
           y: 0.98,
         },
         xaxis: {
-          title: { text: 'Voltage (V)', standoff: 8 },
+          title: currentDriven ? { ...currentAxis, standoff: 8 } : voltageAxis,
           gridcolor: '#2a2a3c',
           zerolinecolor: '#505068',
           zerolinewidth: 1,
           color: '#8888a0',
         },
         yaxis: {
-          title: { text: `Current (${currentUnit})`, standoff: 6 },
+          title: currentDriven ? { ...voltageAxis, standoff: 6 } : currentAxis,
           gridcolor: '#2a2a3c',
           zerolinecolor: '#505068',
           zerolinewidth: 1,
@@ -128,13 +232,15 @@ function processData(result: SimulationResult) {
   const { factor, unit } = siPrefix(maxI, 'A');
   const scaledCurrent = result.current.map((i) => i / factor);
 
-  // Sample every ~200th point for arrows (matching Python code)
+  // Sample every ~200th point for arrows (matching Python code), pointing
+  // along the drive: voltage, or current under current drive
+  const drive = result.currentDriven ? result.current : result.voltage;
   const step = Math.max(1, Math.floor(result.voltage.length / 200));
   const increasing: { v: number[]; i: number[] } = { v: [], i: [] };
   const decreasing: { v: number[]; i: number[] } = { v: [], i: [] };
 
   for (let idx = step; idx < result.voltage.length; idx += step) {
-    const dv = result.voltage[idx] - result.voltage[idx - step];
+    const dv = drive[idx] - drive[idx - step];
     if (dv > 0) {
       increasing.v.push(result.voltage[idx]);
       increasing.i.push(scaledCurrent[idx]);
@@ -144,13 +250,53 @@ function processData(result: SimulationResult) {
     }
   }
 
+  // Points where the source was held at its compliance limit
+  const limited: { v: number[]; i: number[] } = { v: [], i: [] };
+  result.complianceLimited?.forEach((held, idx) => {
+    if (held) {
+      limited.v.push(result.voltage[idx]);
+      limited.i.push(scaledCurrent[idx]);
+    }
+  });
+
   return {
     scaledCurrent,
     currentUnit: unit,
+    factor,
     arrows: { increasing, decreasing } as ArrowData,
+    limited,
   };
 }
 
+/** Median and percentile I-V curves of a Monte Carlo run. */
+function envelopeTraces(mc: MonteCarloResult, factor: number, unit: string) {
+  const curve = (
+    y: number[],
+    name: string,
+    line: { color: string; width: number; dash?: string },
+    showlegend: boolean,
+  ) => ({
+    x: mc.voltage,
+    y: y.map((i) => i / factor),
+    type: 'scattergl' as const,
+    mode: 'lines' as const,
+    name,
+    legendgroup: name,
+    line,
+    showlegend,
+    hovertemplate: `${name}<br>V = %{x:.4g} V<br>I = %{y:.4g} ${unit}<extra></extra>`,
+  });
+  const outer = { color: 'rgba(52, 211, 153, 0.45)', width: 1, dash: 'dot' };
+  const inner = { color: 'rgba(52, 211, 153, 0.75)', width: 1, dash: 'dash' };
+  return [
+    curve(mc.current.p5, '5–95%', outer, true),
+    curve(mc.current.p95, '5–95%', outer, false),
+    curve(mc.current.p25, '25–75%', inner, true),
+    curve(mc.current.p75, '25–75%', inner, false),
+    curve(mc.current.median, `Median (${mc.runs - mc.failed} devices)`, { color: '#34d399', width: 2 }, true),
+  ];
+}
+
 function siPrefix(
   value: number,
   baseUnit: string,
@@ -1,10 +1,17 @@
 import { useSimulationStore } from '../../stores/simulation.ts';
+import { solverWarnings } from '../../engine/solver.ts';
 import { TimeSeriesPlot } from './TimeSeriesPlot.tsx';
 import { IVCurvePlot } from './IVCurvePlot.tsx';
+import { StatePlot } from './StatePlot.tsx';
+import { SwitchingHistogram } from './SwitchingHistogram.tsx';
+import { ConductancePlot } from './ConductancePlot.tsx';
 
 export function PlotPanel() {
   const result = useSimulationStore((s) => s.result);
   const error = useSimulationStore((s) => s.error);
+  const monteCarlo = useSimulationStore((s) => s.monteCarlo);
+  const simulating = useSimulationStore((s) => s.simulating);
+  const progress = useSimulationStore((s) => s.simulationProgress);
 
   if (error) {
     return (
@@ -60,33 +67,121 @@ export function PlotPanel() {
           fontSize: '14px',
         }}
       >
-        Select a model and parameters to begin simulation.
+        {simulating
+          ? `Simulating… ${Math.round(100 * progress)}%`
+          : 'Select a model and parameters to begin simulation.'}
       </div>
     );
   }
 
+  const warnings = solverWarnings(result.diagnostics);
+
+  // Side by side below the main plots
+  const bottomPlots: [string, React.ReactNode][] = [['state', <StatePlot result={result} />]];
+  if (result.pulseReads) {
+    bottomPlots.push(['conductance', <ConductancePlot reads={result.pulseReads} />]);
+  }
+  if (monteCarlo) bottomPlots.push(['switching', <SwitchingHistogram monteCarlo={monteCarlo} />]);
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', height: '100%', position: 'relative' }}>
+      <ProgressBar active={simulating} fraction={progress} />
+      {warnings.length > 0 && (
+        <div
+          style={{
+            margin: '8px 12px 0',
+            padding: '8px 14px',
+            borderRadius: '8px',
+            border: '1px solid #f59e0b',
+            background: 'rgba(245, 158, 11, 0.1)',
+            color: '#fcd34d',
+            fontSize: '12px',
+          }}
+        >
+          <div style={{ fontWeight: 600, marginBottom: '4px' }}>
+            Solver Warning
+          </div>
+          {warnings.map((warning) => (
+            <div key={warning}>{warning}</div>
+          ))}
+        </div>
+      )}
+      <div
+        style={{
+          display: 'grid',
+          gridTemplateColumns: '1fr 1fr',
+          gridTemplateRows: '2fr 1fr',
+          gap: '0',
+          flex: 1,
+          minHeight: 0,
+        }}
+      >
+        <div
+          style={{
+            borderRight: '1px solid var(--color-border)',
+            minHeight: 0,
+            overflow: 'hidden',
+          }}
+        >
+          <TimeSeriesPlot result={result} monteCarlo={monteCarlo} />
+        </div>
+        <div style={{ minHeight: 0, overflow: 'hidden' }}>
+          <IVCurvePlot result={result} monteCarlo={monteCarlo} />
+        </div>
+        <div
+          style={{
+            gridColumn: '1 / span 2',
+            display: 'flex',
+            borderTop: '1px solid var(--color-border)',
+            minHeight: 0,
+          }}
+        >
+          {bottomPlots.map(([key, plot], k) => (
+            <div
+              key={key}
+              style={{
+                flex: 1,
+                minWidth: 0,
+                borderLeft: k > 0 ? '1px solid var(--color-border)' : undefined,
+                overflow: 'hidden',
+              }}
+            >
+              {plot}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Thin bar along the top edge while a run is in progress. It fades in
+ * only after a short delay, so runs that finish at once do not flicker.
+ */
+function ProgressBar({ active, fraction }: { active: boolean; fraction: number }) {
   return (
     <div
       style={{
-        display: 'grid',
-        gridTemplateColumns: '1fr 1fr',
-        gap: '0',
-        height: '100%',
-        minHeight: 0,
+        position: 'absolute',
+        top: 0,
+        left: 0,
+        right: 0,
+        height: '2px',
+        zIndex: 1,
+        opacity: active ? 1 : 0,
+        transition: active ? 'opacity 0.2s 0.25s' : 'opacity 0.1s',
+        pointerEvents: 'none',
       }}
     >
       <div
         style={{
-          borderRight: '1px solid var(--color-border)',
-          minHeight: 0,
-          overflow: 'hidden',
+          width: `${Math.round(100 * fraction)}%`,
+          height: '100%',
+          background: 'var(--color-primary)',
+          transition: 'width 0.1s',
         }}
-      >
-        <TimeSeriesPlot result={result} />
-      </div>
-      <div style={{ minHeight: 0, overflow: 'hidden' }}>
-        <IVCurvePlot result={result} />
-      </div>
+      />
     </div>
   );
 }
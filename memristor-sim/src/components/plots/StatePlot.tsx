@@ -0,0 +1,137 @@
+import { useMemo } from 'react';
+import Plot from 'react-plotly.js';
+import type { SimulationResult } from '../../engine/simulate.ts';
+import { eventMarkers } from './eventMarkers.ts';
+
+interface Props {
+  result: SimulationResult;
+}
+
+const TRACE_COLORS = ['#34d399', '#fbbf24', '#c084fc', '#f472b6'];
+
+/**
+ * State-variable trajectories over time, one stacked subplot per state
+ * component so components with different units (normalised x, gap in nm,
+ * temperature in K) each get their own y-axis. Time is logarithmic for
+ * retention experiments. Located events are marked on the primary state.
+ */
+export function StatePlot({ result }: Props) {
+  const { scaledTime, timeUnit, timeFactor } = useMemo(() => scaleTime(result.time), [result]);
+  const n = result.states.length;
+
+  const data = result.states.map((series, k) => {
+    const info = result.stateInfo[k];
+    const unit = info.unit ? ` ${info.unit}` : '';
+    return {
+      x: scaledTime,
+      y: series,
+      type: 'scattergl' as const,
+      mode: 'lines' as const,
+      name: info.name,
+      line: { color: TRACE_COLORS[k % TRACE_COLORS.length], width: 2 },
+      xaxis: 'x',
+      yaxis: k === 0 ? 'y' : `y${k + 1}`,
+      hovertemplate:
+        `${info.name} = %{y:.4g}${unit}<br>t = %{x:.4g} ${timeUnit}<extra></extra>`,
+    };
+  });
+
+  const primary = result.stateInfo[0];
+  const markers = result.events.length > 0
+    ? [
+        eventMarkers(
+          result.events,
+          result.events.map((event) => event.time / timeFactor),
+          result.events.map((event) => event.states[0]),
+          `${primary.name} = %{y:.4g}${primary.unit ? ` ${primary.unit}` : ''}<br>` +
+            `t = %{x:.4g} ${timeUnit}`,
+          'y',
+        ),
+      ]
+    : [];
+
+  // One y-axis per component, stacked top to bottom with a shared x-axis
+  const yAxes: Record<string, object> = {};
+  result.stateInfo.forEach((info, k) => {
+    const top = 1 - k / n;
+    const bottom = 1 - (k + 1) / n;
+    yAxes[k === 0 ? 'yaxis' : `yaxis${k + 1}`] = {
+      title: {
+        text: info.unit ? `${info.name} (${info.unit})` : info.name,
+        font: { color: TRACE_COLORS[k % TRACE_COLORS.length] },
+        standoff: 6,
+      },
+      domain: [bottom + (k === n - 1 ? 0 : 0.04), top],
+      gridcolor: '#2a2a3c',
+      zerolinecolor: '#383850',
+      tickfont: { color: TRACE_COLORS[k % TRACE_COLORS.length] },
+    };
+  });
+
+  return (
+    <Plot
+      data={[...data, ...markers]}
+      layout={{
+        autosize: true,
+        margin: { l: 65, r: 20, t: 35, b: 45 },
+        paper_bgcolor: 'rgba(0,0,0,0)',
+        plot_bgcolor: 'rgba(0,0,0,0)',
+        font: { color: '#e0e0ee', size: 11 },
+        title: {
+          text: 'State Variables vs Time',
+          font: { size: 13, color: '#8888a0' },
+          x: 0.5,
+          y: 0.98,
+        },
+        xaxis: {
+          title: { text: `Time (${timeUnit})`, standoff: 8 },
+          type: result.logTime ? 'log' : 'linear',
+          gridcolor: '#2a2a3c',
+          zerolinecolor: '#383850',
+          color: '#8888a0',
+        },
+        ...yAxes,
+        showlegend: false,
+        hovermode: 'x unified',
+      }}
+      config={{
+        responsive: true,
+        displayModeBar: true,
+        modeBarButtonsToRemove: ['lasso2d', 'select2d'],
+        displaylogo: false,
+        toImageButtonOptions: {
+          format: 'svg',
+          filename: 'memristor_state',
+        },
+      }}
+      useResizeHandler
+      style={{ width: '100%', height: '100%' }}
+    />
+  );
+}
+
+/** Scale the time axis to an appropriate SI prefix. */
+function scaleTime(time: number[]): {
+  scaledTime: number[];
+  timeUnit: string;
+  timeFactor: number;
+} {
+  const maxT = time.length > 0 ? time[time.length - 1] : 0;
+  const prefixes: [number, string][] = [
+    [1e-15, 'f'],
+    [1e-12, 'p'],
+    [1e-9, 'n'],
+    [1e-6, 'µ'],
+    [1e-3, 'm'],
+    [1, ''],
+  ];
+  let factor = 1;
+  let unit = '';
+  for (const [f, prefix] of prefixes) {
+    if (Math.abs(maxT) >= f) {
+      factor = f;
+      unit = prefix;
+    }
+  }
+  return { scaledTime: time.map((t) => t / factor), timeUnit: `${unit}s`, timeFactor: factor };
+}
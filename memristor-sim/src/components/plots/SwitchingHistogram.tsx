@@ -0,0 +1,91 @@
+import Plot from 'react-plotly.js';
+import type { MonteCarloResult } from '../../engine/montecarlo.ts';
+
+interface Props {
+  monteCarlo: MonteCarloResult;
+}
+
+/**
+ * Histograms of the switching voltages extracted from each Monte Carlo
+ * device: positive-bias (SET) in red and negative-bias (RESET) in blue,
+ * with the median of each in the legend.
+ */
+export function SwitchingHistogram({ monteCarlo }: Props) {
+  const { positive, negative } = monteCarlo.switching;
+
+  return (
+    <Plot
+      data={[
+        {
+          x: positive,
+          type: 'histogram',
+          name: `V > 0: median ${formatMedian(positive)}`,
+          marker: { color: 'rgba(248, 113, 113, 0.7)' },
+          hovertemplate: '%{x} V: %{y} devices<extra></extra>',
+        },
+        {
+          x: negative,
+          type: 'histogram',
+          name: `V < 0: median ${formatMedian(negative)}`,
+          marker: { color: 'rgba(129, 140, 248, 0.7)' },
+          hovertemplate: '%{x} V: %{y} devices<extra></extra>',
+        },
+      ]}
+      layout={{
+        autosize: true,
+        margin: { l: 50, r: 20, t: 35, b: 45 },
+        paper_bgcolor: 'rgba(0,0,0,0)',
+        plot_bgcolor: 'rgba(0,0,0,0)',
+        font: { color: '#e0e0ee', size: 11 },
+        title: {
+          text: 'Switching Voltage Distribution',
+          font: { size: 13, color: '#8888a0' },
+          x: 0.5,
+          y: 0.98,
+        },
+        barmode: 'overlay',
+        xaxis: {
+          title: { text: 'Switching voltage (V)', standoff: 8 },
+          gridcolor: '#2a2a3c',
+          zerolinecolor: '#505068',
+          color: '#8888a0',
+        },
+        yaxis: {
+          title: { text: 'Devices', standoff: 6 },
+          gridcolor: '#2a2a3c',
+          zerolinecolor: '#383850',
+          color: '#8888a0',
+        },
+        legend: {
+          x: 0.01,
+          y: 0.99,
+          bgcolor: 'rgba(30,30,46,0.8)',
+          bordercolor: '#383850',
+          borderwidth: 1,
+          font: { size: 10 },
+        },
+      }}
+      config={{
+        responsive: true,
+        displayModeBar: true,
+        modeBarButtonsToRemove: ['lasso2d', 'select2d'],
+        displaylogo: false,
+        toImageButtonOptions: {
+          format: 'svg',
+          filename: 'memristor_switching_voltages',
+        },
+      }}
+      useResizeHandler
+      style={{ width: '100%', height: '100%' }}
+    />
+  );
+}
+
+function formatMedian(values: number[]): string {
+  if (values.length === 0) return '—';
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = sorted.length >> 1;
+  const median =
+    sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+  return `${median.toFixed(3)} V`;
+}
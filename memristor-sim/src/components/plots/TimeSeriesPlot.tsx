@@ -1,30 +1,72 @@
 import { useMemo } from 'react';
 import Plot from 'react-plotly.js';
 import type { SimulationResult } from '../../engine/simulate.ts';
+import type { MonteCarloResult } from '../../engine/montecarlo.ts';
+import { eventMarkers } from './eventMarkers.ts';
+import { lttb, pick } from './downsample.ts';
 
 interface Props {
   result: SimulationResult;
+  /** Device-to-device envelope to overlay, if a Monte Carlo run exists. */
+  monteCarlo?: MonteCarloResult | null;
 }
 
 /**
  * Time-series plot with dual y-axes: current (blue, left) and voltage (red, right).
  * Replicates the matplotlib twinx pattern from the original functions.py.
+ * Electro-thermal simulations add device temperature (amber) on a third axis,
+ * and retention experiments use a logarithmic time axis.
+ * A Monte Carlo run adds the median current with shaded 25–75% and 5–95%
+ * bands (green). Behind a series resistance the device voltage is drawn
+ * dashed under the source voltage, and intervals where the source was
+ * at its compliance limit are shaded amber. Under current
+ * drive the current is the input and the voltage the device's response,
+ * and the labels say so. Located events are marked on the voltage trace.
+ * A measured replay overlays the measured response (orange): the
+ * current, or under current drive the voltage.
+ * Long traces are thinned with LTTB before they reach Plotly.
  */
-export function TimeSeriesPlot({ result }: Props) {
-  const { scaledCurrent, currentUnit, scaledTime, timeUnit } = useMemo(
+export function TimeSeriesPlot({ result, monteCarlo }: Props) {
+  const { scaledCurrent, currentUnit, currentFactor, scaledTime, timeUnit, timeFactor } = useMemo(
     () => autoScale(result),
     [result],
   );
+  const bands = useMemo(
+    () =>
+      monteCarlo
+        ? envelopeTraces(monteCarlo, currentFactor, currentUnit, timeFactor, timeUnit)
+        : [],
+    [monteCarlo, currentFactor, currentUnit, timeFactor, timeUnit],
+  );
+  const temperature = result.temperature;
+  const shown = useMemo(() => {
+    const series = (y: number[]) => {
+      const kept = lttb(scaledTime, y);
+      return { x: pick(scaledTime, kept), y: pick(y, kept) };
+    };
+    return {
+      current: series(scaledCurrent),
+      voltage: series(result.voltage),
+      deviceVoltage: result.deviceVoltage && series(result.deviceVoltage),
+      temperature: temperature && series(temperature),
+    };
+  }, [result, scaledTime, scaledCurrent, temperature]);
+  const currentDriven = !!result.currentDriven;
+  const measured = result.measured;
+  const complianceShapes = useMemo(
+    () => complianceIntervals(result.complianceLimited, scaledTime),
+    [result, scaledTime],
+  );
 
   return (
     <Plot
       data={[
+        ...bands,
         {
-          x: scaledTime,
-          y: scaledCurrent,
+          ...shown.current,
           type: 'scattergl',
           mode: 'lines',
-          name: 'Current',
+          name: currentDriven ? 'Drive current' : 'Current',
           line: { color: '#60a5fa', width: 2 },
           yaxis: 'y',
           hovertemplate:
@@ -32,15 +74,68 @@ export function TimeSeriesPlot({ result }: Props) {
             `t = %{x:.4g} ${timeUnit}<extra></extra>`,
         },
         {
-          x: scaledTime,
-          y: result.voltage,
+          ...shown.voltage,
           type: 'scattergl',
           mode: 'lines',
-          name: 'Voltage',
+          name: currentDriven ? 'Device voltage' : 'Voltage',
           line: { color: '#f87171', width: 1.5, dash: 'dot' },
           yaxis: 'y2',
           hovertemplate: 'V = %{y:.4g} V<br>t = %{x:.4g} ' + timeUnit + '<extra></extra>',
         },
+        ...(shown.deviceVoltage
+          ? [
+              {
+                ...shown.deviceVoltage,
+                type: 'scattergl' as const,
+                mode: 'lines' as const,
+                name: 'Device V',
+                line: { color: '#f87171', width: 1, dash: 'dash' },
+                yaxis: 'y2',
+                hovertemplate:
+                  'V_dev = %{y:.4g} V<br>t = %{x:.4g} ' + timeUnit + '<extra></extra>',
+              },
+            ]
+          : []),
+        ...(measured
+          ? [
+              {
+                x: measured.time.map((t) => t / timeFactor),
+                y: currentDriven ? measured.voltage : measured.current.map((i) => i / currentFactor),
+                type: 'scattergl' as const,
+                mode: 'lines' as const,
+                name: currentDriven ? 'Measured voltage' : 'Measured current',
+                line: { color: '#fb923c', width: 1.5 },
+                yaxis: currentDriven ? 'y2' : 'y',
+                hovertemplate: currentDriven
+                  ? 'V_meas = %{y:.4g} V<br>t = %{x:.4g} ' + timeUnit + '<extra></extra>'
+                  : `I_meas = %{y:.4g} ${currentUnit}<br>t = %{x:.4g} ${timeUnit}<extra></extra>`,
+              },
+            ]
+          : []),
+        ...(shown.temperature
+          ? [
+              {
+                ...shown.temperature,
+                type: 'scattergl' as const,
+                mode: 'lines' as const,
+                name: 'Temperature',
+                line: { color: '#fbbf24', width: 1.5 },
+                yaxis: 'y3',
+                hovertemplate: 'T = %{y:.4g} K<br>t = %{x:.4g} ' + timeUnit + '<extra></extra>',
+              },
+            ]
+          : []),
+        ...(result.events.length > 0
+          ? [
+              eventMarkers(
+                result.events,
+                result.events.map((event) => event.time / timeFactor),
+                result.events.map((event) => event.voltage),
+                `V = %{y:.4g} V<br>t = %{x:.4g} ${timeUnit}`,
+                'y2',
+              ),
+            ]
+          : []),
       ]}
       layout={{
         autosize: true,
@@ -49,32 +144,55 @@ export function TimeSeriesPlot({ result }: Props) {
         plot_bgcolor: 'rgba(0,0,0,0)',
         font: { color: '#e0e0ee', size: 11 },
         title: {
-          text: 'Current & Voltage vs Time',
+          text: currentDriven
+            ? 'Current Drive & Voltage Response vs Time'
+            : 'Current & Voltage vs Time',
           font: { size: 13, color: '#8888a0' },
           x: 0.5,
           y: 0.98,
         },
         xaxis: {
           title: { text: `Time (${timeUnit})`, standoff: 8 },
+          type: result.logTime ? 'log' : 'linear',
+          domain: temperature ? [0, 0.88] : [0, 1],
           gridcolor: '#2a2a3c',
           zerolinecolor: '#383850',
           color: '#8888a0',
         },
         yaxis: {
-          title: { text: `Current (${currentUnit})`, font: { color: '#60a5fa' }, standoff: 6 },
+          title: {
+            text: `${currentDriven ? 'Drive current' : 'Current'} (${currentUnit})`,
+            font: { color: '#60a5fa' },
+            standoff: 6,
+          },
           gridcolor: '#2a2a3c',
           zerolinecolor: '#383850',
           tickfont: { color: '#60a5fa' },
           side: 'left',
         },
         yaxis2: {
-          title: { text: 'Voltage (V)', font: { color: '#f87171' }, standoff: 6 },
+          title: {
+            text: currentDriven ? 'Device voltage (V)' : 'Voltage (V)',
+            font: { color: '#f87171' },
+            standoff: 6,
+          },
           tickfont: { color: '#f87171' },
           overlaying: 'y',
           side: 'right',
           gridcolor: 'rgba(0,0,0,0)',
           zerolinecolor: '#383850',
         },
+        yaxis3: {
+          title: { text: 'Temperature (K)', font: { color: '#fbbf24' }, standoff: 6 },
+          tickfont: { color: '#fbbf24' },
+          overlaying: 'y',
+          side: 'right',
+          anchor: 'free',
+          position: 1,
+          gridcolor: 'rgba(0,0,0,0)',
+          zeroline: false,
+          visible: temperature !== undefined,
+        },
         legend: {
           x: 0.01,
           y: 0.99,
@@ -83,6 +201,7 @@ export function TimeSeriesPlot({ result }: Props) {
           borderwidth: 1,
           font: { size: 10 },
         },
+        shapes: complianceShapes,
         hovermode: 'x unified',
       }}
       config={{
@@ -101,11 +220,43 @@ export function TimeSeriesPlot({ result }: Props) {
   );
 }
 
+/**
+ * Shaded time spans, one per run of consecutive output points held at
+ * the compliance limit.
+ */
+function complianceIntervals(limited: boolean[] | undefined, scaledTime: number[]) {
+  const shapes: object[] = [];
+  if (!limited) return shapes;
+  let start = -1;
+  for (let k = 0; k <= limited.length; k++) {
+    if (k < limited.length && limited[k]) {
+      if (start < 0) start = k;
+    } else if (start >= 0) {
+      shapes.push({
+        type: 'rect',
+        xref: 'x',
+        yref: 'paper',
+        x0: scaledTime[start],
+        x1: scaledTime[k - 1],
+        y0: 0,
+        y1: 1,
+        fillcolor: 'rgba(251, 191, 36, 0.12)',
+        line: { width: 0 },
+        layer: 'below',
+      });
+      start = -1;
+    }
+  }
+  return shapes;
+}
+
 interface ScaleResult {
   scaledCurrent: number[];
   currentUnit: string;
+  currentFactor: number;
   scaledTime: number[];
   timeUnit: string;
+  timeFactor: number;
 }
 
 /**
@@ -122,11 +273,61 @@ function autoScale(result: SimulationResult): ScaleResult {
   return {
     scaledCurrent: result.current.map((i) => i / iFactor),
     currentUnit: iUnit,
+    currentFactor: iFactor,
     scaledTime: result.time.map((t) => t / tFactor),
     timeUnit: tUnit,
+    timeFactor: tFactor,
   };
 }
 
+/**
+ * Median current and shaded percentile bands of a Monte Carlo run, on
+ * the run's own evenly spaced time grid. Each band's upper edge fills
+ * down to the preceding lower edge ('tonexty'), so the trace order
+ * matters.
+ */
+function envelopeTraces(
+  mc: MonteCarloResult,
+  factor: number,
+  unit: string,
+  timeFactor: number,
+  timeUnit: string,
+) {
+  const scaledTime = mc.time.map((t) => t / timeFactor);
+  const edge = (y: number[], name: string, fill?: string) => ({
+    x: scaledTime,
+    y: y.map((i) => i / factor),
+    type: 'scatter' as const,
+    mode: 'lines' as const,
+    name,
+    legendgroup: name,
+    showlegend: fill !== undefined,
+    line: { width: 0, color: 'rgba(52, 211, 153, 0)' },
+    fill: fill ? ('tonexty' as const) : ('none' as const),
+    fillcolor: fill,
+    yaxis: 'y',
+    hoverinfo: 'skip' as const,
+  });
+  return [
+    edge(mc.current.p5, '5–95%'),
+    edge(mc.current.p95, '5–95%', 'rgba(52, 211, 153, 0.12)'),
+    edge(mc.current.p25, '25–75%'),
+    edge(mc.current.p75, '25–75%', 'rgba(52, 211, 153, 0.25)'),
+    {
+      x: scaledTime,
+      y: mc.current.median.map((i) => i / factor),
+      type: 'scattergl' as const,
+      mode: 'lines' as const,
+      name: `Median (${mc.runs - mc.failed} devices)`,
+      line: { color: '#34d399', width: 1.5 },
+      yaxis: 'y',
+      hovertemplate:
+        `I₅₀ = %{y:.4g} ${unit}<br>` +
+        `t = %{x:.4g} ${timeUnit}<extra></extra>`,
+    },
+  ];
+}
+
 function siPrefix(
   value: number,
   baseUnit: string,
@@ -0,0 +1,78 @@
+/**
+ * Largest-Triangle-Three-Buckets downsampling (Steinarsson, 2013).
+ *
+ * Plotly slows down noticeably beyond a few thousand points per trace,
+ * far more than a plot panel has pixels to show. LTTB keeps the first
+ * and last point and, from each of `threshold − 2` equal buckets of the
+ * rest, the point spanning the largest triangle with the point kept from
+ * the previous bucket and the mean of the next one. Peaks, switching
+ * edges and the loop shape survive, so the result looks the same at
+ * screen resolution.
+ *
+ * Buckets follow the array index rather than x, so the same routine
+ * serves time series and parametric curves such as the I-V loop. The
+ * triangle areas scale uniformly with either axis, so the choice does
+ * not depend on units.
+ *
+ * Reference:
+ *   S. Steinarsson, "Downsampling Time Series for Visual Representation,"
+ *   MSc thesis, University of Iceland, 2013.
+ */
+
+/** Points kept per trace: about twice the width of a plot panel. */
+export const PLOT_POINTS = 4000;
+
+/**
+ * Indices of the points LTTB keeps from (x, y), in increasing order. All
+ * indices are returned if there are no more than `threshold` points.
+ */
+export function lttb(x: ArrayLike<number>, y: ArrayLike<number>, threshold = PLOT_POINTS): number[] {
+  const n = x.length;
+  if (threshold >= n || threshold < 3) return Array.from({ length: n }, (_, i) => i);
+
+  const kept: number[] = [0];
+  const bucketSize = (n - 2) / (threshold - 2);
+  let a = 0;
+  for (let b = 0; b < threshold - 2; b++) {
+    // Mean of the next bucket (the last point for the final bucket)
+    const nextStart = Math.floor((b + 1) * bucketSize) + 1;
+    const nextEnd = Math.min(Math.floor((b + 2) * bucketSize) + 1, n);
+    let meanX = 0, meanY = 0;
+    for (let i = nextStart; i < nextEnd; i++) {
+      meanX += x[i];
+      meanY += y[i];
+    }
+    const count = nextEnd - nextStart;
+    if (count > 0) {
+      meanX /= count;
+      meanY /= count;
+    } else {
+      meanX = x[n - 1];
+      meanY = y[n - 1];
+    }
+
+    // Point of this bucket spanning the largest triangle
+    const start = Math.floor(b * bucketSize) + 1;
+    const end = Math.floor((b + 1) * bucketSize) + 1;
+    let maxArea = -1;
+    let choice = start;
+    for (let i = start; i < end; i++) {
+      const area = Math.abs(
+        (x[a] - meanX) * (y[i] - y[a]) - (x[a] - x[i]) * (meanY - y[a]),
+      );
+      if (area > maxArea) {
+        maxArea = area;
+        choice = i;
+      }
+    }
+    kept.push(choice);
+    a = choice;
+  }
+  kept.push(n - 1);
+  return kept;
+}
+
+/** The entries of `values` at `indices`. */
+export function pick<T>(values: ArrayLike<T>, indices: number[]): T[] {
+  return indices.map((i) => values[i]);
+}
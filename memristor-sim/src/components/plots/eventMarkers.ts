@@ -0,0 +1,42 @@
+import type { SimulationEvent } from '../../engine/simulate.ts';
+
+/** Above this many events the markers are drawn without their labels. */
+const MAX_LABELLED_EVENTS = 40;
+
+/**
+ * Annotated markers of the located events at the given plot coordinates:
+ * ▲ for rising and ▼ for falling crossings, labelled with the event name
+ * unless there are too many to read. `hover` is appended to the event
+ * name in the hover label.
+ */
+export function eventMarkers(
+  events: SimulationEvent[],
+  x: number[],
+  y: number[],
+  hover: string,
+  yaxis?: string,
+) {
+  const labels = events.map((event) => event.label);
+  return {
+    x,
+    y,
+    type: 'scatter' as const,
+    mode: (events.length <= MAX_LABELLED_EVENTS ? 'markers+text' : 'markers') as
+      'markers+text' | 'markers',
+    name: 'Events',
+    text: labels,
+    customdata: labels,
+    textposition: 'top center' as const,
+    textfont: { size: 9, color: '#f0abfc' },
+    marker: {
+      symbol: events.map((event) =>
+        event.direction === 'rising' ? 'triangle-up' : 'triangle-down',
+      ),
+      size: 9,
+      color: '#e879f9',
+      line: { color: '#1e1e2e', width: 1 },
+    },
+    yaxis,
+    hovertemplate: `%{customdata}<br>${hover}<extra></extra>`,
+  };
+}
@@ -0,0 +1,23 @@
+import type { ButtonHTMLAttributes } from 'react';
+import { toggleButtonStyle } from './toggleButtonStyle.ts';
+
+/** One button of a row of mutually exclusive options. */
+export function ToggleButton({
+  selected,
+  style,
+  ...props
+}: { selected: boolean } & ButtonHTMLAttributes<HTMLButtonElement>) {
+  return (
+    <button
+      {...props}
+      style={{
+        width: '100%',
+        padding: '5px 8px',
+        fontSize: '11px',
+        borderRadius: '4px',
+        ...toggleButtonStyle(selected),
+        ...style,
+      }}
+    />
+  );
+}
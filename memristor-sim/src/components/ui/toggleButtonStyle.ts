@@ -0,0 +1,16 @@
+import type { CSSProperties } from 'react';
+
+/**
+ * Border, background and text colours of a button showing an option:
+ * highlighted in the primary colour when selected. Buttons that start an
+ * action take the selected look.
+ */
+export function toggleButtonStyle(selected: boolean): CSSProperties {
+  return {
+    border: selected ? '1px solid var(--color-primary)' : '1px solid var(--color-border)',
+    background: selected ? 'rgba(59, 130, 246, 0.15)' : 'var(--color-surface)',
+    color: selected ? 'var(--color-primary)' : 'var(--color-text)',
+    cursor: 'pointer',
+    transition: 'all 0.15s',
+  };
+}
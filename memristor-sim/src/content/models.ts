@@ -65,6 +65,53 @@ export const MODEL_CONTENT: Record<string, ModelContent> = {
     ],
   },
 
+  yakopcic_new: {
+    name: 'Yakopcic Dual-Branch Model',
+    shortDescription:
+      'The newer Yakopcic formulation: the current is a state-weighted mix of ' +
+      'separately fitted ON and OFF I-V branches, each with its own forward- and ' +
+      'reverse-bias sinh fit.',
+    fullDescription:
+      'The 2011 Yakopcic model scales a single sinh curve by the state variable, ' +
+      'which forces the OFF state to carry zero current. Real devices have a ' +
+      'measurable, nonlinear OFF-state current, so the newer formulation fits the ' +
+      'fully-ON (x = 1) and fully-OFF (x = 0) I-V curves independently and ' +
+      'interpolates between them with x.\n\n' +
+      'Each branch is split at V = 0 into forward- and reverse-bias fits ' +
+      '(g, b pairs), giving eight I-V parameters that can be read directly off ' +
+      'the stable ON and OFF sweeps of a measured device. The threshold function ' +
+      'and state dynamics are those of the 2011 model, with the RESET damping ' +
+      'boundary xn expressed as an absolute state level.\n\n' +
+      'This is the formulation used by the SrTiO₃ SPICE subcircuit and by the ' +
+      'fitting pipeline in fit_yakopcic.py.',
+    equations: [
+      {
+        latex: 'I(t) = h_{\\mathrm{on}}(V) \\cdot x(t) + h_{\\mathrm{off}}(V) \\cdot (1 - x(t))',
+        label: 'I-V Relationship',
+      },
+      {
+        latex: 'h_{\\mathrm{on}}(V) = \\begin{cases} g_{\\max,p} \\sinh(b_{\\max,p} V) & V \\geq 0 \\\\ g_{\\max,n} \\sinh(b_{\\max,n} V) & V < 0 \\end{cases}',
+        label: 'ON Branch',
+      },
+      {
+        latex: 'h_{\\mathrm{off}}(V) = \\begin{cases} g_{\\min,p} \\sinh(b_{\\min,p} V) & V \\geq 0 \\\\ g_{\\min,n} \\sinh(b_{\\min,n} V) & V < 0 \\end{cases}',
+        label: 'OFF Branch',
+      },
+      {
+        latex: '\\frac{dx}{dt} = \\eta \\cdot g(V(t)) \\cdot f(V(t),\\, x(t))',
+        label: 'State Evolution',
+      },
+      {
+        latex: 'f(V, x) = \\begin{cases} e^{-\\alpha_p(x - x_p)} \\cdot w_p(x) & \\eta V \\geq 0,\\; x \\geq x_p \\\\ e^{\\alpha_n(x - x_n)} \\cdot \\frac{x}{x_n} & \\eta V < 0,\\; x \\leq x_n \\\\ 1 & \\text{otherwise} \\end{cases}',
+        label: 'Windowing Function',
+      },
+    ],
+    references: [
+      'C. Yakopcic, T. M. Taha, G. Subramanyam, R. E. Pino, and S. Rogers, "A Memristor Device Model," IEEE Electron Device Letters, vol. 32, no. 10, pp. 1436-1438, Oct. 2011.',
+      'C. Yakopcic, T. M. Taha, D. J. Mountain, T. Salter, M. J. Marinella, and M. McLean, "Memristor Model Optimization Based on Parameter Extraction From Device Characterization Data," IEEE Trans. Computer-Aided Design of Integrated Circuits and Systems, vol. 39, no. 5, pp. 1084-1095, May 2020.',
+    ],
+  },
+
   hp_labs: {
     name: 'HP Labs Ion-Drift Model',
     shortDescription:
@@ -113,6 +160,120 @@ export const MODEL_CONTENT: Record<string, ModelContent> = {
       'D. Biolek, Z. Biolek, and V. Biolkova, "SPICE Model of Memristor with Nonlinear Dopant Drift," Radioengineering, vol. 18, no. 2, pp. 210-214, Jun. 2009.',
     ],
   },
+  team: {
+    name: 'TEAM Model',
+    shortDescription:
+      'Kvatinsky\'s ThrEshold Adaptive Memristor model: a general behavioural ' +
+      'model in which the state only moves once the device current exceeds a ' +
+      'threshold.',
+    fullDescription:
+      'TEAM was introduced as a simple, computationally efficient replacement for ' +
+      'physics-based models such as Pickett\'s tunnelling-barrier model. The state ' +
+      'variable w is the width of the insulating gap (w = 0 is fully ON); it is ' +
+      'frozen while the current stays between the thresholds i_on < 0 < i_off and ' +
+      'moves with a polynomial dependence on the overdrive beyond them.\n\n' +
+      'The I-V relationship can be linear in w (as in the HP Labs model) or ' +
+      'exponential, which better describes tunnelling-gap devices. Two exponential ' +
+      'window functions f_on and f_off bring state motion to a soft stop near the ' +
+      'physical bounds a_on and a_off.\n\n' +
+      'In this simulator the normalised state is x = 1 − w/D so that, as in the ' +
+      'other models, x = 1 is the low-resistance state. Note that in Kvatinsky\'s ' +
+      'convention positive current drives the device OFF.',
+    equations: [
+      {
+        latex: '\\frac{dw}{dt} = \\begin{cases} k_{\\mathrm{off}} \\left(\\frac{i}{i_{\\mathrm{off}}} - 1\\right)^{\\alpha_{\\mathrm{off}}} f_{\\mathrm{off}}(w) & 0 < i_{\\mathrm{off}} < i \\\\ 0 & i_{\\mathrm{on}} < i < i_{\\mathrm{off}} \\\\ k_{\\mathrm{on}} \\left(\\frac{i}{i_{\\mathrm{on}}} - 1\\right)^{\\alpha_{\\mathrm{on}}} f_{\\mathrm{on}}(w) & i < i_{\\mathrm{on}} < 0 \\end{cases}',
+        label: 'State Evolution',
+      },
+      {
+        latex: 'V = \\left[R_{\\mathrm{ON}} + \\frac{R_{\\mathrm{OFF}} - R_{\\mathrm{ON}}}{D}\\, w\\right] i',
+        label: 'Linear I-V',
+      },
+      {
+        latex: 'V = R_{\\mathrm{ON}}\\, e^{\\lambda w / D}\\, i, \\qquad \\lambda = \\ln\\frac{R_{\\mathrm{OFF}}}{R_{\\mathrm{ON}}}',
+        label: 'Exponential I-V',
+      },
+      {
+        latex: 'f_{\\mathrm{off}}(w) = e^{-e^{(w - a_{\\mathrm{off}})/w_c}} \\qquad f_{\\mathrm{on}}(w) = e^{-e^{-(w - a_{\\mathrm{on}})/w_c}}',
+        label: 'Window Functions',
+      },
+    ],
+    references: [
+      'S. Kvatinsky, E. G. Friedman, A. Kolodny, and U. C. Weiser, "TEAM: ThrEshold Adaptive Memristor Model," IEEE Transactions on Circuits and Systems I, vol. 60, no. 1, pp. 211-221, Jan. 2013.',
+      'M. D. Pickett, D. B. Strukov, J. L. Borghetti, J. J. Yang, G. S. Snider, D. R. Stewart, and R. S. Williams, "Switching dynamics in titanium dioxide memristive devices," Journal of Applied Physics, vol. 106, 074508, 2009.',
+    ],
+  },
+
+  vteam: {
+    name: 'VTEAM Model',
+    shortDescription:
+      'The voltage-controlled counterpart of TEAM: the state only moves once the ' +
+      'applied voltage exceeds a threshold.',
+    fullDescription:
+      'Most measured oxide memristors show a voltage rather than a current ' +
+      'threshold, so VTEAM replaces the current gating of TEAM with thresholds ' +
+      'v_on < 0 < v_off on the applied voltage. Below threshold the state is ' +
+      'perfectly retained; above it the gap moves with a polynomial dependence on ' +
+      'the voltage overdrive.\n\n' +
+      'VTEAM shares TEAM\'s linear and exponential I-V relationships and its ' +
+      'exponential window functions, and the same normalisation x = 1 − w/D is ' +
+      'used here. Because the state equation does not depend on the current, the ' +
+      'I-V relationship can be changed without affecting the switching dynamics.',
+    equations: [
+      {
+        latex: '\\frac{dw}{dt} = \\begin{cases} k_{\\mathrm{off}} \\left(\\frac{V}{v_{\\mathrm{off}}} - 1\\right)^{\\alpha_{\\mathrm{off}}} f_{\\mathrm{off}}(w) & 0 < v_{\\mathrm{off}} < V \\\\ 0 & v_{\\mathrm{on}} < V < v_{\\mathrm{off}} \\\\ k_{\\mathrm{on}} \\left(\\frac{V}{v_{\\mathrm{on}}} - 1\\right)^{\\alpha_{\\mathrm{on}}} f_{\\mathrm{on}}(w) & V < v_{\\mathrm{on}} < 0 \\end{cases}',
+        label: 'State Evolution',
+      },
+      {
+        latex: 'i = \\frac{V}{R(w)}, \\quad R(w) = \\begin{cases} R_{\\mathrm{ON}} + (R_{\\mathrm{OFF}} - R_{\\mathrm{ON}})\\, w/D & \\text{linear} \\\\ R_{\\mathrm{ON}}\\, e^{\\lambda w / D} & \\text{exponential} \\end{cases}',
+        label: 'I-V Relationship',
+      },
+      {
+        latex: 'f_{\\mathrm{off}}(w) = e^{-e^{(w - a_{\\mathrm{off}})/w_c}} \\qquad f_{\\mathrm{on}}(w) = e^{-e^{-(w - a_{\\mathrm{on}})/w_c}}',
+        label: 'Window Functions',
+      },
+    ],
+    references: [
+      'S. Kvatinsky, M. Ramadan, E. G. Friedman, and A. Kolodny, "VTEAM: A General Model for Voltage-Controlled Memristors," IEEE Transactions on Circuits and Systems II, vol. 62, no. 8, pp. 786-790, Aug. 2015.',
+      'S. Kvatinsky, E. G. Friedman, A. Kolodny, and U. C. Weiser, "TEAM: ThrEshold Adaptive Memristor Model," IEEE Transactions on Circuits and Systems I, vol. 60, no. 1, pp. 211-221, Jan. 2013.',
+    ],
+  },
+
+  stanford: {
+    name: 'Stanford/ASU RRAM Model',
+    shortDescription:
+      'A physical model of filamentary oxide RRAM whose state is the tunnelling ' +
+      'gap between the conductive filament and the electrode.',
+    fullDescription:
+      'In filamentary RRAM (HfOx, TaOx, …) a conductive filament of oxygen ' +
+      'vacancies forms through the oxide. Its resistance is dominated by the small ' +
+      'tunnelling gap g that remains between the filament tip and the top electrode, ' +
+      'so the current falls exponentially with g and rises as sinh(V/V₀).\\n\\n' +
+      'The gap changes by thermally activated hopping of vacancies, with the ' +
+      'migration barrier lowered by the local field. The field enhancement γ is ' +
+      'largest for a short gap and weakens as the gap widens, which makes SET abrupt ' +
+      'and RESET gradual. Positive voltage shrinks the gap (SET) and negative voltage ' +
+      'widens it (RESET) until the limits g_min and g_max are reached.\\n\\n' +
+      'The state is the physical gap in nanometres rather than a normalised x, so a ' +
+      'small value here means a low-resistance device.',
+    equations: [
+      {
+        latex: 'I = I_0\\, e^{-g/g_0} \\sinh\\!\\left(\\frac{V}{V_0}\\right)',
+        label: 'I-V Relationship',
+      },
+      {
+        latex: '\\frac{dg}{dt} = -\\nu_0\\, e^{-E_a/kT} \\sinh\\!\\left(\\frac{\\gamma\\, a_0\\, qV}{t_{\\mathrm{ox}}\\, kT}\\right)',
+        label: 'Gap Evolution',
+      },
+      {
+        latex: '\\gamma = \\gamma_0 - \\beta \\left(\\frac{g}{g_1}\\right)^3, \\qquad g_{\\min} \\le g \\le g_{\\max}',
+        label: 'Field Enhancement',
+      },
+    ],
+    references: [
+      'X. Guan, S. Yu, and H.-S. P. Wong, "A SPICE Compact Model of Metal Oxide Resistive Switching Memory With Variations," IEEE Electron Device Letters, vol. 33, no. 10, pp. 1405-1407, Oct. 2012.',
+      'P.-Y. Chen and S. Yu, "Compact Modeling of RRAM Devices and Its Applications in 1T1R and 1S1R Array Design," IEEE Transactions on Electron Devices, vol. 62, no. 12, pp. 4022-4028, Dec. 2015.',
+    ],
+  },
 };
 
 /** What is a memristor? */
@@ -5,9 +5,18 @@
 /** Human-readable names for parameter groups. */
 export const GROUP_LABELS: Record<string, string> = {
   iv: 'I-V Relationship',
+  iv_on: 'ON-State I-V',
+  iv_off: 'OFF-State I-V',
   threshold: 'Threshold Voltages',
   state: 'State Variable Dynamics',
   device: 'Device Physics',
+  window: 'Window Function',
+  conduction: 'Tunnelling Conduction',
+  kinetics: 'Gap Kinetics',
+  gap: 'Gap Limits',
+  thermal: 'Electro-Thermal',
+  relaxation: 'State Relaxation',
+  custom: 'Custom Parameters',
 };
 
 /** Brief descriptions of what each parameter group controls. */
@@ -16,6 +25,12 @@ export const GROUP_DESCRIPTIONS: Record<string, string> = {
     'Parameters controlling the shape and magnitude of the current-voltage ' +
     'curve. These relate to the dielectric layer properties and the balance ' +
     'between Ohmic and tunneling conduction.',
+  iv_on:
+    'Forward- and reverse-bias fit of the fully-SET (x = 1) I-V curve. ' +
+    'The device current is a state-weighted mix of the ON and OFF branches.',
+  iv_off:
+    'Forward- and reverse-bias fit of the fully-RESET (x = 0) I-V curve. ' +
+    'Sets the high-resistance read current and its nonlinearity.',
   threshold:
     'Voltage thresholds and switching speeds. The device state only changes ' +
     'when the applied voltage exceeds these thresholds, and the A parameters ' +
@@ -27,4 +42,25 @@ export const GROUP_DESCRIPTIONS: Record<string, string> = {
   device:
     'Physical device parameters: film thickness, resistance states, and ' +
     'ion mobility. These are directly measurable material properties.',
+  window:
+    'Positions and softness of the boundary windows that stop the state ' +
+    'variable at the physical limits of the device.',
+  conduction:
+    'Tunnelling current through the gap between the filament tip and the ' +
+    'electrode. The current falls exponentially with gap length and rises ' +
+    'as sinh of the applied voltage.',
+  kinetics:
+    'Thermally activated, field-enhanced migration of oxygen vacancies that ' +
+    'grows or dissolves the filament. The activation energy and temperature ' +
+    'set the time scale; the field terms set the voltage dependence.',
+  gap:
+    'Physical limits of the tunnelling gap, which fix the low- and ' +
+    'high-resistance states.',
+  thermal:
+    'Joule heating of the device and its thermal path to the ambient. The ' +
+    'device temperature accelerates switching through Arrhenius-scaled ' +
+    'rate parameters.',
+  relaxation:
+    'Spontaneous decay of the state towards its rest value when the drive ' +
+    'is removed, which limits retention in volatile devices.',
 };
@@ -0,0 +1,111 @@
+/**
+ * Current-driven operation.
+ *
+ * With a current source the signal generators produce I(t) and the device
+ * voltage is whatever drives that current at the present state:
+ *
+ *   V(t) = I⁻¹(I(t), x)
+ *
+ * Models with a closed-form inverse provide `voltage()` (HP Labs:
+ * V = I·R(x)); all others are inverted numerically by bracketing the
+ * root of I(V, x) − I(t) on a geometrically growing voltage range.
+ *
+ * Like a real SMU in current mode, the source has a voltage compliance:
+ * if the device cannot carry the set current within ±V_cc (e.g. a
+ * Yakopcic device at x = 0 conducts nothing), the voltage is clamped and
+ * the current falls short of the set value.
+ */
+
+import type {
+  IVBranchFunctions,
+  ParamValues,
+  VectorMemristorModel,
+} from './models/types.ts';
+import { findRoot } from './roots.ts';
+
+/** Whether the signal is a voltage or a current. */
+export type DriveMode = 'voltage' | 'current';
+
+export const DRIVE_OPTIONS: { value: DriveMode; label: string }[] = [
+  { value: 'voltage', label: 'Voltage' },
+  { value: 'current', label: 'Current' },
+];
+
+/** Voltage compliance (V) of the current source unless configured. */
+export const DEFAULT_VOLTAGE_COMPLIANCE = 10;
+
+/** Smallest voltage of the numerical bracket search. */
+const BRACKET_START = 1e-3;
+
+/** Solved device state under current drive. */
+export interface DrivenPoint {
+  voltage: number;
+  /** Actual current; below the set value when `limited`. */
+  current: number;
+  /** Whether the voltage compliance is clamping the device voltage. */
+  limited: boolean;
+}
+
+/** Solve the device voltage that carries the set current `iSet`. */
+export function drivenPoint(
+  model: VectorMemristorModel,
+  iSet: number,
+  x: ArrayLike<number>,
+  p: ParamValues,
+  voltageCompliance: number,
+  iv?: IVBranchFunctions,
+): DrivenPoint {
+  if (iSet === 0) return { voltage: 0, current: 0, limited: false };
+  const current = (v: number) => model.current(v, x, p, iv);
+  const sign = Math.sign(iSet);
+  const limit = sign * voltageCompliance;
+
+  let v: number;
+  if (model.voltage) {
+    v = model.voltage(iSet, x, p, iv);
+  } else {
+    // Grow the bracket until it encloses the set current or hits compliance
+    let lo = 0;
+    let hi = sign * Math.min(BRACKET_START, voltageCompliance);
+    while (sign * current(hi) < sign * iSet && Math.abs(hi) < voltageCompliance) {
+      lo = hi;
+      hi = sign * Math.min(2 * Math.abs(hi), voltageCompliance);
+    }
+    v = findRoot((u) => current(u) - iSet, lo, hi);
+  }
+
+  if (!(Math.abs(v) < voltageCompliance)) {
+    return { voltage: limit, current: current(limit), limited: true };
+  }
+  return { voltage: v, current: iSet, limited: false };
+}
+
+/**
+ * Drive a model with a current source.
+ *
+ * The returned model takes the set current in place of the voltage: its
+ * state equation sees the solved device voltage, and `current()` returns
+ * the current actually delivered. It must be the outermost wrapper so the
+ * electro-thermal subsystem heats with the device power. `iv` must be the
+ * branch functions used for the current.
+ */
+export function withCurrentDrive(
+  model: VectorMemristorModel,
+  voltageCompliance: number,
+  iv?: IVBranchFunctions,
+): VectorMemristorModel {
+  return {
+    ...model,
+    voltage: undefined,
+    jacobian: undefined,
+
+    current(i, x, p, branches) {
+      return drivenPoint(model, i, x, p, voltageCompliance, branches).current;
+    },
+
+    dxdt(t, x, iFunc, p, windowFunc) {
+      const v = drivenPoint(model, iFunc(t), x, p, voltageCompliance, iv).voltage;
+      return model.dxdt(t, x, () => v, p, windowFunc);
+    },
+  };
+}
@@ -0,0 +1,426 @@
+/**
+ * Safe arithmetic expression language for user-defined models.
+ *
+ * Expressions typed into the custom-model editor are tokenised and parsed
+ * by a small recursive-descent parser into an expression tree, which is
+ * then compiled into nested closures. Nothing is ever passed to eval() or
+ * the Function constructor, so an expression can only compute a number
+ * from the variables and functions listed here.
+ *
+ * Grammar, lowest precedence first:
+ *
+ *   comparison  := additive (("<" | "<=" | ">" | ">=" | "==" | "!=") additive)?
+ *   additive    := product (("+" | "-") product)*
+ *   product     := unary (("*" | "/") unary)*
+ *   unary       := ("-" | "+") unary | power
+ *   power       := atom ("^" unary)?            (right-associative)
+ *   atom        := number | name | name "(" args ")" | "(" comparison ")"
+ *
+ * Comparisons evaluate to 1 or 0, so thresholds can be written either as
+ * if(V > Vp, …, 0) or as (V > Vp)·(…).
+ */
+
+export type ExpressionNode =
+  | { type: 'number'; value: number }
+  | { type: 'variable'; name: string }
+  | { type: 'unary'; op: '-'; arg: ExpressionNode }
+  | { type: 'binary'; op: BinaryOperator; left: ExpressionNode; right: ExpressionNode }
+  | { type: 'call'; name: string; args: ExpressionNode[] };
+
+type BinaryOperator = '+' | '-' | '*' | '/' | '^' | '<' | '<=' | '>' | '>=' | '==' | '!=';
+
+interface FunctionInfo {
+  arity: number;
+  evaluate: (...args: number[]) => number;
+  latex: (args: string[]) => string;
+}
+
+/** Functions callable from expressions. */
+const FUNCTIONS: Record<string, FunctionInfo> = {
+  sin: unary(Math.sin, '\\sin'),
+  cos: unary(Math.cos, '\\cos'),
+  tan: unary(Math.tan, '\\tan'),
+  sinh: unary(Math.sinh, '\\sinh'),
+  cosh: unary(Math.cosh, '\\cosh'),
+  tanh: unary(Math.tanh, '\\tanh'),
+  asinh: unary(Math.asinh, '\\operatorname{asinh}'),
+  exp: unary(Math.exp, '\\exp'),
+  log: unary(Math.log, '\\ln'),
+  ln: unary(Math.log, '\\ln'),
+  log10: unary(Math.log10, '\\log_{10}'),
+  sign: unary(Math.sign, '\\operatorname{sgn}'),
+  sqrt: { arity: 1, evaluate: Math.sqrt, latex: ([a]) => `\\sqrt{${a}}` },
+  abs: { arity: 1, evaluate: Math.abs, latex: ([a]) => `\\left|${a}\\right|` },
+  step: {
+    arity: 1,
+    evaluate: (a) => (a >= 0 ? 1 : 0),
+    latex: ([a]) => `\\theta\\left(${a}\\right)`,
+  },
+  min: { arity: 2, evaluate: Math.min, latex: ([a, b]) => `\\min\\left(${a}, ${b}\\right)` },
+  max: { arity: 2, evaluate: Math.max, latex: ([a, b]) => `\\max\\left(${a}, ${b}\\right)` },
+  pow: { arity: 2, evaluate: Math.pow, latex: ([a, b]) => `\\left(${a}\\right)^{${b}}` },
+  if: {
+    arity: 3,
+    evaluate: (c, a, b) => (c !== 0 ? a : b),
+    latex: ([c, a, b]) =>
+      `\\begin{cases} ${a} & ${c} \\\\ ${b} & \\text{otherwise} \\end{cases}`,
+  },
+};
+
+/** Named constants usable in expressions. */
+const CONSTANTS: Record<string, { value: number; latex: string }> = {
+  pi: { value: Math.PI, latex: '\\pi' },
+  e: { value: Math.E, latex: 'e' },
+};
+
+/** Names that cannot be used for parameters or variables. */
+export const RESERVED_NAMES: ReadonlySet<string> = new Set([
+  ...Object.keys(FUNCTIONS),
+  ...Object.keys(CONSTANTS),
+]);
+
+/** Names of the callable functions, for help text. */
+export const FUNCTION_NAMES: readonly string[] = Object.keys(FUNCTIONS);
+
+/**
+ * The function or constant of that name. Only the tables' own entries
+ * count, so names inherited from Object.prototype (toString,
+ * constructor, …) stay unknown.
+ */
+function functionNamed(name: string): FunctionInfo | undefined {
+  return Object.hasOwn(FUNCTIONS, name) ? FUNCTIONS[name] : undefined;
+}
+
+function constantNamed(name: string): { value: number; latex: string } | undefined {
+  return Object.hasOwn(CONSTANTS, name) ? CONSTANTS[name] : undefined;
+}
+
+function unary(fn: (a: number) => number, command: string): FunctionInfo {
+  return { arity: 1, evaluate: fn, latex: ([a]) => `${command}\\left(${a}\\right)` };
+}
+
+// ─── Tokeniser ───
+
+type Token =
+  | { kind: 'number'; value: number; pos: number }
+  | { kind: 'name'; value: string; pos: number }
+  | { kind: 'op'; value: string; pos: number }
+  | { kind: 'end'; pos: number };
+
+const NUMBER_RE = /^(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/;
+const NAME_RE = /^[A-Za-z_][A-Za-z0-9_]*/;
+const OPERATORS = ['<=', '>=', '==', '!=', '+', '-', '*', '/', '^', '<', '>', '(', ')', ','];
+
+function tokenise(source: string): Token[] {
+  const tokens: Token[] = [];
+  let pos = 0;
+  while (pos < source.length) {
+    const rest = source.slice(pos);
+    const space = /^\s+/.exec(rest);
+    if (space) {
+      pos += space[0].length;
+      continue;
+    }
+    const number = NUMBER_RE.exec(rest);
+    if (number) {
+      tokens.push({ kind: 'number', value: parseFloat(number[0]), pos });
+      pos += number[0].length;
+      continue;
+    }
+    const name = NAME_RE.exec(rest);
+    if (name) {
+      tokens.push({ kind: 'name', value: name[0], pos });
+      pos += name[0].length;
+      continue;
+    }
+    const op = OPERATORS.find((o) => rest.startsWith(o));
+    if (!op) throw new Error(`Unexpected character '${rest[0]}' at position ${pos + 1}`);
+    tokens.push({ kind: 'op', value: op, pos });
+    pos += op.length;
+  }
+  tokens.push({ kind: 'end', pos });
+  return tokens;
+}
+
+// ─── Parser ───
+
+/**
+ * Parse an expression into a tree. Throws an Error naming the position
+ * of the first syntax error, unknown function or wrong argument count.
+ */
+export function parseExpression(source: string): ExpressionNode {
+  const tokens = tokenise(source);
+  let index = 0;
+
+  const peek = (): Token => tokens[index];
+  const isOp = (value: string): boolean => {
+    const token = peek();
+    return token.kind === 'op' && token.value === value;
+  };
+  const describe = (token: Token): string =>
+    token.kind === 'end' ? 'end of expression' : `'${token.value}' at position ${token.pos + 1}`;
+  const expect = (value: string): void => {
+    if (!isOp(value)) throw new Error(`Expected '${value}' but found ${describe(peek())}`);
+    index++;
+  };
+
+  const comparison = (): ExpressionNode => {
+    const left = additive();
+    for (const op of ['<=', '>=', '==', '!=', '<', '>'] as const) {
+      if (isOp(op)) {
+        index++;
+        return { type: 'binary', op, left, right: additive() };
+      }
+    }
+    return left;
+  };
+
+  const additive = (): ExpressionNode => {
+    let node = product();
+    while (isOp('+') || isOp('-')) {
+      const op = (tokens[index++] as { value: '+' | '-' }).value;
+      node = { type: 'binary', op, left: node, right: product() };
+    }
+    return node;
+  };
+
+  const product = (): ExpressionNode => {
+    let node = unaryExpr();
+    while (isOp('*') || isOp('/')) {
+      const op = (tokens[index++] as { value: '*' | '/' }).value;
+      node = { type: 'binary', op, left: node, right: unaryExpr() };
+    }
+    return node;
+  };
+
+  const unaryExpr = (): ExpressionNode => {
+    if (isOp('-')) {
+      index++;
+      return { type: 'unary', op: '-', arg: unaryExpr() };
+    }
+    if (isOp('+')) {
+      index++;
+      return unaryExpr();
+    }
+    return power();
+  };
+
+  const power = (): ExpressionNode => {
+    const base = atom();
+    if (isOp('^')) {
+      index++;
+      return { type: 'binary', op: '^', left: base, right: unaryExpr() };
+    }
+    return base;
+  };
+
+  const atom = (): ExpressionNode => {
+    const token = peek();
+    if (token.kind === 'number') {
+      index++;
+      return { type: 'number', value: token.value };
+    }
+    if (token.kind === 'name') {
+      index++;
+      if (!isOp('(')) return { type: 'variable', name: token.value };
+
+      const fn = functionNamed(token.value);
+      if (!fn) throw new Error(`Unknown function '${token.value}' at position ${token.pos + 1}`);
+      index++;
+      const args: ExpressionNode[] = [];
+      if (!isOp(')')) {
+        args.push(comparison());
+        while (isOp(',')) {
+          index++;
+          args.push(comparison());
+        }
+      }
+      expect(')');
+      if (args.length !== fn.arity) {
+        throw new Error(
+          `${token.value}() takes ${fn.arity} argument${fn.arity === 1 ? '' : 's'}, ` +
+          `got ${args.length}`,
+        );
+      }
+      return { type: 'call', name: token.value, args };
+    }
+    if (isOp('(')) {
+      index++;
+      const inner = comparison();
+      expect(')');
+      return inner;
+    }
+    throw new Error(`Unexpected ${describe(token)}`);
+  };
+
+  if (peek().kind === 'end') throw new Error('Expression is empty');
+  const tree = comparison();
+  if (peek().kind !== 'end') throw new Error(`Unexpected ${describe(peek())}`);
+  return tree;
+}
+
+/** Names of the variables (not constants or functions) an expression reads. */
+export function expressionVariables(node: ExpressionNode): Set<string> {
+  const names = new Set<string>();
+  const visit = (n: ExpressionNode): void => {
+    switch (n.type) {
+      case 'variable':
+        if (!constantNamed(n.name)) names.add(n.name);
+        break;
+      case 'unary':
+        visit(n.arg);
+        break;
+      case 'binary':
+        visit(n.left);
+        visit(n.right);
+        break;
+      case 'call':
+        n.args.forEach(visit);
+        break;
+    }
+  };
+  visit(node);
+  return names;
+}
+
+// ─── Compiler ───
+
+/** A compiled expression reading its variables from a value array. */
+export type CompiledExpression = (values: ArrayLike<number>) => number;
+
+/**
+ * Compile an expression tree into a function of `values`, where
+ * values[k] is the value of variables[k]. Throws if the expression reads
+ * a variable that is not in the list.
+ */
+export function compileExpression(
+  node: ExpressionNode,
+  variables: readonly string[],
+): CompiledExpression {
+  switch (node.type) {
+    case 'number': {
+      const value = node.value;
+      return () => value;
+    }
+    case 'variable': {
+      const k = variables.indexOf(node.name);
+      if (k >= 0) return (values) => values[k];
+      const constant = constantNamed(node.name);
+      if (!constant) throw new Error(`Unknown name '${node.name}'`);
+      const value = constant.value;
+      return () => value;
+    }
+    case 'unary': {
+      const arg = compileExpression(node.arg, variables);
+      return (values) => -arg(values);
+    }
+    case 'binary': {
+      const a = compileExpression(node.left, variables);
+      const b = compileExpression(node.right, variables);
+      switch (node.op) {
+        case '+': return (values) => a(values) + b(values);
+        case '-': return (values) => a(values) - b(values);
+        case '*': return (values) => a(values) * b(values);
+        case '/': return (values) => a(values) / b(values);
+        case '^': return (values) => Math.pow(a(values), b(values));
+        case '<': return (values) => (a(values) < b(values) ? 1 : 0);
+        case '<=': return (values) => (a(values) <= b(values) ? 1 : 0);
+        case '>': return (values) => (a(values) > b(values) ? 1 : 0);
+        case '>=': return (values) => (a(values) >= b(values) ? 1 : 0);
+        case '==': return (values) => (a(values) === b(values) ? 1 : 0);
+        case '!=': return (values) => (a(values) !== b(values) ? 1 : 0);
+      }
+      break;
+    }
+    case 'call': {
+      const fn = functionNamed(node.name)!;
+      const args = node.args.map((arg) => compileExpression(arg, variables));
+      if (node.name === 'if') {
+        // Only the taken branch is evaluated
+        const [c, a, b] = args;
+        return (values) => (c(values) !== 0 ? a(values) : b(values));
+      }
+      if (args.length === 1) {
+        const [a] = args;
+        const f = fn.evaluate;
+        return (values) => f(a(values));
+      }
+      const [a, b] = args;
+      const f = fn.evaluate;
+      return (values) => f(a(values), b(values));
+    }
+  }
+  throw new Error('Invalid expression tree');
+}
+
+// ─── LaTeX rendering ───
+
+/** Binding strength of each node, for deciding where parentheses go. */
+function precedence(node: ExpressionNode): number {
+  switch (node.type) {
+    case 'binary':
+      if (node.op === '+' || node.op === '-') return 2;
+      if (node.op === '*' || node.op === '/') return 3;
+      if (node.op === '^') return 5;
+      return 1;
+    case 'unary':
+      return 4;
+    default:
+      return 6;
+  }
+}
+
+const LATEX_OPERATORS: Record<string, string> = {
+  '<': '<', '<=': '\\le', '>': '>', '>=': '\\ge', '==': '=', '!=': '\\ne',
+};
+
+/**
+ * Render an expression as LaTeX. `symbols` maps variable names to their
+ * LaTeX symbols; other names are set in roman (multi-letter) or italic
+ * (single-letter) type.
+ */
+export function expressionToLatex(
+  node: ExpressionNode,
+  symbols: Record<string, string> = {},
+): string {
+  const render = (n: ExpressionNode): string => expressionToLatex(n, symbols);
+  const wrap = (n: ExpressionNode, minPrecedence: number): string =>
+    precedence(n) < minPrecedence ? `\\left(${render(n)}\\right)` : render(n);
+
+  switch (node.type) {
+    case 'number':
+      return numberToLatex(node.value);
+    case 'variable':
+      if (Object.hasOwn(symbols, node.name) && symbols[node.name]) return symbols[node.name];
+      if (constantNamed(node.name)) return constantNamed(node.name)!.latex;
+      return node.name.length === 1 ? node.name : `\\mathrm{${node.name.replace(/_/g, '\\_')}}`;
+    case 'unary':
+      return `-${wrap(node.arg, 3)}`;
+    case 'call':
+      return functionNamed(node.name)!.latex(node.args.map(render));
+    case 'binary':
+      switch (node.op) {
+        case '+':
+          return `${render(node.left)} + ${wrap(node.right, 2)}`;
+        case '-':
+          return `${render(node.left)} - ${wrap(node.right, 3)}`;
+        case '*':
+          return `${wrap(node.left, 3)} \\cdot ${wrap(node.right, 4)}`;
+        case '/':
+          return `\\frac{${render(node.left)}}{${render(node.right)}}`;
+        case '^':
+          return `${wrap(node.left, 6)}^{${render(node.right)}}`;
+        default:
+          return `${render(node.left)} ${LATEX_OPERATORS[node.op]} ${render(node.right)}`;
+      }
+  }
+}
+
+function numberToLatex(value: number): string {
+  if (value !== 0 && (Math.abs(value) >= 1e4 || Math.abs(value) < 1e-3)) {
+    const [mantissa, exponent] = value.toExponential().split('e');
+    const exp = parseInt(exponent, 10);
+    return mantissa === '1' ? `10^{${exp}}` : `${mantissa} \\times 10^{${exp}}`;
+  }
+  return String(value);
+}
@@ -0,0 +1,279 @@
+/**
+ * Conduction-mechanism (I-V shape) library.
+ *
+ * Models that describe their current as a mix of ON/OFF branches declare
+ * those branches in `ivBranches`; the conduction mechanism of each branch
+ * is chosen here at simulation time. Every shape contributes its own
+ * ParameterInfo entries, so switching shape regenerates the sliders.
+ *
+ * Parameter names are templates in which `$` is replaced by the branch tag
+ * (e.g. "g$_p" → "gmax_p" on the ON branch, "gmin_p" on the OFF branch).
+ * Shapes that share a template name (mim/schottky both use g$, b$) keep
+ * their values when the user switches between them.
+ *
+ * Ported from fit_yakopcic.py:mim_iv, schottky_iv, quadratic_iv, cubic_iv,
+ * mim_mim_iv, mim_mim_quad_iv and mim_cub_iv.
+ */
+
+import type {
+  IVBranchFunctions,
+  IVBranchInfo,
+  IVFunction,
+  MemristorModelBase,
+  ParameterInfo,
+  ParamValues,
+} from './models/types.ts';
+
+export type IVShapeType =
+  | 'mim'
+  | 'mim_mim'
+  | 'schottky'
+  | 'ohmic'
+  | 'quadratic'
+  | 'cubic'
+  | 'mim_mim_quad'
+  | 'mim_cub';
+
+/** Selected shape per branch key; unselected branches use their default. */
+export type IVShapeSelection = Partial<Record<string, IVShapeType>>;
+
+/** A shape parameter template; `$` in name/symbol is replaced per branch. */
+type ShapeParameter = Omit<ParameterInfo, 'group'>;
+
+interface IVShapeDefinition {
+  label: string;
+  /** LaTeX for h(V); `$` is replaced by the branch symbol tag. */
+  latex: string;
+  parameters: ShapeParameter[];
+  /** Evaluate the shape given its parameter values in template order. */
+  evaluate(v: number, c: number[]): number;
+}
+
+const G_P: ShapeParameter = {
+  name: 'g$_p', symbol: 'g_{$,p}', default: 1e-4,
+  min: 1e-10, max: 1e-2, step: 1e-10, unit: 'A',
+  description: 'Forward-bias (V ≥ 0) current amplitude of the sinh fit.',
+};
+const B_P: ShapeParameter = {
+  name: 'b$_p', symbol: 'b_{$,p}', default: 5,
+  min: 0.01, max: 20, step: 0.01, unit: 'V^{-1}',
+  description: 'Forward-bias (V ≥ 0) curvature of the sinh fit.',
+};
+const G_N: ShapeParameter = {
+  name: 'g$_n', symbol: 'g_{$,n}', default: 1e-4,
+  min: 1e-10, max: 1e-2, step: 1e-10, unit: 'A',
+  description: 'Reverse-bias (V < 0) current amplitude of the sinh fit.',
+};
+const B_N: ShapeParameter = {
+  name: 'b$_n', symbol: 'b_{$,n}', default: 3,
+  min: 0.01, max: 20, step: 0.01, unit: 'V^{-1}',
+  description: 'Reverse-bias (V < 0) curvature of the sinh fit.',
+};
+
+/** Polynomial coefficient c_k (A / V^k). */
+function coefficient(k: number, def: number): ShapeParameter {
+  return {
+    name: `c${k}$`, symbol: `c_{${k},$}`, default: def,
+    min: -1e-1, max: 1e-1, step: 1e-9,
+    unit: k === 0 ? 'A' : k === 1 ? 'A\\,V^{-1}' : `A\\,V^{-${k}}`,
+    description:
+      k === 0
+        ? 'Constant term of the polynomial fit (offset current).'
+        : `Coefficient of V^${k} in the polynomial fit.`,
+  };
+}
+
+const SHAPES: Record<IVShapeType, IVShapeDefinition> = {
+  mim: {
+    label: 'MIM tunnelling',
+    latex: 'g_{$} \\sinh(b_{$} V)',
+    parameters: [
+      {
+        name: 'g$', symbol: 'g_{$}', default: 1e-4,
+        min: 1e-10, max: 1e-2, step: 1e-10, unit: 'A',
+        description:
+          'Tunnelling current amplitude. Thinner barriers give a larger ' +
+          'amplitude.',
+      },
+      {
+        name: 'b$', symbol: 'b_{$}', default: 5,
+        min: 0.01, max: 20, step: 0.01, unit: 'V^{-1}',
+        description:
+          'Tunnelling curvature. Sets how quickly conduction departs ' +
+          'from Ohmic behaviour.',
+      },
+    ],
+    evaluate: (v, [g, b]) => g * Math.sinh(b * v),
+  },
+  mim_mim: {
+    label: 'MIM tunnelling (asymmetric)',
+    latex:
+      '\\begin{cases} g_{$,p} \\sinh(b_{$,p} V) & V \\geq 0 \\\\ ' +
+      'g_{$,n} \\sinh(b_{$,n} V) & V < 0 \\end{cases}',
+    parameters: [G_P, B_P, G_N, B_N],
+    evaluate: (v, [gp, bp, gn, bn]) =>
+      v >= 0 ? gp * Math.sinh(bp * v) : gn * Math.sinh(bn * v),
+  },
+  schottky: {
+    label: 'Schottky emission',
+    latex: 'g_{$} \\left(e^{b_{$} V} - 1\\right)',
+    parameters: [
+      {
+        name: 'g$', symbol: 'g_{$}', default: 1e-4,
+        min: 1e-10, max: 1e-2, step: 1e-10, unit: 'A',
+        description:
+          'Saturation current of the thermionic-emission barrier.',
+      },
+      {
+        name: 'b$', symbol: 'b_{$}', default: 5,
+        min: 0.01, max: 40, step: 0.01, unit: 'V^{-1}',
+        description:
+          'Barrier slope q/(n·kT). Larger values give a sharper ' +
+          'rectifying turn-on.',
+      },
+    ],
+    // The −1 (absent from schottky_iv) keeps I(0) = 0 so loops stay pinched
+    evaluate: (v, [g, b]) => g * (Math.exp(b * v) - 1),
+  },
+  ohmic: {
+    label: 'Ohmic',
+    latex: 'g_{$} V',
+    parameters: [
+      {
+        name: 'g$', symbol: 'g_{$}', default: 1e-4,
+        min: 1e-10, max: 1e-2, step: 1e-10, unit: 'S',
+        description: 'Linear conductance of the branch.',
+      },
+    ],
+    evaluate: (v, [g]) => g * v,
+  },
+  quadratic: {
+    label: 'Quadratic',
+    latex: 'c_{2,$} V^2 + c_{1,$} V + c_{0,$}',
+    parameters: [coefficient(2, 0), coefficient(1, 1e-4), coefficient(0, 0)],
+    evaluate: (v, [c2, c1, c0]) => (c2 * v + c1) * v + c0,
+  },
+  cubic: {
+    label: 'Cubic',
+    latex: 'c_{3,$} V^3 + c_{2,$} V^2 + c_{1,$} V + c_{0,$}',
+    parameters: [
+      coefficient(3, 0), coefficient(2, 0), coefficient(1, 1e-4), coefficient(0, 0),
+    ],
+    evaluate: (v, [c3, c2, c1, c0]) => ((c3 * v + c2) * v + c1) * v + c0,
+  },
+  mim_mim_quad: {
+    label: 'MIM + quadratic tail',
+    latex:
+      '\\begin{cases} g_{$,p} \\sinh(b_{$,p} V) & V \\geq 0 \\\\ ' +
+      'g_{$,n} \\sinh(b_{$,n} V) & -V_{q,$} \\leq V < 0 \\\\ ' +
+      'c_{2,$} V^2 + c_{1,$} V + c_{0,$} & V < -V_{q,$} \\end{cases}',
+    parameters: [
+      G_P, B_P, G_N, B_N,
+      {
+        name: 'vq$', symbol: 'V_{q,$}', default: 2,
+        min: 0.01, max: 10, step: 0.01, unit: 'V',
+        description:
+          'Reverse-bias voltage beyond which the quadratic tail replaces ' +
+          'the sinh fit.',
+      },
+      coefficient(2, 0), coefficient(1, 1e-4), coefficient(0, 0),
+    ],
+    evaluate: (v, [gp, bp, gn, bn, vq, c2, c1, c0]) => {
+      if (v >= 0) return gp * Math.sinh(bp * v);
+      if (v >= -vq) return gn * Math.sinh(bn * v);
+      return (c2 * v + c1) * v + c0;
+    },
+  },
+  mim_cub: {
+    label: 'MIM + cubic (reverse)',
+    latex:
+      '\\begin{cases} g_{$,p} \\sinh(b_{$,p} V) & V \\geq 0 \\\\ ' +
+      'c_{3,$} V^3 + c_{2,$} V^2 + c_{1,$} V + c_{0,$} & V < 0 \\end{cases}',
+    parameters: [
+      G_P, B_P,
+      coefficient(3, 0), coefficient(2, 0), coefficient(1, 1e-4), coefficient(0, 0),
+    ],
+    evaluate: (v, [gp, bp, c3, c2, c1, c0]) =>
+      v >= 0
+        ? gp * Math.sinh(bp * v)
+        : ((c3 * v + c2) * v + c1) * v + c0,
+  },
+};
+
+/** Selectable shapes in display order. */
+export const IV_SHAPE_OPTIONS: { value: IVShapeType; label: string }[] =
+  (Object.keys(SHAPES) as IVShapeType[]).map((value) => ({
+    value,
+    label: SHAPES[value].label,
+  }));
+
+/** LaTeX for a branch current h(V) with the given shape. */
+export function ivShapeLatex(type: IVShapeType, branch: IVBranchInfo): string {
+  return SHAPES[type].latex.split('$').join(branch.symbolTag);
+}
+
+/** Concrete ParameterInfo entries for one branch with the given shape. */
+export function ivShapeParameterInfo(
+  type: IVShapeType,
+  branch: IVBranchInfo,
+): ParameterInfo[] {
+  return SHAPES[type].parameters.map((param) => {
+    const name = param.name.replace('$', branch.tag);
+    return {
+      ...param,
+      name,
+      symbol: param.symbol.replace('$', branch.symbolTag),
+      default: branch.defaults?.[name] ?? param.default,
+      description: `${branch.label} branch. ${param.description}`,
+      group: branch.group,
+    };
+  });
+}
+
+/**
+ * Create an I-V function closure for one branch with the given shape.
+ * Returns a function (v, params) → I suitable for passing to model.current.
+ */
+export function createIVFunction(
+  type: IVShapeType,
+  branch: IVBranchInfo,
+): IVFunction {
+  const shape = SHAPES[type] ?? SHAPES[branch.defaultShape];
+  const names = shape.parameters.map((param) => param.name.replace('$', branch.tag));
+  const c = new Array<number>(names.length);
+  return (v: number, p: ParamValues): number => {
+    for (let k = 0; k < names.length; k++) c[k] = p[names[k]];
+    return shape.evaluate(v, c);
+  };
+}
+
+/**
+ * Build I-V functions for every branch a model declares, falling back to
+ * each branch's default shape. Returns undefined for models without branches.
+ */
+export function createIVBranches(
+  model: MemristorModelBase,
+  shapes: IVShapeSelection = {},
+): IVBranchFunctions | undefined {
+  if (!model.ivBranches) return undefined;
+  const funcs: IVBranchFunctions = {};
+  for (const branch of model.ivBranches) {
+    funcs[branch.key] = createIVFunction(shapes[branch.key] ?? branch.defaultShape, branch);
+  }
+  return funcs;
+}
+
+/**
+ * The full parameter list of a model: the parameters contributed by the
+ * selected shape of each I-V branch, followed by the model's own.
+ */
+export function resolveParameterInfo(
+  model: MemristorModelBase,
+  shapes: IVShapeSelection = {},
+): ParameterInfo[] {
+  if (!model.ivBranches) return model.parameterInfo;
+  const branchInfo = model.ivBranches.flatMap((branch) =>
+    ivShapeParameterInfo(shapes[branch.key] ?? branch.defaultShape, branch),
+  );
+  return [...branchInfo, ...model.parameterInfo];
+}
@@ -0,0 +1,105 @@
+/**
+ * Measurement circuit: series resistance and current compliance.
+ *
+ * Real devices are measured through a source-measure unit (SMU) with
+ * contact and line resistance R_s in series, and with a current limit
+ * I_cc that protects the device while it switches ON. The device then
+ * sees only part of the source voltage V_s:
+ *
+ *   V_s = V_d + R_s · I(V_d, x)
+ *
+ * which is implicit in the device voltage V_d and is solved at every
+ * evaluation. When |I| would exceed I_cc the SMU turns into a current
+ * source: the device voltage drops until |I(V_d, x)| = I_cc, and the
+ * terminal voltage becomes V_d + R_s · I_cc.
+ */
+
+import type {
+  IVBranchFunctions,
+  ParamValues,
+  VectorMemristorModel,
+} from './models/types.ts';
+import { findRoot } from './roots.ts';
+
+/** Series resistance and compliance of the measurement circuit. */
+export interface LoadOptions {
+  /** Contact plus line resistance in series with the device (Ω). */
+  seriesResistance: number;
+  /** Current compliance (A); 0 or undefined for none. */
+  compliance?: number;
+}
+
+/** Solved state of the circuit at one instant. */
+export interface OperatingPoint {
+  /** Voltage across the device. */
+  deviceVoltage: number;
+  /** Voltage at the SMU terminals (below the set voltage under compliance). */
+  sourceVoltage: number;
+  current: number;
+  /** Whether the compliance limit is holding the current. */
+  limited: boolean;
+}
+
+/** True when the options change anything, so the wrapper can be skipped. */
+export function hasLoad(load: LoadOptions | undefined): load is LoadOptions {
+  return !!load && (load.seriesResistance > 0 || (load.compliance ?? 0) > 0);
+}
+
+/**
+ * Solve the circuit for the set voltage `vSet` and state `x`.
+ *
+ * Both solves are bracketed between 0 V and the unloaded solution, which
+ * holds for any passive device whose current has the sign of its voltage.
+ */
+export function operatingPoint(
+  model: VectorMemristorModel,
+  vSet: number,
+  x: ArrayLike<number>,
+  p: ParamValues,
+  load: LoadOptions,
+  iv?: IVBranchFunctions,
+): OperatingPoint {
+  const current = (vd: number) => model.current(vd, x, p, iv);
+  const rs = load.seriesResistance;
+
+  let vd = rs > 0 ? findRoot((v) => v + rs * current(v) - vSet, 0, vSet) : vSet;
+  let i = current(vd);
+
+  const icc = load.compliance ?? 0;
+  if (icc > 0 && Math.abs(i) > icc) {
+    const target = Math.sign(i) * icc;
+    vd = findRoot((v) => current(v) - target, 0, vd);
+    i = target;
+    return { deviceVoltage: vd, sourceVoltage: vd + rs * i, current: i, limited: true };
+  }
+  return { deviceVoltage: vd, sourceVoltage: vSet, current: i, limited: false };
+}
+
+/**
+ * Put a model behind the measurement circuit.
+ *
+ * The returned model takes the set voltage: its current is the circuit
+ * current, and its state equation sees the solved device voltage. It
+ * must be the outermost wrapper so the electro-thermal subsystem heats
+ * with the device power only. `iv` must be the branch functions used for
+ * the current.
+ */
+export function withLoad(
+  model: VectorMemristorModel,
+  load: LoadOptions,
+  iv?: IVBranchFunctions,
+): VectorMemristorModel {
+  return {
+    ...model,
+    jacobian: undefined,
+
+    current(v, x, p, branches) {
+      return operatingPoint(model, v, x, p, load, branches).current;
+    },
+
+    dxdt(t, x, vFunc, p, windowFunc) {
+      const vd = operatingPoint(model, vFunc(t), x, p, load, iv).deviceVoltage;
+      return model.dxdt(t, x, () => vd, p, windowFunc);
+    },
+  };
+}
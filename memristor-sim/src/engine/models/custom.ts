@@ -0,0 +1,281 @@
+/**
+ * User-defined memristor models.
+ *
+ * A custom model is described by plain data — two expressions and a list
+ * of parameter declarations — so it can be edited in the browser and
+ * saved as JSON. The expressions are written in the safe expression
+ * language of expression.ts:
+ *
+ *   I(V, x)         the device current, from the applied voltage V and
+ *                   the state x
+ *   dx/dt(V, x, i)  the state derivative, which may also use the current
+ *                   i = I(V, x) and the time t
+ *
+ * Both may use every declared parameter by name. A model that opts in
+ * with `window` has dx/dt multiplied by the selected window function
+ * F(x, i, v), as in the HP Labs model, with x normalised to the state
+ * bounds.
+ */
+
+import {
+  RESERVED_NAMES,
+  compileExpression,
+  expressionToLatex,
+  expressionVariables,
+  parseExpression,
+} from '../expression.ts';
+import type { ExpressionNode } from '../expression.ts';
+import { relaxationParameterInfo } from '../relaxation.ts';
+import { THERMAL_PARAMETER_INFO } from '../thermal.ts';
+import type { MemristorModel, ParameterInfo, StateVariableInfo } from './types.ts';
+
+/** A parameter declared by the user. */
+export interface CustomParameterSpec {
+  name: string;
+  /** LaTeX symbol; the name is used when empty. */
+  symbol: string;
+  default: number;
+  min: number;
+  max: number;
+  unit: string;
+  group: string;
+}
+
+/** Everything needed to rebuild a custom model; stored as JSON. */
+export interface CustomModelSpec {
+  /** Registry id, always prefixed with CUSTOM_MODEL_PREFIX. */
+  id: string;
+  name: string;
+  /** Expression for I(V, x). */
+  current: string;
+  /** Expression for dx/dt(V, x, i, t). */
+  dxdt: string;
+  parameters: CustomParameterSpec[];
+  /** Bounds and default initial value of the state x. */
+  state: { min: number; max: number; default: number };
+  /** Multiply dx/dt by the selected window function. */
+  window?: boolean;
+}
+
+/** Prefix of every custom model id, keeping them apart from built-in ids. */
+export const CUSTOM_MODEL_PREFIX = 'custom_';
+
+/** Variables available to the current expression, before the parameters. */
+const CURRENT_VARIABLES = ['V', 'x'];
+/** Variables available to the dx/dt expression, before the parameters. */
+const RATE_VARIABLES = ['V', 'x', 'i', 't'];
+
+const IDENTIFIER_RE = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * Parameters the thermal and relaxation wrappers add next to the model's
+ * own, in the same parameter record; the state bounds do not matter here.
+ */
+const WRAPPER_PARAMETER_NAMES = new Set(
+  [
+    ...THERMAL_PARAMETER_INFO,
+    ...relaxationParameterInfo(
+      { name: 'x', symbol: 'x', unit: '', description: '', min: 0, max: 1, default: 0 },
+      'stretched',
+    ),
+  ].map((p) => p.name),
+);
+
+/** Starting point for a new model: linear ion drift with a Joglekar window. */
+export const EXAMPLE_CUSTOM_MODEL: CustomModelSpec = {
+  id: `${CUSTOM_MODEL_PREFIX}example`,
+  name: 'Custom Model',
+  current: 'V / (Ron * x + Roff * (1 - x))',
+  dxdt: 'k * i * (1 - (2 * x - 1)^(2 * p))',
+  parameters: [
+    { name: 'Ron', symbol: 'R_{\\mathrm{ON}}', default: 1e3, min: 10, max: 1e5, unit: '\\Omega', group: 'device' },
+    { name: 'Roff', symbol: 'R_{\\mathrm{OFF}}', default: 1e5, min: 1e3, max: 1e7, unit: '\\Omega', group: 'device' },
+    { name: 'k', symbol: 'k', default: 1e6, min: 1e3, max: 1e9, unit: 'A^{-1} s^{-1}', group: 'state' },
+    { name: 'p', symbol: 'p', default: 1, min: 1, max: 10, unit: '', group: 'window' },
+  ],
+  state: { min: 0, max: 1, default: 0.1 },
+};
+
+/** Turn a display name into a registry id. */
+export function customModelId(name: string): string {
+  const slug = name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+  return CUSTOM_MODEL_PREFIX + (slug || 'model');
+}
+
+/**
+ * Check a specification and return every problem found, or an empty list
+ * if it can be compiled. Beyond syntax, both expressions are evaluated at
+ * the default parameters across the state range and at ±1 V, and must
+ * give finite numbers.
+ */
+export function validateCustomModel(spec: CustomModelSpec): string[] {
+  const issues: string[] = [];
+
+  if (!spec.name.trim()) issues.push('The model needs a name.');
+  if (!spec.id.startsWith(CUSTOM_MODEL_PREFIX)) issues.push(`Model id must start with '${CUSTOM_MODEL_PREFIX}'.`);
+
+  const { min, max } = spec.state;
+  if (!(Number.isFinite(min) && Number.isFinite(max) && min < max)) {
+    issues.push('State bounds need min < max.');
+  } else if (!(spec.state.default >= min && spec.state.default <= max)) {
+    issues.push('Initial state must lie within the state bounds.');
+  }
+
+  const seen = new Set<string>();
+  for (const param of spec.parameters) {
+    const label = param.name || '(unnamed)';
+    if (!IDENTIFIER_RE.test(param.name)) {
+      issues.push(`Parameter '${label}': names start with a letter and use only letters, digits and _.`);
+    } else if (RESERVED_NAMES.has(param.name) || RATE_VARIABLES.includes(param.name)) {
+      issues.push(`Parameter '${label}': the name is reserved.`);
+    } else if (WRAPPER_PARAMETER_NAMES.has(param.name)) {
+      issues.push(`Parameter '${label}': the name is taken by the thermal or relaxation parameters.`);
+    } else if (seen.has(param.name)) {
+      issues.push(`Parameter '${label}' is declared twice.`);
+    }
+    seen.add(param.name);
+    if (!(Number.isFinite(param.min) && Number.isFinite(param.max) && param.min < param.max)) {
+      issues.push(`Parameter '${label}': needs min < max.`);
+    } else if (!(param.default >= param.min && param.default <= param.max)) {
+      issues.push(`Parameter '${label}': default must lie within [min, max].`);
+    }
+  }
+
+  const names = spec.parameters.map((p) => p.name);
+  const current = parseChecked('I(V, x)', spec.current, [...CURRENT_VARIABLES, ...names], issues);
+  const rate = parseChecked('dx/dt', spec.dxdt, [...RATE_VARIABLES, ...names], issues);
+  if (!current || !rate || issues.length > 0) return issues;
+
+  // Numerical sanity check at the defaults
+  const model = buildModel(spec, current, rate);
+  const params = Object.fromEntries(spec.parameters.map((p) => [p.name, p.default]));
+  for (const x of [min, spec.state.default, max]) {
+    for (const v of [-1, 1]) {
+      if (!Number.isFinite(model.current(v, x, params))) {
+        issues.push(`I(V, x) is not finite at V = ${v} V, x = ${x} with the default parameters.`);
+        return issues;
+      }
+      if (!Number.isFinite(model.dxdt(0, x, () => v, params))) {
+        issues.push(`dx/dt is not finite at V = ${v} V, x = ${x} with the default parameters.`);
+        return issues;
+      }
+    }
+  }
+  return issues;
+}
+
+/** Compile a specification into a model. Throws if it is invalid. */
+export function compileCustomModel(spec: CustomModelSpec): MemristorModel {
+  const issues = validateCustomModel(spec);
+  if (issues.length > 0) throw new Error(issues[0]);
+  return buildModel(spec, parseExpression(spec.current), parseExpression(spec.dxdt));
+}
+
+/** LaTeX of both equations, with parameters shown by their symbols. */
+export function customModelLatex(spec: CustomModelSpec): { current: string; dxdt: string } {
+  const symbols: Record<string, string> = { V: 'V', x: 'x', i: 'i', t: 't' };
+  for (const p of spec.parameters) symbols[p.name] = p.symbol || p.name;
+  const render = (source: string): string => {
+    try {
+      return expressionToLatex(parseExpression(source), symbols);
+    } catch {
+      return '\\text{?}';
+    }
+  };
+  return {
+    current: `I = ${render(spec.current)}`,
+    dxdt: `\\frac{dx}{dt} = ${render(spec.dxdt)}`,
+  };
+}
+
+/** Parse an expression and report syntax errors and unknown names. */
+function parseChecked(
+  label: string,
+  source: string,
+  allowed: string[],
+  issues: string[],
+): ExpressionNode | null {
+  let tree: ExpressionNode;
+  try {
+    tree = parseExpression(source);
+  } catch (e) {
+    issues.push(`${label}: ${e instanceof Error ? e.message : String(e)}`);
+    return null;
+  }
+  for (const name of expressionVariables(tree)) {
+    if (!allowed.includes(name)) {
+      issues.push(`${label}: unknown name '${name}'. Declare it as a parameter.`);
+    }
+  }
+  return tree;
+}
+
+function buildModel(
+  spec: CustomModelSpec,
+  currentTree: ExpressionNode,
+  rateTree: ExpressionNode,
+): MemristorModel {
+  const names = spec.parameters.map((p) => p.name);
+  const currentExpr = compileExpression(currentTree, [...CURRENT_VARIABLES, ...names]);
+  const rateExpr = compileExpression(rateTree, [...RATE_VARIABLES, ...names]);
+
+  // Scratch value arrays: variables first, then parameters in declared order
+  const currentValues = new Float64Array(CURRENT_VARIABLES.length + names.length);
+  const rateValues = new Float64Array(RATE_VARIABLES.length + names.length);
+
+  const parameterInfo: ParameterInfo[] = spec.parameters.map((p) => ({
+    name: p.name,
+    symbol: p.symbol || p.name,
+    default: p.default,
+    min: p.min,
+    max: p.max,
+    step: sliderStep(p.min, p.max),
+    unit: p.unit,
+    group: p.group || 'custom',
+    description: `User-defined parameter of ${spec.name}.`,
+  }));
+
+  const stateInfo: StateVariableInfo = {
+    name: 'x',
+    symbol: 'x',
+    unit: '',
+    description: `State variable of ${spec.name}.`,
+    ...spec.state,
+  };
+
+  const current = (v: number, x: number, p: Record<string, number>): number => {
+    currentValues[0] = v;
+    currentValues[1] = x;
+    for (let k = 0; k < names.length; k++) currentValues[2 + k] = p[names[k]];
+    return currentExpr(currentValues);
+  };
+
+  return {
+    id: spec.id,
+    name: spec.name,
+    parameterInfo,
+    stateInfo: [stateInfo],
+    acceptsWindow: spec.window,
+
+    current,
+
+    dxdt(t, x, vFunc, p, windowFunc) {
+      const v = vFunc(t);
+      const i = current(v, x, p);
+      rateValues[0] = v;
+      rateValues[1] = x;
+      rateValues[2] = i;
+      rateValues[3] = t;
+      for (let k = 0; k < names.length; k++) rateValues[4 + k] = p[names[k]];
+      const rate = rateExpr(rateValues);
+      if (!windowFunc) return rate;
+      const u = (x - spec.state.min) / (spec.state.max - spec.state.min);
+      return rate * windowFunc(u, i, v);
+    },
+  };
+}
+
+/** Slider step: about a thousandth of the range, rounded down to a power of ten. */
+function sliderStep(min: number, max: number): number {
+  return Math.pow(10, Math.floor(Math.log10((max - min) / 1000)));
+}
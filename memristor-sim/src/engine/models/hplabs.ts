@@ -24,7 +24,12 @@
  * where F(x, i) is a window function that prevents x from exceeding [0, 1].
  */
 
-import type { MemristorModel, ParameterInfo, ParamValues } from './types.ts';
+import type {
+  MemristorModel,
+  ParameterInfo,
+  ParamValues,
+  WindowFunction,
+} from './types.ts';
 
 const PARAMETER_INFO: ParameterInfo[] = [
   {
@@ -69,23 +74,29 @@ export const hpLabsModel: MemristorModel = {
   id: 'hp_labs',
   name: 'HP Labs Ion-Drift Model',
   parameterInfo: PARAMETER_INFO,
+  thermal: { rates: ['muD'] },
+  acceptsWindow: true,
 
   current(v: number, x: number, p: ParamValues): number {
     const R = p.RON * x + p.ROFF * (1 - x);
     return v / R;
   },
 
+  voltage(i: number, x: number, p: ParamValues): number {
+    return i * (p.RON * x + p.ROFF * (1 - x));
+  },
+
   dxdt(
     t: number,
     x: number,
     vFunc: (t: number) => number,
     p: ParamValues,
-    windowFunc?: (x: number, i: number) => number,
+    windowFunc?: WindowFunction,
   ): number {
     const v = vFunc(t);
     const R = p.RON * x + p.ROFF * (1 - x);
     const i = v / R;
-    const F = windowFunc ? windowFunc(x, i) : 1;
+    const F = windowFunc ? windowFunc(x, i, v) : 1;
     return ((p.muD * p.RON) / (p.D * p.D)) * i * F;
   },
 };
@@ -1,13 +1,52 @@
 export { yakopcicModel } from './yakopcic.ts';
+export { yakopcicNewModel } from './yakopcicNew.ts';
 export { hpLabsModel } from './hplabs.ts';
-export type { MemristorModel, ParameterInfo, ParamValues } from './types.ts';
+export { teamModel } from './team.ts';
+export { vteamModel } from './vteam.ts';
+export { stanfordModel } from './stanford.ts';
+export { isVectorModel, stateInfoOf, toVectorModel } from './vector.ts';
+export {
+  CUSTOM_MODEL_PREFIX,
+  EXAMPLE_CUSTOM_MODEL,
+  compileCustomModel,
+  customModelId,
+  customModelLatex,
+  validateCustomModel,
+} from './custom.ts';
+export type { CustomModelSpec, CustomParameterSpec } from './custom.ts';
+export type {
+  AnyMemristorModel,
+  MemristorModel,
+  ParameterInfo,
+  ParamValues,
+  StateVariableInfo,
+  VectorMemristorModel,
+} from './types.ts';
 
 import { yakopcicModel } from './yakopcic.ts';
+import { yakopcicNewModel } from './yakopcicNew.ts';
 import { hpLabsModel } from './hplabs.ts';
-import type { MemristorModel } from './types.ts';
+import { teamModel } from './team.ts';
+import { vteamModel } from './vteam.ts';
+import { stanfordModel } from './stanford.ts';
+import type { AnyMemristorModel } from './types.ts';
 
 /** All available memristor models, keyed by id. */
-export const MODEL_REGISTRY: Record<string, MemristorModel> = {
+export const MODEL_REGISTRY: Record<string, AnyMemristorModel> = {
   yakopcic: yakopcicModel,
+  yakopcic_new: yakopcicNewModel,
   hp_labs: hpLabsModel,
+  team: teamModel,
+  vteam: vteamModel,
+  stanford: stanfordModel,
 };
+
+/** Add a model to the registry at runtime, replacing any with the same id. */
+export function registerModel(model: AnyMemristorModel): void {
+  MODEL_REGISTRY[model.id] = model;
+}
+
+/** Remove a runtime-registered model. */
+export function unregisterModel(id: string): void {
+  delete MODEL_REGISTRY[id];
+}
@@ -0,0 +1,106 @@
+/**
+ * Shared building blocks of Kvatinsky's TEAM and VTEAM models.
+ *
+ * Both models describe the device by a physical state w ∈ [0, D] (the
+ * width of the insulating gap, w = 0 ↔ RON) and share the same I-V
+ * relationships and boundary window functions. They differ only in
+ * whether switching is gated by a current (TEAM) or voltage (VTEAM)
+ * threshold.
+ *
+ * To match the other models, the normalised state is x = 1 − w/D, so
+ * x = 1 is the low-resistance ON state. Note that in Kvatinsky's sign
+ * convention the OFF process (w increasing) is driven by positive bias.
+ */
+
+import type { ParameterInfo, ParamValues } from './types.ts';
+
+/** Device and I-V parameters common to TEAM and VTEAM. */
+export const DEVICE_PARAMETER_INFO: ParameterInfo[] = [
+  {
+    name: 'RON', symbol: 'R_{\\mathrm{ON}}', default: 1e3,
+    min: 10, max: 1e6, step: 10,
+    unit: '\\Omega', group: 'device',
+    description: 'Resistance of the fully-ON device (w = 0, x = 1).',
+  },
+  {
+    name: 'ROFF', symbol: 'R_{\\mathrm{OFF}}', default: 10e3,
+    min: 100, max: 1e8, step: 100,
+    unit: '\\Omega', group: 'device',
+    description: 'Resistance of the fully-OFF device (w = D, x = 0).',
+  },
+  {
+    name: 'D', symbol: 'D', default: 3e-9,
+    min: 0.5e-9, max: 100e-9, step: 0.1e-9,
+    unit: 'm', group: 'device',
+    description:
+      'Range of the physical state w (w_off − w_on). The speeds k_on ' +
+      'and k_off are expressed in m/s of w motion.',
+  },
+  {
+    name: 'ivMode', symbol: '\\mathrm{IV}', default: 0,
+    min: 0, max: 1, step: 1,
+    unit: '', group: 'device',
+    description:
+      'I-V relationship: 0 = linear (resistance varies linearly with w), ' +
+      '1 = exponential (resistance varies exponentially with w, as in ' +
+      'tunnelling-gap devices).',
+  },
+];
+
+/** Boundary window parameters common to TEAM and VTEAM. */
+export const WINDOW_PARAMETER_INFO: ParameterInfo[] = [
+  {
+    name: 'aon', symbol: 'a_{\\mathrm{on}}', default: 0.15e-9,
+    min: 0, max: 100e-9, step: 0.01e-9,
+    unit: 'm', group: 'window',
+    description:
+      'Position near w = 0 where the ON window f_on starts to cut off ' +
+      'state motion.',
+  },
+  {
+    name: 'aoff', symbol: 'a_{\\mathrm{off}}', default: 2.85e-9,
+    min: 0, max: 100e-9, step: 0.01e-9,
+    unit: 'm', group: 'window',
+    description:
+      'Position near w = D where the OFF window f_off starts to cut off ' +
+      'state motion.',
+  },
+  {
+    name: 'wc', symbol: 'w_c', default: 0.1e-9,
+    min: 1e-12, max: 10e-9, step: 1e-12,
+    unit: 'm', group: 'window',
+    description:
+      'Window softness. Smaller values give a sharper, more wall-like ' +
+      'boundary at a_on and a_off.',
+  },
+];
+
+/**
+ * Device resistance for the normalised state x.
+ *
+ *   linear:      R = RON + (ROFF − RON)·w/D
+ *   exponential: R = RON·exp(λ·w/D),  λ = ln(ROFF/RON)
+ */
+export function resistance(x: number, p: ParamValues): number {
+  const wNorm = 1 - x;
+  if (p.ivMode >= 0.5) {
+    return p.RON * Math.exp(Math.log(p.ROFF / p.RON) * wNorm);
+  }
+  return p.RON + (p.ROFF - p.RON) * wNorm;
+}
+
+/**
+ * OFF window f_off(w) = exp(−exp((w − a_off)/w_c)).
+ * ≈ 1 for w ≪ a_off and falls to 0 as w passes a_off.
+ */
+export function fOff(w: number, p: ParamValues): number {
+  return Math.exp(-Math.exp((w - p.aoff) / p.wc));
+}
+
+/**
+ * ON window f_on(w) = exp(−exp(−(w − a_on)/w_c)).
+ * ≈ 1 for w ≫ a_on and falls to 0 as w drops below a_on.
+ */
+export function fOn(w: number, p: ParamValues): number {
+  return Math.exp(-Math.exp(-(w - p.aon) / p.wc));
+}
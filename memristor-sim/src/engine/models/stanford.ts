@@ -0,0 +1,186 @@
+/**
+ * Stanford/ASU Filamentary RRAM Model.
+ *
+ * References:
+ *   X. Guan, S. Yu, and H.-S. P. Wong, "A SPICE Compact Model of Metal
+ *   Oxide Resistive Switching Memory With Variations," IEEE Electron
+ *   Device Letters, vol. 33, no. 10, pp. 1405-1407, Oct. 2012.
+ *
+ *   P.-Y. Chen and S. Yu, "Compact Modeling of RRAM Devices and Its
+ *   Applications in 1T1R and 1S1R Array Design," IEEE Transactions on
+ *   Electron Devices, vol. 62, no. 12, pp. 4022-4028, Dec. 2015.
+ *
+ * A physical model of filamentary oxide RRAM. A conductive filament of
+ * oxygen vacancies bridges most of the oxide; the remaining tunnelling gap
+ * g between the filament tip and the electrode sets the resistance:
+ *
+ *   I = I₀ · exp(−g/g₀) · sinh(V/V₀)
+ *
+ * The gap grows (RESET) or shrinks (SET) by field-enhanced, thermally
+ * activated hopping of vacancies across the gap:
+ *
+ *   dg/dt = −ν₀ · exp(−E_a/kT) · sinh(γ·a₀·qV / (t_ox·kT))
+ *   γ = γ₀ − β·(g/g₁)³
+ *
+ * where γ is the local field-enhancement factor, which drops as the gap
+ * widens. Positive voltage closes the gap (SET), negative voltage opens
+ * it (RESET). Growth and dissolution stop once g reaches g_max or g_min.
+ *
+ * Unlike the other models the state is the physical gap in nm rather
+ * than a normalised x; a small gap is the low-resistance state.
+ */
+
+import type { MemristorModel, ParameterInfo, ParamValues } from './types.ts';
+
+/** Boltzmann constant over elementary charge (V/K). */
+const K_B_OVER_Q = 8.617333262e-5;
+
+const PARAMETER_INFO: ParameterInfo[] = [
+  // — Tunnelling conduction group —
+  {
+    name: 'I0', symbol: 'I_0', default: 1e-4,
+    min: 1e-7, max: 1e-1, step: 1e-7,
+    unit: 'A', group: 'conduction',
+    description:
+      'Current prefactor. The current that would flow through a ' +
+      'zero-length gap at V = V₀·asinh(1). Scales both LRS and HRS ' +
+      'currents together.',
+  },
+  {
+    name: 'g0', symbol: 'g_0', default: 0.25,
+    min: 0.01, max: 2, step: 0.01,
+    unit: 'nm', group: 'conduction',
+    description:
+      'Characteristic tunnelling length. Every g₀ of additional gap ' +
+      'reduces the current by a factor e, so smaller g₀ gives a larger ' +
+      'ON/OFF ratio.',
+  },
+  {
+    name: 'V0', symbol: 'V_0', default: 0.25,
+    min: 0.01, max: 2, step: 0.01,
+    unit: 'V', group: 'conduction',
+    description:
+      'Characteristic voltage of the sinh I-V nonlinearity. Smaller V₀ ' +
+      'makes the I-V curve more strongly nonlinear.',
+  },
+  // — Gap kinetics group —
+  {
+    name: 'nu0', symbol: '\\nu_0', default: 10,
+    min: 1e-6, max: 1e6, step: 1e-6,
+    unit: 'm\\,s^{-1}', group: 'kinetics',
+    description:
+      'Velocity prefactor of gap growth and dissolution, combining the ' +
+      'vacancy attempt frequency and hopping distance.',
+  },
+  {
+    name: 'Ea', symbol: 'E_a', default: 1.2,
+    min: 0.1, max: 2, step: 0.01,
+    unit: 'eV', group: 'kinetics',
+    description:
+      'Activation energy for oxygen-vacancy migration. Enters through ' +
+      'the Arrhenius factor exp(−E_a/kT); higher values make the device ' +
+      'switch more slowly and retain its state longer.',
+  },
+  {
+    name: 'a0', symbol: 'a_0', default: 0.25,
+    min: 0.05, max: 2, step: 0.01,
+    unit: 'nm', group: 'kinetics',
+    description:
+      'Atomic hopping distance. Together with γ and t_ox sets how ' +
+      'strongly the applied field lowers the migration barrier.',
+  },
+  {
+    name: 'tox', symbol: 't_{\\mathrm{ox}}', default: 5,
+    min: 1, max: 50, step: 0.1,
+    unit: 'nm', group: 'kinetics',
+    description:
+      'Oxide thickness. The average field across the oxide is V/t_ox.',
+  },
+  {
+    name: 'gamma0', symbol: '\\gamma_0', default: 16,
+    min: 0, max: 50, step: 0.1,
+    unit: '', group: 'kinetics',
+    description:
+      'Field-enhancement factor at zero gap. The filament tip ' +
+      'concentrates the field, accelerating vacancy migration.',
+  },
+  {
+    name: 'beta', symbol: '\\beta', default: 1.25,
+    min: 0, max: 10, step: 0.01,
+    unit: '', group: 'kinetics',
+    description:
+      'Reduction of field enhancement with gap length, γ = γ₀ − β(g/g₁)³. ' +
+      'Makes RESET self-limiting as the gap widens.',
+  },
+  {
+    name: 'g1', symbol: 'g_1', default: 1,
+    min: 0.1, max: 10, step: 0.01,
+    unit: 'nm', group: 'kinetics',
+    description:
+      'Normalising gap length for the field-enhancement reduction.',
+  },
+  {
+    name: 'T', symbol: 'T', default: 300,
+    min: 200, max: 800, step: 1,
+    unit: 'K', group: 'kinetics',
+    description:
+      'Device temperature. Enters both the Arrhenius factor and the ' +
+      'thermal voltage kT/q of the field term. Replaced by the simulated ' +
+      'device temperature when electro-thermal coupling is enabled.',
+  },
+  // — Gap limits group —
+  {
+    name: 'gmin', symbol: 'g_{\\min}', default: 0.1,
+    min: 0, max: 2, step: 0.01,
+    unit: 'nm', group: 'gap',
+    description:
+      'Minimum gap. The filament cannot grow further once it reaches ' +
+      'g_min; sets the LRS current.',
+  },
+  {
+    name: 'gmax', symbol: 'g_{\\max}', default: 1.7,
+    min: 0.1, max: 5, step: 0.01,
+    unit: 'nm', group: 'gap',
+    description:
+      'Maximum gap. The filament cannot dissolve further once the gap ' +
+      'reaches g_max; sets the HRS current.',
+  },
+];
+
+export const stanfordModel: MemristorModel = {
+  id: 'stanford',
+  name: 'Stanford/ASU RRAM Model',
+  parameterInfo: PARAMETER_INFO,
+  thermal: { rates: [], temperature: 'T' },
+  stateInfo: [
+    {
+      name: 'gap', symbol: 'g', unit: 'nm',
+      description:
+        'Tunnelling gap between the filament tip and the electrode ' +
+        '(small gap = low resistance).',
+      min: 0, max: 5, default: 1.7,
+    },
+  ],
+
+  current(v: number, g: number, p: ParamValues): number {
+    return p.I0 * Math.exp(-g / p.g0) * Math.sinh(v / p.V0);
+  },
+
+  dxdt(
+    t: number,
+    g: number,
+    vFunc: (t: number) => number,
+    p: ParamValues,
+  ): number {
+    const v = vFunc(t);
+    const kT = K_B_OVER_Q * p.T;
+    const gamma = p.gamma0 - p.beta * Math.pow(g / p.g1, 3);
+    // ν₀ is in m/s while the gap is in nm
+    const dgdt =
+      -p.nu0 * 1e9 * Math.exp(-p.Ea / kT) *
+      Math.sinh((gamma * p.a0 * v) / (p.tox * kT));
+
+    if ((g <= p.gmin && dgdt < 0) || (g >= p.gmax && dgdt > 0)) return 0;
+    return dgdt;
+  },
+};
@@ -0,0 +1,115 @@
+/**
+ * TEAM (ThrEshold Adaptive Memristor) Model.
+ *
+ * Reference:
+ *   S. Kvatinsky, E. G. Friedman, A. Kolodny, and U. C. Weiser,
+ *   "TEAM: ThrEshold Adaptive Memristor Model," IEEE Transactions on
+ *   Circuits and Systems I, vol. 60, no. 1, pp. 211-221, Jan. 2013.
+ *
+ * A general behavioural model in which the state only moves once the
+ * device current exceeds a threshold, with a polynomial dependence on
+ * how far beyond the threshold it is:
+ *
+ *   dw/dt = k_off·(i/i_off − 1)^α_off · f_off(w)    0 < i_off < i
+ *         = 0                                       i_on < i < i_off
+ *         = k_on·(i/i_on − 1)^α_on · f_on(w)        i < i_on < 0
+ *
+ * with k_off > 0, k_on < 0 and i = V / R(w). The I-V relationship and
+ * window functions are shared with VTEAM (see kvatinsky.ts).
+ */
+
+import type { MemristorModel, ParameterInfo, ParamValues } from './types.ts';
+import {
+  DEVICE_PARAMETER_INFO,
+  WINDOW_PARAMETER_INFO,
+  fOff,
+  fOn,
+  resistance,
+} from './kvatinsky.ts';
+
+const PARAMETER_INFO: ParameterInfo[] = [
+  ...DEVICE_PARAMETER_INFO,
+  // — Threshold group —
+  {
+    name: 'ioff', symbol: 'i_{\\mathrm{off}}', default: 50e-6,
+    min: 1e-9, max: 1e-2, step: 1e-9,
+    unit: 'A', group: 'threshold',
+    description:
+      'OFF current threshold (positive). The gap only widens when the ' +
+      'device current exceeds i_off.',
+  },
+  {
+    name: 'ion', symbol: 'i_{\\mathrm{on}}', default: -50e-6,
+    min: -1e-2, max: -1e-9, step: 1e-9,
+    unit: 'A', group: 'threshold',
+    description:
+      'ON current threshold (negative). The gap only narrows when the ' +
+      'device current drops below i_on.',
+  },
+  {
+    name: 'koff', symbol: 'k_{\\mathrm{off}}', default: 1e-7,
+    min: 1e-15, max: 1, step: 1e-15,
+    unit: 'm\\,s^{-1}', group: 'threshold',
+    description:
+      'OFF switching speed (positive). Scales the rate of gap growth ' +
+      'above the threshold.',
+  },
+  {
+    name: 'kon', symbol: 'k_{\\mathrm{on}}', default: -1e-7,
+    min: -1, max: -1e-15, step: 1e-15,
+    unit: 'm\\,s^{-1}', group: 'threshold',
+    description:
+      'ON switching speed (negative). Scales the rate of gap shrinkage ' +
+      'below the threshold.',
+  },
+  {
+    name: 'alphaoff', symbol: '\\alpha_{\\mathrm{off}}', default: 3,
+    min: 1, max: 20, step: 1,
+    unit: '', group: 'threshold',
+    description:
+      'OFF nonlinearity exponent. Higher values make the switching rate ' +
+      'rise more steeply with current beyond i_off.',
+  },
+  {
+    name: 'alphaon', symbol: '\\alpha_{\\mathrm{on}}', default: 3,
+    min: 1, max: 20, step: 1,
+    unit: '', group: 'threshold',
+    description:
+      'ON nonlinearity exponent. Higher values make the switching rate ' +
+      'rise more steeply with current beyond i_on.',
+  },
+  ...WINDOW_PARAMETER_INFO,
+];
+
+/** Gap velocity dw/dt for device current i at gap w. */
+function dwdt(i: number, w: number, p: ParamValues): number {
+  if (i > p.ioff && p.ioff > 0) {
+    return p.koff * Math.pow(i / p.ioff - 1, p.alphaoff) * fOff(w, p);
+  } else if (i < p.ion && p.ion < 0) {
+    return p.kon * Math.pow(i / p.ion - 1, p.alphaon) * fOn(w, p);
+  }
+  return 0;
+}
+
+export const teamModel: MemristorModel = {
+  id: 'team',
+  name: 'TEAM Model',
+  parameterInfo: PARAMETER_INFO,
+  thermal: { rates: ['koff', 'kon'] },
+
+  current(v: number, x: number, p: ParamValues): number {
+    return v / resistance(x, p);
+  },
+
+  dxdt(
+    t: number,
+    x: number,
+    vFunc: (t: number) => number,
+    p: ParamValues,
+  ): number {
+    const v = vFunc(t);
+    const i = v / resistance(x, p);
+    const w = (1 - x) * p.D;
+    return -dwdt(i, w, p) / p.D;
+  },
+};
@@ -6,6 +6,8 @@
  * hard-coding anything model-specific.
  */
 
+import type { IVShapeType } from '../ivshapes.ts';
+
 /** Metadata for a single tunable model parameter. */
 export interface ParameterInfo {
   /** Internal key used in the params record (e.g. "a1", "RON"). */
@@ -31,25 +33,129 @@ export interface ParameterInfo {
 /** A flat record mapping parameter names to their current numeric values. */
 export type ParamValues = Record<string, number>;
 
+/** Branch current h(V) evaluated with the current parameter values. */
+export type IVFunction = (v: number, params: ParamValues) => number;
+
+/** I-V functions for each branch a model declares, keyed by branch key. */
+export type IVBranchFunctions = Record<string, IVFunction>;
+
 /**
- * Interface that every memristor model must implement.
+ * An I-V branch whose conduction mechanism is selectable (see ivshapes.ts).
+ * The branch tag is substituted into the shape's parameter templates, so
+ * the ON branch of a mim_mim shape owns "gmax_p", "bmax_p", … .
+ */
+export interface IVBranchInfo {
+  /** Key used in IVBranchFunctions and in the selected-shape record (e.g. "on"). */
+  key: string;
+  /** Human-readable branch name (e.g. "ON-state"). */
+  label: string;
+  /** Substituted into parameter names (e.g. "max" → "gmax_p"). */
+  tag: string;
+  /** Substituted into LaTeX symbols (e.g. "\\max" → "g_{\\max,p}"). */
+  symbolTag: string;
+  /** Parameter group the branch's sliders appear under. */
+  group: string;
+  /** Shape used when none has been selected. */
+  defaultShape: IVShapeType;
+  /** Branch-specific default values overriding the shape's generic ones. */
+  defaults?: ParamValues;
+}
+
+/**
+ * Metadata for one component of a model's state vector.
  *
- * Models are stateless pure-function objects: all mutable state (the state
- * variable x) lives in the ODE solver, and all parameter values are passed
- * explicitly via `params`.
+ * The bounds are enforced by the solver after every step, so they should
+ * be the physical limits of the quantity (e.g. [0, 1] for a normalised
+ * dopant width). Limits that depend on parameter values, such as the
+ * g_min/g_max of a filament gap, are enforced by the model's dxdt.
+ */
+export interface StateVariableInfo {
+  /** Internal key (e.g. "x", "gap", "T"). */
+  name: string;
+  /** LaTeX symbol for display (e.g. "x", "g", "T"). */
+  symbol: string;
+  /** Physical unit, as in ParameterInfo. Empty string if dimensionless. */
+  unit: string;
+  /** Human-readable description shown in plot hovers and tooltips. */
+  description: string;
+  /** Lower physical bound. */
+  min: number;
+  /** Upper physical bound. */
+  max: number;
+  /** Initial value used when none is configured. */
+  default: number;
+}
+
+/** An input voltage generator, V(t). */
+export type VoltageFunction = (t: number) => number;
+
+/**
+ * A window function F(x, i, v) applied to the primary state component,
+ * given the normalised state x ∈ [0, 1], the current and the voltage.
+ */
+export type WindowFunction = (x: number, i: number, v: number) => number;
+
+/**
+ * How a model couples to the optional electro-thermal subsystem (see
+ * thermal.ts). Rate parameters are Arrhenius-scaled with the device
+ * temperature; a model with its own physical temperature dependence
+ * names the parameter that should follow the device temperature instead.
  */
-export interface MemristorModel {
+export interface ThermalCoupling {
+  /** Rate parameters scaled by exp(E_a,th/k · (1/T_ref − 1/T)) (e.g. "Ap", "muD"). */
+  rates: string[];
+  /** Parameter overwritten with the device temperature in K (e.g. "T"). */
+  temperature?: string;
+}
+
+/** Fields shared by scalar and vector-state models. */
+export interface MemristorModelBase {
   /** Unique identifier (e.g. "yakopcic", "hp_labs"). */
   id: string;
   /** Human-readable model name. */
   name: string;
-  /** Ordered list of tunable parameter metadata. */
+  /**
+   * Ordered list of tunable parameter metadata. Parameters owned by I-V
+   * branches are not listed here — use resolveParameterInfo() to get the
+   * full list for the selected shapes.
+   */
   parameterInfo: ParameterInfo[];
+  /** I-V branches with a selectable conduction mechanism, if any. */
+  ivBranches?: IVBranchInfo[];
+  /** Coupling to the electro-thermal subsystem, if the model supports it. */
+  thermal?: ThermalCoupling;
+  /**
+   * Whether dxdt multiplies the primary state's rate by the selected
+   * window function. Models with built-in boundary handling leave it unset.
+   */
+  acceptsWindow?: boolean;
+}
+
+/**
+ * Interface that every scalar-state memristor model must implement.
+ *
+ * Models are stateless pure-function objects: all mutable state (the state
+ * variable x) lives in the ODE solver, and all parameter values are passed
+ * explicitly via `params`.
+ */
+export interface MemristorModel extends MemristorModelBase {
+  /**
+   * Metadata of the single state variable. Omit for the usual normalised
+   * x ∈ [0, 1]; declare it when the state is a physical quantity.
+   */
+  stateInfo?: [StateVariableInfo];
   /**
    * Compute the device current given voltage and state variable.
-   * This is the memristance relationship I = f(V, x).
+   * This is the memristance relationship I = f(V, x). Models with
+   * `ivBranches` receive the branch functions in `iv`.
    */
-  current(v: number, x: number, params: ParamValues): number;
+  current(v: number, x: number, params: ParamValues, iv?: IVBranchFunctions): number;
+  /**
+   * Invert the I-V relationship: the voltage that drives current i at
+   * state x. Used for current drive; models without a closed form omit it
+   * and are inverted numerically (see drive.ts).
+   */
+  voltage?(i: number, x: number, params: ParamValues, iv?: IVBranchFunctions): number;
   /**
    * Compute dx/dt — the state variable derivative.
    * `vFunc(t)` returns the input voltage at time t.
@@ -57,8 +163,69 @@ export interface MemristorModel {
   dxdt(
     t: number,
     x: number,
-    vFunc: (t: number) => number,
+    vFunc: VoltageFunction,
+    params: ParamValues,
+    windowFunc?: WindowFunction,
+  ): number;
+  /**
+   * Analytic ∂(dx/dt)/∂x, used by the stiff solver. Models without one
+   * are differentiated numerically.
+   */
+  jacobian?(
+    t: number,
+    x: number,
+    vFunc: VoltageFunction,
     params: ParamValues,
-    windowFunc?: (x: number, i: number) => number,
+    windowFunc?: WindowFunction,
   ): number;
 }
+
+/**
+ * A model with an N-dimensional state (e.g. filament gap plus temperature).
+ *
+ * `x` is the full state vector in `stateInfo` order. The first component
+ * is the primary state: it is the one set by x₀, passed to the window
+ * function and reported as `stateVariable` in simulation results.
+ */
+export interface VectorMemristorModel extends MemristorModelBase {
+  /** Discriminates vector-state models from scalar ones. */
+  vectorState: true;
+  /** One entry per state component, in state-vector order. */
+  stateInfo: StateVariableInfo[];
+  /** Compute the device current I = f(V, x). */
+  current(
+    v: number,
+    x: ArrayLike<number>,
+    params: ParamValues,
+    iv?: IVBranchFunctions,
+  ): number;
+  /** Voltage that drives current i at state x, if there is a closed form. */
+  voltage?(
+    i: number,
+    x: ArrayLike<number>,
+    params: ParamValues,
+    iv?: IVBranchFunctions,
+  ): number;
+  /** Compute dx/dt for every state component. */
+  dxdt(
+    t: number,
+    x: ArrayLike<number>,
+    vFunc: VoltageFunction,
+    params: ParamValues,
+    windowFunc?: WindowFunction,
+  ): ArrayLike<number>;
+  /**
+   * Analytic Jacobian of dxdt (row k holds ∂(dx_k/dt)/∂x), if available.
+   * Wrappers that change dxdt must drop or extend it.
+   */
+  jacobian?(
+    t: number,
+    x: ArrayLike<number>,
+    vFunc: VoltageFunction,
+    params: ParamValues,
+    windowFunc?: WindowFunction,
+  ): ArrayLike<number>[];
+}
+
+/** Any model that can be registered in MODEL_REGISTRY. */
+export type AnyMemristorModel = MemristorModel | VectorMemristorModel;
@@ -0,0 +1,60 @@
+/**
+ * Adapters between scalar and vector-state models.
+ *
+ * The simulation engine works exclusively with VectorMemristorModel. Scalar
+ * models are wrapped as one-component vector models so they keep their
+ * simple (v, x: number) signatures and run unchanged.
+ */
+
+import type {
+  AnyMemristorModel,
+  MemristorModel,
+  StateVariableInfo,
+  VectorMemristorModel,
+} from './types.ts';
+
+/** State metadata of a scalar model that does not declare its own. */
+export const DEFAULT_STATE_INFO: StateVariableInfo = {
+  name: 'x',
+  symbol: 'x',
+  unit: '',
+  description: 'Normalised internal state (0 = high resistance, 1 = low resistance).',
+  min: 0,
+  max: 1,
+  default: 0.1,
+};
+
+/** True when the model declares an N-dimensional state. */
+export function isVectorModel(model: AnyMemristorModel): model is VectorMemristorModel {
+  return 'vectorState' in model && model.vectorState;
+}
+
+/** State-vector metadata of any model. */
+export function stateInfoOf(model: AnyMemristorModel): StateVariableInfo[] {
+  if (isVectorModel(model)) return model.stateInfo;
+  return model.stateInfo ?? [DEFAULT_STATE_INFO];
+}
+
+/** Wrap a scalar model as a one-component vector model. */
+function wrapScalar(model: MemristorModel): VectorMemristorModel {
+  return {
+    id: model.id,
+    name: model.name,
+    parameterInfo: model.parameterInfo,
+    ivBranches: model.ivBranches,
+    thermal: model.thermal,
+    acceptsWindow: model.acceptsWindow,
+    vectorState: true,
+    stateInfo: stateInfoOf(model),
+    current: (v, x, p, iv) => model.current(v, x[0], p, iv),
+    voltage: model.voltage && ((i, x, p, iv) => model.voltage!(i, x[0], p, iv)),
+    dxdt: (t, x, vFunc, p, windowFunc) => [model.dxdt(t, x[0], vFunc, p, windowFunc)],
+    jacobian: model.jacobian &&
+      ((t, x, vFunc, p, windowFunc) => [[model.jacobian!(t, x[0], vFunc, p, windowFunc)]]),
+  };
+}
+
+/** View any model as a vector-state model. */
+export function toVectorModel(model: AnyMemristorModel): VectorMemristorModel {
+  return isVectorModel(model) ? model : wrapScalar(model);
+}
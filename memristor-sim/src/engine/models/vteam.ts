@@ -0,0 +1,114 @@
+/**
+ * VTEAM (Voltage ThrEshold Adaptive Memristor) Model.
+ *
+ * Reference:
+ *   S. Kvatinsky, M. Ramadan, E. G. Friedman, and A. Kolodny, "VTEAM: A
+ *   General Model for Voltage-Controlled Memristors," IEEE Transactions on
+ *   Circuits and Systems II, vol. 62, no. 8, pp. 786-790, Aug. 2015.
+ *
+ * The voltage-controlled counterpart of TEAM. Most measured oxide devices
+ * show a voltage rather than a current threshold, so the state equation
+ * is gated by the applied voltage:
+ *
+ *   dw/dt = k_off·(V/v_off − 1)^α_off · f_off(w)    0 < v_off < V
+ *         = 0                                       v_on < V < v_off
+ *         = k_on·(V/v_on − 1)^α_on · f_on(w)        V < v_on < 0
+ *
+ * with k_off > 0 and k_on < 0. The I-V relationship and window functions
+ * are shared with TEAM (see kvatinsky.ts).
+ */
+
+import type { MemristorModel, ParameterInfo, ParamValues } from './types.ts';
+import {
+  DEVICE_PARAMETER_INFO,
+  WINDOW_PARAMETER_INFO,
+  fOff,
+  fOn,
+  resistance,
+} from './kvatinsky.ts';
+
+const PARAMETER_INFO: ParameterInfo[] = [
+  ...DEVICE_PARAMETER_INFO,
+  // — Threshold group —
+  {
+    name: 'voff', symbol: 'v_{\\mathrm{off}}', default: 0.3,
+    min: 0.001, max: 5, step: 0.001,
+    unit: 'V', group: 'threshold',
+    description:
+      'OFF voltage threshold (positive). The gap only widens when ' +
+      'V > v_off.',
+  },
+  {
+    name: 'von', symbol: 'v_{\\mathrm{on}}', default: -0.3,
+    min: -5, max: -0.001, step: 0.001,
+    unit: 'V', group: 'threshold',
+    description:
+      'ON voltage threshold (negative). The gap only narrows when ' +
+      'V < v_on.',
+  },
+  {
+    name: 'koff', symbol: 'k_{\\mathrm{off}}', default: 1e-6,
+    min: 1e-15, max: 1, step: 1e-15,
+    unit: 'm\\,s^{-1}', group: 'threshold',
+    description:
+      'OFF switching speed (positive). Scales the rate of gap growth ' +
+      'above the threshold.',
+  },
+  {
+    name: 'kon', symbol: 'k_{\\mathrm{on}}', default: -1e-6,
+    min: -1, max: -1e-15, step: 1e-15,
+    unit: 'm\\,s^{-1}', group: 'threshold',
+    description:
+      'ON switching speed (negative). Scales the rate of gap shrinkage ' +
+      'below the threshold.',
+  },
+  {
+    name: 'alphaoff', symbol: '\\alpha_{\\mathrm{off}}', default: 3,
+    min: 1, max: 20, step: 1,
+    unit: '', group: 'threshold',
+    description:
+      'OFF nonlinearity exponent. Higher values make the switching rate ' +
+      'rise more steeply with voltage beyond v_off.',
+  },
+  {
+    name: 'alphaon', symbol: '\\alpha_{\\mathrm{on}}', default: 3,
+    min: 1, max: 20, step: 1,
+    unit: '', group: 'threshold',
+    description:
+      'ON nonlinearity exponent. Higher values make the switching rate ' +
+      'rise more steeply with voltage beyond v_on.',
+  },
+  ...WINDOW_PARAMETER_INFO,
+];
+
+/** Gap velocity dw/dt for applied voltage v at gap w. */
+function dwdt(v: number, w: number, p: ParamValues): number {
+  if (v > p.voff && p.voff > 0) {
+    return p.koff * Math.pow(v / p.voff - 1, p.alphaoff) * fOff(w, p);
+  } else if (v < p.von && p.von < 0) {
+    return p.kon * Math.pow(v / p.von - 1, p.alphaon) * fOn(w, p);
+  }
+  return 0;
+}
+
+export const vteamModel: MemristorModel = {
+  id: 'vteam',
+  name: 'VTEAM Model',
+  parameterInfo: PARAMETER_INFO,
+  thermal: { rates: ['koff', 'kon'] },
+
+  current(v: number, x: number, p: ParamValues): number {
+    return v / resistance(x, p);
+  },
+
+  dxdt(
+    t: number,
+    x: number,
+    vFunc: (t: number) => number,
+    p: ParamValues,
+  ): number {
+    const v = vFunc(t);
+    const w = (1 - x) * p.D;
+    return -dwdt(v, w, p) / p.D;
+  },
+};
@@ -197,10 +197,30 @@ function fWindow(
   }
 }
 
+/** ∂f/∂x of the state-variable windowing function, for the Jacobian. */
+function fWindowSlope(
+  v: number, x: number,
+  alphap: number, alphan: number,
+  xp: number, xn: number, eta: number,
+): number {
+  if (eta * v >= 0) {
+    if (x >= xp) {
+      return -Math.exp(-alphap * (x - xp)) * (alphap * wp(x, xp) + 1 / (1 - xp));
+    }
+    return 0;
+  } else {
+    if (x <= 1 - xn) {
+      return Math.exp(alphan * (x + xn - 1)) * (alphan * wn(x, xn) + 1 / (1 - xn));
+    }
+    return 0;
+  }
+}
+
 export const yakopcicModel: MemristorModel = {
   id: 'yakopcic',
   name: 'Yakopcic Generalised Model',
   parameterInfo: PARAMETER_INFO,
+  thermal: { rates: ['Ap', 'An'] },
 
   current(v: number, x: number, p: ParamValues): number {
     const a = v >= 0 ? p.a1 : p.a2;
@@ -221,4 +241,19 @@ export const yakopcicModel: MemristorModel = {
       fWindow(v, x, p.alphap, p.alphan, p.xp, p.xn, eta)
     );
   },
+
+  jacobian(
+    t: number,
+    x: number,
+    vFunc: (t: number) => number,
+    p: ParamValues,
+  ): number {
+    const v = vFunc(t);
+    const eta = p.eta;
+    return (
+      eta *
+      g(v, p.Ap, p.An, p.Vp, p.Vn) *
+      fWindowSlope(v, x, p.alphap, p.alphan, p.xp, p.xn, eta)
+    );
+  },
 };
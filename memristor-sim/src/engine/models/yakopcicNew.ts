@@ -0,0 +1,209 @@
+/**
+ * Yakopcic Dual-Branch Memristor Model.
+ *
+ * Reference:
+ *   C. Yakopcic, T. M. Taha, D. J. Mountain, T. Salter, M. J. Marinella,
+ *   and M. McLean, "Memristor Model Optimization Based on Parameter
+ *   Extraction From Device Characterization Data," IEEE Trans.
+ *   Computer-Aided Design, vol. 39, no. 5, pp. 1084-1095, May 2020.
+ *
+ * The newer Yakopcic formulation replaces the single a·x·sinh(b·V) I-V
+ * relationship with a weighted mix of two separately fitted branches — the
+ * fully-ON (x = 1) and fully-OFF (x = 0) characteristics — each with its own
+ * forward- and reverse-bias sinh fit:
+ *
+ *   I(t)    = h_on(V)·x + h_off(V)·(1 − x)
+ *   h_on(V) = gmax_p·sinh(bmax_p·V)  (V ≥ 0),  gmax_n·sinh(bmax_n·V)  (V < 0)
+ *   h_off(V)= gmin_p·sinh(bmin_p·V)  (V ≥ 0),  gmin_n·sinh(bmin_n·V)  (V < 0)
+ *   dx/dt   = η · g(V) · f(V, x)
+ *
+ * The threshold function g(V) is identical to the 2011 model. The window
+ * f(V, x) follows the SrTiO₃ SPICE subcircuit (SPICE model/sub/
+ * memristor_yakopcic.sub), where xn is the absolute state below which
+ * RESET motion is damped rather than measured from x = 1. This is the
+ * convention used by frontend/fit_yakopcic.py, so fitted xn values can be
+ * used unchanged.
+ *
+ * The sinh branches above are the default; each branch's conduction
+ * mechanism can be swapped for any shape in ivshapes.ts.
+ *
+ * Ported from models.py:Yakopcic_new.
+ */
+
+import { createIVFunction } from '../ivshapes.ts';
+import type {
+  IVBranchFunctions,
+  IVBranchInfo,
+  MemristorModel,
+  ParameterInfo,
+  ParamValues,
+} from './types.ts';
+
+/**
+ * ON (x = 1) and OFF (x = 0) I-V branches. Both default to the asymmetric
+ * MIM shape, whose parameters expand to gmax_p … bmin_n; any other
+ * conduction mechanism from ivshapes.ts can be selected per branch.
+ */
+const IV_BRANCHES: IVBranchInfo[] = [
+  {
+    key: 'on', label: 'ON-state', tag: 'max', symbolTag: '\\max',
+    group: 'iv_on', defaultShape: 'mim_mim',
+    defaults: { gmax_p: 9e-5, bmax_p: 4.96, gmax_n: 1.7e-4, bmax_n: 3.23 },
+  },
+  {
+    key: 'off', label: 'OFF-state', tag: 'min', symbolTag: '\\min',
+    group: 'iv_off', defaultShape: 'mim_mim',
+    defaults: { gmin_p: 1.5e-5, bmin_p: 6.91, gmin_n: 4.4e-7, bmin_n: 2.6 },
+  },
+];
+
+const DEFAULT_IV: IVBranchFunctions = {
+  on: createIVFunction('mim_mim', IV_BRANCHES[0]),
+  off: createIVFunction('mim_mim', IV_BRANCHES[1]),
+};
+
+const PARAMETER_INFO: ParameterInfo[] = [
+  // — Threshold group —
+  {
+    name: 'Vp', symbol: 'V_p', default: 0.5,
+    min: 0.001, max: 5, step: 0.001,
+    unit: 'V', group: 'threshold',
+    description:
+      'Positive voltage threshold. The state only moves towards ON ' +
+      'when V > Vp.',
+  },
+  {
+    name: 'Vn', symbol: 'V_n', default: 0.5,
+    min: 0.001, max: 5, step: 0.001,
+    unit: 'V', group: 'threshold',
+    description:
+      'Negative voltage threshold (magnitude). The state only moves ' +
+      'towards OFF when V < −Vn.',
+  },
+  {
+    name: 'Ap', symbol: 'A_p', default: 90,
+    min: 0.001, max: 50000, step: 0.001,
+    unit: 's^{-1}', group: 'threshold',
+    description:
+      'Positive switching speed. Fitted as the peak dG/dt during SET ' +
+      'divided by the ON/OFF conductance window.',
+  },
+  {
+    name: 'An', symbol: 'A_n', default: 10,
+    min: 0.001, max: 50000, step: 0.001,
+    unit: 's^{-1}', group: 'threshold',
+    description:
+      'Negative switching speed. Fitted as the peak dG/dt during RESET ' +
+      'divided by the ON/OFF conductance window.',
+  },
+  // — State variable dynamics group —
+  {
+    name: 'xp', symbol: 'x_p', default: 0.1,
+    min: 0.01, max: 0.99, step: 0.001,
+    unit: '', group: 'state',
+    description:
+      'State above which SET motion is exponentially damped. Fitted ' +
+      'from the normalised conductance where switching slows down.',
+  },
+  {
+    name: 'xn', symbol: 'x_n', default: 0.242,
+    min: 0.01, max: 0.99, step: 0.001,
+    unit: '', group: 'state',
+    description:
+      'State below which RESET motion is exponentially damped. Unlike ' +
+      'the 2011 model this is an absolute level, not measured from x = 1.',
+  },
+  {
+    name: 'alphap', symbol: '\\alpha_p', default: 1,
+    min: 0.01, max: 20, step: 0.01,
+    unit: '', group: 'state',
+    description:
+      'Decay rate of SET motion once x > xp. Higher values create a ' +
+      'harder upper boundary.',
+  },
+  {
+    name: 'alphan', symbol: '\\alpha_n', default: 1,
+    min: 0.01, max: 20, step: 0.01,
+    unit: '', group: 'state',
+    description:
+      'Decay rate of RESET motion once x < xn. Higher values create a ' +
+      'harder lower boundary.',
+  },
+  {
+    name: 'eta', symbol: '\\eta', default: 1,
+    min: -1, max: 1, step: 2,
+    unit: '', group: 'state',
+    description:
+      'State-variable direction flag (+1 or −1). When η = 1 a positive ' +
+      'voltage above threshold increases x.',
+  },
+];
+
+/**
+ * Threshold function g(V) — unchanged from the 2011 model.
+ */
+function g(v: number, Ap: number, An: number, Vp: number, Vn: number): number {
+  if (v > Vp) {
+    return Ap * (Math.exp(v) - Math.exp(Vp));
+  } else if (v < -Vn) {
+    return -An * (Math.exp(-v) - Math.exp(Vn));
+  }
+  return 0;
+}
+
+/**
+ * State-variable windowing function f(V, x).
+ *
+ * SET motion is damped above xp by e^(−αp(x − xp))·wp(x), which reaches
+ * zero at x = 1. RESET motion is damped below xn by e^(αn(x − xn))·wn(x)
+ * with wn(x) = x / xn, which reaches zero at x = 0.
+ */
+function fWindow(
+  v: number, x: number,
+  alphap: number, alphan: number,
+  xp: number, xn: number, eta: number,
+): number {
+  if (eta * v >= 0) {
+    if (x >= xp) {
+      return Math.exp(-alphap * (x - xp)) * ((xp - x) / (1 - xp) + 1);
+    }
+    return 1;
+  } else {
+    if (x <= xn) {
+      return Math.exp(alphan * (x - xn)) * (x / xn);
+    }
+    return 1;
+  }
+}
+
+export const yakopcicNewModel: MemristorModel = {
+  id: 'yakopcic_new',
+  name: 'Yakopcic Dual-Branch Model',
+  parameterInfo: PARAMETER_INFO,
+  thermal: { rates: ['Ap', 'An'] },
+  ivBranches: IV_BRANCHES,
+
+  current(
+    v: number,
+    x: number,
+    p: ParamValues,
+    iv: IVBranchFunctions = DEFAULT_IV,
+  ): number {
+    return iv.on(v, p) * x + iv.off(v, p) * (1 - x);
+  },
+
+  dxdt(
+    t: number,
+    x: number,
+    vFunc: (t: number) => number,
+    p: ParamValues,
+  ): number {
+    const v = vFunc(t);
+    const eta = p.eta;
+    return (
+      eta *
+      g(v, p.Ap, p.An, p.Vp, p.Vn) *
+      fWindow(v, x, p.alphap, p.alphan, p.xp, p.xn, eta)
+    );
+  },
+};
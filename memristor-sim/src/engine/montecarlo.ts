@@ -0,0 +1,225 @@
+/**
+ * Monte Carlo device-to-device variability.
+ *
+ * Draws N parameter sets around the nominal values, each parameter from
+ * its own distribution, runs simulate() for every set and reduces the
+ * runs to percentile bands of current and state plus the distribution of
+ * extracted switching voltages. All runs share the input signal, so the
+ * bands are taken point by point in time.
+ *
+ * Spreads are relative to the nominal value:
+ *
+ *   - normal:    p = p₀ + |p₀|·s·z
+ *   - lognormal: p = p₀ · exp(s·z)          (never changes sign)
+ *   - uniform:   p = p₀ · (1 + s·(2u − 1))
+ *
+ * with z ~ N(0, 1) and u ~ U(0, 1).
+ */
+
+import { simulate } from './simulate.ts';
+import type { SimulationConfig, SimulationResult } from './simulate.ts';
+import { createRandom } from './random.ts';
+import type { RandomSource } from './random.ts';
+import type { ParamValues } from './models/types.ts';
+
+export type DistributionType = 'normal' | 'lognormal' | 'uniform';
+
+/** Distribution of one parameter across devices. */
+export interface ParameterDistribution {
+  type: DistributionType;
+  /** Relative spread (σ/p₀ for normal, σ of ln p for lognormal, half-width for uniform). */
+  spread: number;
+}
+
+/** Per-parameter distributions, keyed by ParameterInfo name. */
+export type VariabilitySpec = Record<string, ParameterDistribution>;
+
+export const DISTRIBUTION_OPTIONS: { value: DistributionType; label: string }[] = [
+  { value: 'normal', label: 'Normal' },
+  { value: 'lognormal', label: 'Log-normal' },
+  { value: 'uniform', label: 'Uniform' },
+];
+
+export interface MonteCarloConfig {
+  /** Number of simulated devices. */
+  runs: number;
+  /** PRNG seed; the same seed always draws the same devices. */
+  seed: number;
+  distributions: VariabilitySpec;
+}
+
+/** Point-wise percentiles across runs. */
+export interface PercentileBands {
+  p5: number[];
+  p25: number[];
+  median: number[];
+  p75: number[];
+  p95: number[];
+}
+
+/** Switching voltages extracted from each run that switched. */
+export interface SwitchingVoltages {
+  /** Switching voltages under positive bias (SET for most models). */
+  positive: number[];
+  /** Switching voltages under negative bias (RESET for most models). */
+  negative: number[];
+}
+
+export interface MonteCarloResult {
+  runs: number;
+  /** Runs that threw and were skipped. */
+  failed: number;
+  time: number[];
+  voltage: number[];
+  current: PercentileBands;
+  state: PercentileBands;
+  switching: SwitchingVoltages;
+}
+
+/** Draw one device's value of a parameter. */
+export function sampleParameter(
+  value: number,
+  dist: ParameterDistribution,
+  random: RandomSource,
+): number {
+  switch (dist.type) {
+    case 'normal':
+      return value + Math.abs(value) * dist.spread * random.normal();
+    case 'lognormal':
+      return value * Math.exp(dist.spread * random.normal());
+    case 'uniform':
+      return value * (1 + dist.spread * (2 * random.uniform() - 1));
+  }
+}
+
+/**
+ * Voltages at which the primary state first crosses the midpoint of its
+ * own range under positive and under negative bias. A run whose state
+ * moves less than 1% of the state's physical range has not switched.
+ */
+export function extractSwitchingVoltages(
+  result: SimulationResult,
+): { positive: number | null; negative: number | null } {
+  const x = result.stateVariable;
+  const info = result.stateInfo[0];
+  let lo = Infinity;
+  let hi = -Infinity;
+  for (const xi of x) {
+    if (xi < lo) lo = xi;
+    if (xi > hi) hi = xi;
+  }
+  if (hi - lo < 0.01 * (info.max - info.min)) return { positive: null, negative: null };
+
+  const mid = (lo + hi) / 2;
+  let positive: number | null = null;
+  let negative: number | null = null;
+  for (let i = 1; i < x.length && (positive === null || negative === null); i++) {
+    if ((x[i - 1] - mid) * (x[i] - mid) > 0) continue;
+    if (x[i - 1] === x[i]) continue;
+    const v = result.voltage[i];
+    if (v > 0 && positive === null) positive = v;
+    else if (v < 0 && negative === null) negative = v;
+  }
+  return { positive, negative };
+}
+
+/**
+ * Run `mc.runs` simulations with parameters drawn around `base`.
+ * `onProgress` is called with the fraction of the batch done so far.
+ */
+export function runMonteCarlo(
+  base: SimulationConfig,
+  mc: MonteCarloConfig,
+  onProgress?: (fraction: number) => void,
+): MonteCarloResult {
+  // The bands and switching voltages describe the current response
+  if (base.drive === 'current') {
+    throw new Error('Monte Carlo variability needs voltage drive.');
+  }
+  const random = createRandom(mc.seed);
+  const currents: number[][] = [];
+  const states: number[][] = [];
+  const switching: SwitchingVoltages = { positive: [], negative: [] };
+  let time: number[] = [];
+  let voltage: number[] = [];
+  let failed = 0;
+
+  for (let r = 0; r < mc.runs; r++) {
+    const params: ParamValues = { ...base.modelParams };
+    for (const [name, dist] of Object.entries(mc.distributions)) {
+      if (name in params) params[name] = sampleParameter(params[name], dist, random);
+    }
+
+    let result: SimulationResult;
+    try {
+      // The bands are taken on one shared time grid; events are a
+      // per-device detail they do not use
+      result = simulate(
+        {
+          ...base,
+          modelParams: params,
+          sampling: 'uniform',
+          events: undefined,
+        },
+        onProgress && ((fraction) => onProgress((r + fraction) / mc.runs)),
+      );
+    } catch {
+      failed++;
+      continue;
+    }
+
+    time = result.time;
+    voltage = result.voltage;
+    currents.push(result.current);
+    states.push(result.stateVariable);
+
+    const { positive, negative } = extractSwitchingVoltages(result);
+    if (positive !== null) switching.positive.push(positive);
+    if (negative !== null) switching.negative.push(negative);
+  }
+
+  if (currents.length === 0) {
+    throw new Error('Every Monte Carlo run failed — reduce the parameter spreads.');
+  }
+
+  return {
+    runs: mc.runs,
+    failed,
+    time,
+    voltage,
+    current: percentileBands(currents),
+    state: percentileBands(states),
+    switching,
+  };
+}
+
+/** Point-wise percentile bands of equally long series. */
+function percentileBands(series: number[][]): PercentileBands {
+  const n = series[0].length;
+  const bands: PercentileBands = {
+    p5: new Array(n),
+    p25: new Array(n),
+    median: new Array(n),
+    p75: new Array(n),
+    p95: new Array(n),
+  };
+  const column = new Float64Array(series.length);
+  for (let i = 0; i < n; i++) {
+    for (let r = 0; r < series.length; r++) column[r] = series[r][i];
+    column.sort();
+    bands.p5[i] = quantile(column, 0.05);
+    bands.p25[i] = quantile(column, 0.25);
+    bands.median[i] = quantile(column, 0.5);
+    bands.p75[i] = quantile(column, 0.75);
+    bands.p95[i] = quantile(column, 0.95);
+  }
+  return bands;
+}
+
+/** Linearly interpolated quantile of sorted data (numpy's default). */
+function quantile(sorted: Float64Array, q: number): number {
+  const pos = (sorted.length - 1) * q;
+  const lo = Math.floor(pos);
+  const hi = Math.min(lo + 1, sorted.length - 1);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (pos - lo);
+}
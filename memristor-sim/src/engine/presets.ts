@@ -10,7 +10,16 @@
 
 import type { SignalType } from './signals/types.ts';
 import type { WindowType } from './windows.ts';
+import type { DriveMode } from './drive.ts';
+import type { IVShapeSelection } from './ivshapes.ts';
 import type { ParamValues } from './models/types.ts';
+import type { RelaxationType } from './relaxation.ts';
+import type { RetentionParams } from './signals/retention.ts';
+import type { PwlParams } from './signals/pwl.ts';
+import type { PulseTrainParams } from './signals/pulse.ts';
+import type { StaircaseParams } from './signals/staircase.ts';
+import type { SequenceParams } from './signals/sequence.ts';
+import type { MeasuredSweep } from './smucsv.ts';
 
 export interface ExperimentPreset {
   id: string;
@@ -26,6 +35,36 @@ export interface ExperimentPreset {
   windowType?: WindowType;
   windowP?: number;
   windowJ?: number;
+  /** Detachment thresholds (V) of the boundary-condition window at x = 0 and 1. */
+  windowVth0?: number;
+  windowVth1?: number;
+  ivShapes?: IVShapeSelection;
+  /** Enable electro-thermal coupling (see thermal.ts). */
+  thermal?: boolean;
+  /** Ambient temperature in K when `thermal` is set. */
+  ambientTemperature?: number;
+  /** State relaxation towards rest (see relaxation.ts). */
+  relaxation?: RelaxationType;
+  /** Program and read settings of a retention experiment. */
+  retention?: RetentionParams;
+  /** Time–value table of a PWL signal. */
+  pwl?: PwlParams;
+  /** Write and read pulses of a pulse train. */
+  pulse?: PulseTrainParams;
+  /** Steps and dwell time of a staircase sweep. */
+  staircase?: StaircaseParams;
+  /** Segments of a waveform sequence. */
+  sequence?: SequenceParams;
+  /** Measured sweep replayed as the signal. */
+  measured?: MeasuredSweep;
+  /** Voltage (default) or current drive; amplitudes are in A for current. */
+  drive?: DriveMode;
+  /** Voltage compliance (V) of the current source. */
+  voltageCompliance?: number;
+  /** Series resistance (Ω) of the measurement setup. */
+  seriesResistance?: number;
+  /** Current compliance (A) of the source. */
+  compliance?: number;
 }
 
 export const PRESETS: ExperimentPreset[] = [
@@ -106,6 +145,31 @@ export const PRESETS: ExperimentPreset[] = [
     x0: 0.001,
     tMax: 50e-3,
   },
+  {
+    id: 'oblea_retention',
+    name: 'Oblea — Volatile Retention',
+    description:
+      'The Oblea device SET by a 5 ms, 0.4 V pulse and then read at ' +
+      '50 mV (below both thresholds) for 10⁴ s. A stretched-exponential ' +
+      'relaxation (τ = 10 s, β = 0.5) returns the state to x = 0.001, ' +
+      'so the read current decays over several decades of time ' +
+      '(illustrative relaxation parameters).',
+    citation: 'Oblea et al., IJCNN 2010; relaxation after Kohlrausch-Williams-Watts',
+    modelId: 'yakopcic',
+    signalType: 'retention',
+    signalParams: { vp: 0.45, vn: 0.45, frequency: 100 },
+    retention: { vProgram: 0.4, tProgram: 5e-3, vRead: 0.05 },
+    modelParams: {
+      a1: 0.097, a2: 0.097, b: 0.05,
+      Ap: 4000, An: 4000, Vp: 0.16, Vn: 0.15,
+      alphap: 1, alphan: 5, xp: 0.3, xn: 0.5,
+      eta: 1,
+      tauR: 10, xRest: 0.001, betaR: 0.5,
+    },
+    x0: 0.001,
+    tMax: 1e4,
+    relaxation: 'stretched',
+  },
   {
     id: 'miao',
     name: 'Miao Device',
@@ -146,4 +210,202 @@ export const PRESETS: ExperimentPreset[] = [
     x0: 0.1,
     tMax: 20,
   },
+
+  // ─── Kvatinsky threshold-adaptive experiments ───
+  {
+    id: 'team_sine',
+    name: 'TEAM — Sine Wave',
+    description:
+      'Current-threshold TEAM model on a 3 nm device driven by a 1 V, ' +
+      '1 kHz sine. Uses the exponential I-V relationship; the state only ' +
+      'moves while |I| exceeds the ±50 µA thresholds.',
+    citation: 'Kvatinsky et al., IEEE TCAS-I 60, 2013 (illustrative parameters)',
+    modelId: 'team',
+    signalType: 'sine',
+    signalParams: { vp: 1, vn: 1, frequency: 1000 },
+    modelParams: {
+      RON: 1e3, ROFF: 10e3, D: 3e-9, ivMode: 1,
+      ioff: 50e-6, ion: -50e-6, koff: 1e-7, kon: -1e-7,
+      alphaoff: 3, alphaon: 3,
+      aon: 0.15e-9, aoff: 2.85e-9, wc: 0.1e-9,
+    },
+    x0: 0.5,
+    tMax: 4e-3,
+  },
+  {
+    id: 'vteam_sine',
+    name: 'VTEAM — Sine Wave',
+    description:
+      'Voltage-threshold VTEAM model with ±0.3 V thresholds and a linear ' +
+      'I-V relationship, driven by a 1 V, 1 kHz sine. Switching only ' +
+      'occurs near the voltage peaks, giving a sharply pinched loop.',
+    citation: 'Kvatinsky et al., IEEE TCAS-II 62, 2015 (illustrative parameters)',
+    modelId: 'vteam',
+    signalType: 'sine',
+    signalParams: { vp: 1, vn: 1, frequency: 1000 },
+    modelParams: {
+      RON: 1e3, ROFF: 10e3, D: 3e-9, ivMode: 0,
+      voff: 0.3, von: -0.3, koff: 1e-6, kon: -1e-6,
+      alphaoff: 3, alphaon: 3,
+      aon: 0.15e-9, aoff: 2.85e-9, wc: 0.1e-9,
+    },
+    x0: 0.5,
+    tMax: 4e-3,
+  },
+
+  // ─── Stanford/ASU filamentary RRAM experiments ───
+  {
+    id: 'stanford_sweep',
+    name: 'Stanford/ASU — DC Sweep',
+    description:
+      'Filamentary oxide RRAM swept ±1.5 V by a 1 Hz triangle. The ' +
+      'tunnelling gap collapses from 1.7 nm to 0.1 nm at SET around +1.3 V ' +
+      'and regrows gradually during RESET, as the field enhancement weakens ' +
+      'with a widening gap.',
+    citation: 'Guan, Yu & Wong, IEEE EDL 33, 2012 (illustrative parameters)',
+    modelId: 'stanford',
+    signalType: 'triangle',
+    signalParams: { vp: 1.5, vn: 1.5, frequency: 1 },
+    modelParams: {
+      I0: 1e-4, g0: 0.25, V0: 0.25,
+      nu0: 10, Ea: 1.2, a0: 0.25, tox: 5,
+      gamma0: 16, beta: 1.25, g1: 1, T: 300,
+      gmin: 0.1, gmax: 1.7,
+    },
+    x0: 1.7,
+    tMax: 2,
+  },
+  {
+    id: 'stanford_sine_1khz',
+    name: 'Stanford/ASU — 1 kHz Sine',
+    description:
+      'The same RRAM cell driven by a 2 V, 1 kHz sine. The exponential ' +
+      'voltage dependence of the gap kinetics shifts SET to about +1.7 V ' +
+      'and RESET to about −1.2 V at the faster sweep rate.',
+    citation: 'Guan, Yu & Wong, IEEE EDL 33, 2012 (illustrative parameters)',
+    modelId: 'stanford',
+    signalType: 'sine',
+    signalParams: { vp: 2, vn: 2, frequency: 1000 },
+    modelParams: {
+      I0: 1e-4, g0: 0.25, V0: 0.25,
+      nu0: 10, Ea: 1.2, a0: 0.25, tox: 5,
+      gamma0: 16, beta: 1.25, g1: 1, T: 300,
+      gmin: 0.1, gmax: 1.7,
+    },
+    x0: 1.7,
+    tMax: 2e-3,
+  },
+  {
+    id: 'stanford_thermal',
+    name: 'Stanford/ASU — Self-Heating',
+    description:
+      'The DC sweep with electro-thermal coupling at 350 K ambient. The ' +
+      'warmer device SETs near +1.17 V instead of +1.34 V, and Joule ' +
+      'heating in the low-resistance state raises the filament to about ' +
+      '550 K at the sweep peak.',
+    citation: 'Guan, Yu & Wong, IEEE EDL 33, 2012 (illustrative parameters)',
+    modelId: 'stanford',
+    signalType: 'triangle',
+    signalParams: { vp: 1.5, vn: 1.5, frequency: 1 },
+    modelParams: {
+      I0: 1e-4, g0: 0.25, V0: 0.25,
+      nu0: 10, Ea: 1.2, a0: 0.25, tox: 5,
+      gamma0: 16, beta: 1.25, g1: 1, T: 300,
+      gmin: 0.1, gmax: 1.7,
+      Rth: 1e4, Cth: 1e-7, Ea_th: 0.5, Tref: 300,
+    },
+    x0: 1.7,
+    tMax: 2,
+    thermal: true,
+    ambientTemperature: 350,
+  },
+
+  // ─── Yakopcic dual-branch experiments ───
+  {
+    id: 'srtio3_10um',
+    name: 'SrTiO₃ 10 µm — DC Sweep',
+    description:
+      'Dual-branch Yakopcic model fitted to a 10 µm radius SrTiO₃ device ' +
+      'swept 0 → +1 V → 0 → −2 V → 0 over 50.7 s, matching the PWL stimulus ' +
+      'of the LTspice testbench. ON/OFF branches are separate sinh fits.',
+    citation: 'Fitted: fitted/10um_-2V_4_TT_original',
+    modelId: 'yakopcic_new',
+    signalType: 'triangle',
+    signalParams: { vp: 1, vn: 2, frequency: 1 / 50.66 },
+    modelParams: {
+      gmax_p: 9e-5, bmax_p: 4.96, gmax_n: 1.7e-4, bmax_n: 3.23,
+      gmin_p: 1.5e-5, bmin_p: 6.91, gmin_n: 4.4e-7, bmin_n: 2.6,
+      Ap: 90, An: 10, Vp: 0.5, Vn: 0.5,
+      alphap: 1, alphan: 1, xp: 0.1, xn: 0.242,
+      eta: 1,
+    },
+    x0: 0,
+    tMax: 50.66,
+    ivShapes: { on: 'mim_mim', off: 'mim_mim' },
+  },
+  {
+    id: 'srtio3_10um_staircase',
+    name: 'SrTiO₃ 10 µm — Staircase Sweep',
+    description:
+      'The fitted 10 µm SrTiO₃ device under the SMU protocol of its ' +
+      'measurement: 0 → +1 V → −2 V → 0 V in 10 mV steps of 84.3 ms, read at ' +
+      'the end of each step, so the 601 readings line up with the rows of ' +
+      'the measured CSV.',
+    citation: 'Fitted: fitted/10um_-2V_4_TT_original',
+    modelId: 'yakopcic_new',
+    signalType: 'staircase',
+    signalParams: { vp: 1, vn: 2, frequency: 1 / 50.66 },
+    modelParams: {
+      gmax_p: 9e-5, bmax_p: 4.96, gmax_n: 1.7e-4, bmax_n: 3.23,
+      gmin_p: 1.5e-5, bmin_p: 6.91, gmin_n: 4.4e-7, bmin_n: 2.6,
+      Ap: 90, An: 10, Vp: 0.5, Vn: 0.5,
+      alphap: 1, alphan: 1, xp: 0.1, xn: 0.242,
+      eta: 1,
+    },
+    x0: 0,
+    tMax: 50.6643,
+    staircase: {
+      start: 0, firstPeak: 1, secondPeak: -2, stop: 0,
+      step: 0.01, dwell: 0.0843, cycles: 1,
+    },
+    ivShapes: { on: 'mim_mim', off: 'mim_mim' },
+  },
+  {
+    id: 'srtio3_10um_recipe',
+    name: 'SrTiO₃ 10 µm — Measurement Recipe',
+    description:
+      'A whole measurement protocol as one waveform sequence on the fitted ' +
+      '10 µm SrTiO₃ device: a forming ramp to +1 V, two ±1 V triangle ' +
+      'sweeps, a burst of 10 SET and 10 RESET pulses with reads, and a ' +
+      'rest under a 0.1 V read bias.',
+    citation: 'Fitted: fitted/10um_-2V_4_TT_original',
+    modelId: 'yakopcic_new',
+    signalType: 'sequence',
+    signalParams: { vp: 1, vn: 2, frequency: 1 / 50.66 },
+    modelParams: {
+      gmax_p: 9e-5, bmax_p: 4.96, gmax_n: 1.7e-4, bmax_n: 3.23,
+      gmin_p: 1.5e-5, bmin_p: 6.91, gmin_n: 4.4e-7, bmin_n: 2.6,
+      Ap: 90, An: 10, Vp: 0.5, Vn: 0.5,
+      alphap: 1, alphan: 1, xp: 0.1, xn: 0.242,
+      eta: 1,
+    },
+    x0: 0,
+    tMax: 75.5,
+    sequence: {
+      mode: 'concatenate',
+      segments: [
+        { generator: 'ramp', duration: 5, delay: 0, offset: 0, amplitude: 1, frequency: 1 },
+        { generator: 'triangle', duration: 50, delay: 0, offset: 0, amplitude: 1, frequency: 0.04 },
+        {
+          generator: 'pulse', duration: 10.5, delay: 0, offset: 0, amplitude: 1, frequency: 1,
+          pulse: {
+            vSet: 1, vReset: 2, width: 0.1, rise: 0.01, fall: 0.01, period: 0.5,
+            count: 10, polarity: 'setReset', vRead: 0.1, readWidth: 0.1,
+          },
+        },
+        { generator: 'dc', duration: 10, delay: 0, offset: 0, amplitude: 0.1, frequency: 1 },
+      ],
+    },
+    ivShapes: { on: 'mim_mim', off: 'mim_mim' },
+  },
 ];
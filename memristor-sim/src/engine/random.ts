@@ -0,0 +1,46 @@
+/**
+ * Seedable pseudo-random number generation.
+ *
+ * Stochastic simulations must be reproducible: the same seed always gives
+ * the same noise realisation, so a run can be shared or revisited. Math.random
+ * cannot be seeded, so a small Mulberry32 generator is used instead. It
+ * is fast and statistically adequate for simulation noise, though not
+ * cryptographically secure.
+ */
+
+export interface RandomSource {
+  /** Uniform sample in [0, 1). */
+  uniform(): number;
+  /** Standard normal sample, N(0, 1). */
+  normal(): number;
+}
+
+/** Create a generator whose sequence is fully determined by `seed`. */
+export function createRandom(seed: number): RandomSource {
+  let a = seed >>> 0;
+  let spare: number | null = null;
+
+  const uniform = (): number => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  // Box-Muller transform, caching the second sample of each pair
+  const normal = (): number => {
+    if (spare !== null) {
+      const z = spare;
+      spare = null;
+      return z;
+    }
+    const u1 = 1 - uniform(); // (0, 1], avoids log(0)
+    const u2 = uniform();
+    const r = Math.sqrt(-2 * Math.log(u1));
+    spare = r * Math.sin(2 * Math.PI * u2);
+    return r * Math.cos(2 * Math.PI * u2);
+  };
+
+  return { uniform, normal };
+}
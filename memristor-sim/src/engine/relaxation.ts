@@ -0,0 +1,139 @@
+/**
+ * Optional volatile state relaxation.
+ *
+ * Many devices do not hold their programmed state: diffusive (Ag, Cu)
+ * filaments dissolve and trapped charge detraps, so the state decays
+ * back towards a rest value x_rest once the drive is removed. This module
+ * adds a relaxation term to the primary state equation of any model:
+ *
+ *   exponential:  dx/dt = f(x, V) − (x − x_rest) / τ
+ *
+ * which relaxes as x − x_rest ∝ exp(−t/τ), or
+ *
+ *   stretched:    dx/dt = f(x, V) − (β/τ)·(−ln u)^(1 − 1/β)·(x − x_rest)
+ *
+ * with u = |x − x_rest| / Δ the deviation as a fraction of the largest
+ * possible deviation Δ on that side of x_rest. Starting from the state
+ * limit (u = 1) this reproduces the Kohlrausch-Williams-Watts decay
+ * x − x_rest ∝ exp(−(t/τ)^β) seen in retention measurements, while
+ * depending only on the current state. β = 1 recovers the exponential.
+ *
+ * For β < 1 the rate diverges at u = 1 (the KWW curve starts with
+ * infinite slope), so −ln u is floored at 10⁻³.
+ *
+ * Models that stop their state at a parameter-dependent limit (the
+ * Stanford/ASU gap) do so by returning a zero rate. Where the drive just
+ * inside that limit outweighs the relaxation, the state is held at the
+ * limit, as the two terms would otherwise chatter across it.
+ */
+
+import type {
+  ParameterInfo,
+  ParamValues,
+  StateVariableInfo,
+  VectorMemristorModel,
+} from './models/types.ts';
+
+export type RelaxationType = 'none' | 'exponential' | 'stretched';
+
+export const RELAXATION_OPTIONS: { value: RelaxationType; label: string }[] = [
+  { value: 'none', label: 'None' },
+  { value: 'exponential', label: 'Exponential' },
+  { value: 'stretched', label: 'Stretched' },
+];
+
+/** Smallest −ln u used by the stretched form, bounding its initial rate. */
+const MIN_LOG_DEVIATION = 1e-3;
+
+/** Offset, as a fraction of the state range, used to probe past a limit. */
+const SLIDING_PROBE = 1e-6;
+
+/**
+ * Parameters of the relaxation term for a model whose primary state is
+ * `state`. The rest state defaults to the state's default value, which is
+ * the as-fabricated (high-resistance) state for the built-in models.
+ */
+export function relaxationParameterInfo(
+  state: StateVariableInfo,
+  type: RelaxationType,
+): ParameterInfo[] {
+  if (type === 'none') return [];
+  const info: ParameterInfo[] = [
+    {
+      name: 'tauR', symbol: '\\tau_r', default: 10,
+      min: 1e-6, max: 1e8, step: 1e-6,
+      unit: 's', group: 'relaxation',
+      description:
+        'Relaxation time constant. Volatile diffusive devices relax in ' +
+        'micro- to milliseconds; non-volatile devices retain their state ' +
+        'for years (τ > 10⁸ s).',
+    },
+    {
+      name: 'xRest', symbol: `${state.symbol}_{\\mathrm{rest}}`, default: state.default,
+      min: state.min, max: state.max, step: (state.max - state.min) / 1000,
+      unit: state.unit, group: 'relaxation',
+      description:
+        `Rest value of ${state.name} that the state decays towards without ` +
+        'drive, e.g. the high-resistance state of a dissolving filament.',
+    },
+  ];
+  if (type === 'stretched') {
+    info.push({
+      name: 'betaR', symbol: '\\beta_r', default: 0.5,
+      min: 0.1, max: 1, step: 0.01,
+      unit: '', group: 'relaxation',
+      description:
+        'Stretch exponent of the Kohlrausch-Williams-Watts decay. Values ' +
+        'below 1 describe a distribution of relaxation times: a fast ' +
+        'initial drop followed by a long tail. β = 1 is a single exponential.',
+    });
+  }
+  return info;
+}
+
+/**
+ * Add the relaxation term to the primary state component of a model.
+ * The remaining components (e.g. temperature) are left unchanged.
+ */
+export function withRelaxation(
+  model: VectorMemristorModel,
+  type: RelaxationType,
+): VectorMemristorModel {
+  if (type === 'none') return model;
+  const { min, max } = model.stateInfo[0];
+  const dydt = new Float64Array(model.stateInfo.length);
+  const nudge = SLIDING_PROBE * (max - min);
+
+  const rate = (x: number, p: ParamValues): number => {
+    const deviation = x - p.xRest;
+    if (type === 'exponential') return -deviation / p.tauR;
+    const span = deviation > 0 ? max - p.xRest : p.xRest - min;
+    if (deviation === 0 || span <= 0) return 0;
+    const logU = Math.max(-Math.log(Math.min(1, Math.abs(deviation) / span)), MIN_LOG_DEVIATION);
+    return -(p.betaR / p.tauR) * Math.pow(logU, 1 - 1 / p.betaR) * deviation;
+  };
+
+  return {
+    ...model,
+    jacobian: undefined,
+
+    dxdt(t, x, vFunc, p, windowFunc) {
+      dydt.set(model.dxdt(t, x, vFunc, p, windowFunc));
+      const relax = rate(x[0], p);
+
+      // A model that stops its state at a limit returns exactly zero there.
+      // If relaxation would pull the state off the limit straight back
+      // into a stronger drive, the state is held instead of chattering
+      // across the limit.
+      if (dydt[0] === 0 && relax !== 0) {
+        const probe = Float64Array.from(x);
+        probe[0] += Math.sign(relax) * nudge;
+        const drive = model.dxdt(t, probe, vFunc, p, windowFunc)[0];
+        if (drive * relax < 0 && Math.abs(drive) > Math.abs(relax)) return dydt;
+      }
+
+      dydt[0] += relax;
+      return dydt;
+    },
+  };
+}
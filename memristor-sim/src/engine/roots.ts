@@ -0,0 +1,43 @@
+/**
+ * Scalar root finding for the implicit voltage solves of the measurement
+ * circuit (load.ts) and current drive (drive.ts).
+ */
+
+/** Relative tolerance on the root. */
+const TOLERANCE = 1e-10;
+const MAX_ITERATIONS = 100;
+
+/**
+ * Root of f between a and b by the Illinois variant of regula falsi,
+ * which converges superlinearly without derivatives. If f does not
+ * change sign on [a, b], the endpoint closer to a root is returned.
+ */
+export function findRoot(f: (v: number) => number, a: number, b: number): number {
+  let fa = f(a);
+  let fb = f(b);
+  if (fa === 0) return a;
+  if (fb === 0 || a === b) return b;
+  if (Math.sign(fa) === Math.sign(fb)) return Math.abs(fa) < Math.abs(fb) ? a : b;
+
+  const tol = TOLERANCE * Math.max(Math.abs(a), Math.abs(b));
+  let side = 0;
+  let c = NaN;
+  for (let k = 0; k < MAX_ITERATIONS; k++) {
+    const previous = c;
+    c = (a * fb - b * fa) / (fb - fa);
+    const fc = f(c);
+    if (fc === 0 || Math.abs(c - previous) <= tol) break;
+    if (Math.sign(fc) === Math.sign(fb)) {
+      b = c;
+      fb = fc;
+      if (side === -1) fa /= 2;
+      side = -1;
+    } else {
+      a = c;
+      fa = fc;
+      if (side === 1) fb /= 2;
+      side = 1;
+    }
+  }
+  return c;
+}
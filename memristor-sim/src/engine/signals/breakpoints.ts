@@ -0,0 +1,60 @@
+/**
+ * Breakpoint helpers for piecewise signals.
+ */
+
+import type { InputSignal } from './types.ts';
+
+/**
+ * Longest grid of breakpoints listed. Beyond this the signal is far
+ * faster than the output can resolve, and the solver could not step onto
+ * every breakpoint within its step budget anyway.
+ */
+const MAX_GRID_BREAKPOINTS = 50_000;
+
+/** Attach a breakpoint list to a signal function. */
+export function withBreakpoints(
+  signal: (t: number) => number,
+  breakpoints: (t0: number, t1: number) => number[],
+): InputSignal {
+  return Object.assign(signal, { breakpoints });
+}
+
+/**
+ * The multiples of `spacing` strictly inside (t0, t1), or none if there
+ * are more than MAX_GRID_BREAKPOINTS.
+ */
+export function gridBreakpoints(t0: number, t1: number, spacing: number): number[] {
+  const times: number[] = [];
+  if (!(spacing > 0) || (t1 - t0) / spacing > MAX_GRID_BREAKPOINTS) return times;
+  for (let m = Math.floor(t0 / spacing) + 1; m * spacing < t1; m++) {
+    if (m * spacing > t0) times.push(m * spacing);
+  }
+  return times;
+}
+
+/**
+ * The times `offset + m·period` strictly inside (t0, t1), for every offset
+ * of `offsets` (increasing, within [0, period)) and every whole m ≥ 0, or
+ * none if there are more than MAX_GRID_BREAKPOINTS. A period of Infinity
+ * lists each offset once.
+ */
+export function periodicBreakpoints(
+  t0: number,
+  t1: number,
+  offsets: ArrayLike<number>,
+  period: number,
+): number[] {
+  const times: number[] = [];
+  if (offsets.length === 0 || !(period > 0)) return times;
+  const first = Number.isFinite(period) ? Math.max(0, Math.floor(t0 / period)) : 0;
+  const last = Number.isFinite(period) ? Math.floor(t1 / period) : 0;
+  if ((last - first + 1) * offsets.length > MAX_GRID_BREAKPOINTS) return times;
+  for (let m = first; m <= last; m++) {
+    const base = Number.isFinite(period) ? m * period : 0;
+    for (let k = 0; k < offsets.length; k++) {
+      const t = base + offsets[k];
+      if (t > t0 && t < t1 && t !== times[times.length - 1]) times.push(t);
+    }
+  }
+  return times;
+}
@@ -1,3 +1,43 @@
 export { createSineSignal } from './sine.ts';
 export { createTriangleSignal } from './triangle.ts';
+export { createRetentionSignal, retentionTimes } from './retention.ts';
+export type { RetentionParams } from './retention.ts';
+export {
+  createPwlSignal,
+  formatPwlTable,
+  parsePwl,
+  parseSpiceNumber,
+  pwlDuration,
+  pwlPeriod,
+  PWL_INTERPOLATION_OPTIONS,
+} from './pwl.ts';
+export type { ParsedPwl, PwlInterpolation, PwlParams, PwlTable } from './pwl.ts';
+export {
+  createPulseSignal,
+  pulseReadTimes,
+  pulseSequence,
+  pulseTrainDuration,
+  validatePulseTrain,
+  PULSE_POLARITY_OPTIONS,
+} from './pulse.ts';
+export type { PulsePolarity, PulseTrainParams } from './pulse.ts';
+export {
+  createStaircaseSignal,
+  staircaseDuration,
+  staircaseLevels,
+  staircaseReadTimes,
+  staircaseStepCount,
+} from './staircase.ts';
+export type { StaircaseParams } from './staircase.ts';
+export {
+  createSequenceSignal,
+  generatorDuration,
+  segmentStarts,
+  sequenceDuration,
+  validateSequence,
+  SEGMENT_GENERATOR_OPTIONS,
+  SEQUENCE_MODE_OPTIONS,
+} from './sequence.ts';
+export type { SegmentGenerator, SequenceMode, SequenceParams, SequenceSegment } from './sequence.ts';
 export type { InputSignal, SignalType, SignalParams } from './types.ts';
+export { gridBreakpoints, periodicBreakpoints, withBreakpoints } from './breakpoints.ts';
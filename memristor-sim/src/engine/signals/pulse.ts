@@ -0,0 +1,144 @@
+/**
+ * Pulse train for potentiation/depression experiments.
+ *
+ * Synaptic characterisation applies trains of identical SET pulses, then
+ * RESET pulses, and follows the conductance pulse by pulse with small
+ * read pulses in between. The train is a sequence of slots of length
+ * `period`. Every slot starts with a trapezoidal write pulse (linear
+ * rise, plateau of `width` at full amplitude, linear fall) and, with a
+ * non-zero read amplitude, has a rectangular read pulse centred in the
+ * gap after it. A read-only slot opens the train, so the first read
+ * gives the conductance before any pulse (pulse 0). After the train the
+ * signal stays at 0.
+ *
+ * Every corner of a pulse is a breakpoint, and the read times are output
+ * times of the simulation, so the readout is taken from the solution
+ * itself rather than interpolated between samples.
+ */
+
+import { periodicBreakpoints, withBreakpoints } from './breakpoints.ts';
+import type { InputSignal } from './types.ts';
+
+/**
+ * Order of the write pulses:
+ *   set          — `count` SET pulses (potentiation)
+ *   reset        — `count` RESET pulses (depression)
+ *   setReset     — `count` SET pulses, then `count` RESET pulses
+ *   alternating  — `count` pulses alternating SET and RESET
+ */
+export type PulsePolarity = 'set' | 'reset' | 'setReset' | 'alternating';
+
+export const PULSE_POLARITY_OPTIONS: { value: PulsePolarity; label: string }[] = [
+  { value: 'set', label: 'SET' },
+  { value: 'reset', label: 'RESET' },
+  { value: 'setReset', label: 'SET → RESET' },
+  { value: 'alternating', label: 'Alternating' },
+];
+
+export interface PulseTrainParams {
+  /** SET pulse amplitude (V, or A under current drive). */
+  vSet: number;
+  /** RESET pulse amplitude, applied with negative sign. */
+  vReset: number;
+  /** Plateau width of a write pulse (s). */
+  width: number;
+  /** Rise and fall times of a write pulse (s). */
+  rise: number;
+  fall: number;
+  /** Start-to-start spacing of the pulses (s). */
+  period: number;
+  /** Number of write pulses of each polarity (or in all, when alternating). */
+  count: number;
+  polarity: PulsePolarity;
+  /** Read pulse amplitude; 0 for no read pulses. */
+  vRead: number;
+  /** Read pulse width (s). */
+  readWidth: number;
+}
+
+/** Polarity (+1 SET, −1 RESET) of every write pulse, in order. */
+export function pulseSequence(params: PulseTrainParams): number[] {
+  const count = Math.max(0, Math.round(params.count));
+  switch (params.polarity) {
+    case 'set':
+      return new Array<number>(count).fill(1);
+    case 'reset':
+      return new Array<number>(count).fill(-1);
+    case 'setReset':
+      return [...new Array<number>(count).fill(1), ...new Array<number>(count).fill(-1)];
+    case 'alternating':
+      return Array.from({ length: count }, (_, k) => (k % 2 === 0 ? 1 : -1));
+  }
+}
+
+/** Whether the train has read pulses. */
+function reads(params: PulseTrainParams): boolean {
+  return params.vRead !== 0 && params.readWidth > 0;
+}
+
+/** Duration (s) of the whole train, including the opening read slot. */
+export function pulseTrainDuration(params: PulseTrainParams): number {
+  return (pulseSequence(params).length + (reads(params) ? 1 : 0)) * params.period;
+}
+
+/**
+ * Times of the read pulses' centres, one per slot with the opening read
+ * first, so entry k follows write pulse k (k = 0: before any pulse).
+ * Empty without read pulses.
+ */
+export function pulseReadTimes(params: PulseTrainParams): number[] {
+  if (!reads(params)) return [];
+  const { period } = params;
+  const centre = readStart(params) + params.readWidth / 2;
+  return Array.from({ length: pulseSequence(params).length + 1 }, (_, k) => k * period + centre);
+}
+
+/** Start of the read pulse within its slot: centred in the gap after the write pulse. */
+function readStart({ rise, width, fall, period, readWidth }: PulseTrainParams): number {
+  const writeEnd = rise + width + fall;
+  return writeEnd + (period - writeEnd - readWidth) / 2;
+}
+
+/** Check that the pulses fit in their period; throws otherwise. */
+export function validatePulseTrain(params: PulseTrainParams): void {
+  const { rise, width, fall, period, readWidth } = params;
+  if (!(period > 0) || !(width > 0) || rise < 0 || fall < 0 || readWidth < 0) {
+    throw new Error('Pulse period and width must be positive, rise and fall times not negative.');
+  }
+  const busy = rise + width + fall + (reads(params) ? readWidth : 0);
+  if (busy > period) {
+    throw new Error(
+      `A write pulse and its read pulse take ${busy} s, longer than the pulse period of ${period} s.`,
+    );
+  }
+}
+
+export function createPulseSignal(params: PulseTrainParams): InputSignal {
+  validatePulseTrain(params);
+  const { vSet, vReset, width, rise, fall, period, vRead, readWidth } = params;
+  const sequence = pulseSequence(params);
+  const lead = reads(params) ? 1 : 0;
+  const slots = sequence.length + lead;
+  const read0 = readStart(params);
+  const read1 = read0 + readWidth;
+
+  const signal = (t: number): number => {
+    const slot = Math.floor(t / period);
+    if (t < 0 || slot >= slots) return 0;
+    const local = t - slot * period;
+    if (lead && local >= read0 && local < read1) return vRead;
+    const polarity = slot >= lead ? sequence[slot - lead] : 0;
+    if (polarity === 0) return 0;
+    const amplitude = polarity > 0 ? vSet : -vReset;
+    if (local < rise) return (amplitude * local) / rise;
+    if (local < rise + width) return amplitude;
+    if (local < rise + width + fall) return amplitude * (1 - (local - rise - width) / fall);
+    return 0;
+  };
+
+  const corners = [0, rise, rise + width, rise + width + fall];
+  const offsets = lead ? [...corners, read0, read1] : corners;
+  return withBreakpoints(signal, (t0, t1) =>
+    periodicBreakpoints(t0, Math.min(t1, slots * period), offsets, period),
+  );
+}
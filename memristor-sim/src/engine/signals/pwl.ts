@@ -0,0 +1,262 @@
+/**
+ * Piecewise-linear (PWL) signal from a time–value table.
+ *
+ * The same stimulus can drive the simulator and a SPICE testbench: the
+ * table is read either as plain rows of time and value, the format of
+ * LTspice's `PWL file=` files (e.g. SPICE model/PWL_2V.txt), or as an
+ * inline SPICE source specification such as
+ *
+ *   V1 in 0 PWL(0 0 1 1 2 -2 3 0) r=0
+ *
+ * with SPICE scale suffixes (1m, 10u, 1meg), `r=0` repetition, `td=`
+ * delay, `TIME_SCALE_FACTOR=` and `VALUE_SCALE_FACTOR=`, and LTspice's
+ * `REPEAT FOREVER (…) ENDREPEAT`.
+ *
+ * Like SPICE, the signal holds the first value before the first point
+ * and the last value after the last one, unless the table repeats with
+ * a period equal to its last time. Between points it either ramps
+ * linearly (SPICE semantics) or holds the previous value, as a stepped
+ * source meter does. Two points at the same time make an instantaneous
+ * jump. The slope or value changes at every point, so the points are the
+ * signal's breakpoints.
+ */
+
+import { periodicBreakpoints, withBreakpoints } from './breakpoints.ts';
+import type { InputSignal } from './types.ts';
+
+/**
+ * How the signal runs between two points:
+ *   linear — straight ramp, as in SPICE
+ *   step   — hold the earlier value until the next point
+ */
+export type PwlInterpolation = 'linear' | 'step';
+
+export const PWL_INTERPOLATION_OPTIONS: { value: PwlInterpolation; label: string }[] = [
+  { value: 'linear', label: 'Linear' },
+  { value: 'step', label: 'Step' },
+];
+
+/** Points of a PWL table, in non-decreasing time order. */
+export interface PwlTable {
+  /** Point times (s) before scaling, starting at or after 0. */
+  times: number[];
+  /** Point values (V, or A under current drive). */
+  values: number[];
+}
+
+export interface PwlParams extends PwlTable {
+  interpolation: PwlInterpolation;
+  /** Repeat the table every duration instead of holding the last value. */
+  repeat: boolean;
+  /** Factor applied to every point time. */
+  timeScale: number;
+}
+
+/** A parsed table, with the options its SPICE source specification set. */
+export interface ParsedPwl extends PwlTable {
+  repeat?: boolean;
+  timeScale?: number;
+}
+
+/** SPICE scale suffixes, longest first so that `meg` is not read as milli. */
+const SPICE_SUFFIXES: [string, number][] = [
+  ['meg', 1e6],
+  ['mil', 25.4e-6],
+  ['t', 1e12],
+  ['g', 1e9],
+  ['k', 1e3],
+  ['m', 1e-3],
+  ['u', 1e-6],
+  ['µ', 1e-6],
+  ['n', 1e-9],
+  ['p', 1e-12],
+  ['f', 1e-15],
+];
+
+const NUMBER_PATTERN = /^([+-]?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?)([a-zµ]*)$/i;
+
+/**
+ * A number in SPICE notation: a decimal with an optional scale suffix
+ * followed by any unit letters, which SPICE ignores (`2.5ms`, `1V`).
+ * NaN if the token is not a number.
+ */
+export function parseSpiceNumber(token: string): number {
+  const match = NUMBER_PATTERN.exec(token.trim());
+  if (!match) return NaN;
+  const value = parseFloat(match[1]);
+  const suffix = match[2].toLowerCase();
+  const scale = SPICE_SUFFIXES.find(([s]) => suffix.startsWith(s));
+  return scale ? value * scale[1] : value;
+}
+
+/**
+ * Read a PWL table from text: a SPICE PWL source specification if the
+ * text contains one, otherwise rows of time and value separated by
+ * commas, semicolons or whitespace. Rows before the first numeric one
+ * (headers) are skipped, as are comment lines starting with #, * or ;.
+ * Columns after the second are ignored.
+ */
+export function parsePwl(text: string): ParsedPwl {
+  const parsed = /\bpwl\b/i.test(text) ? parseSpicePwl(text) : parseRows(text);
+  validateTable(parsed);
+  return parsed;
+}
+
+function parseRows(text: string): ParsedPwl {
+  const times: number[] = [];
+  const values: number[] = [];
+  const lines = text.split(/\r?\n/);
+  lines.forEach((line, i) => {
+    const trimmed = line.trim();
+    if (!trimmed || /^(#|\*|;|\/\/)/.test(trimmed)) return;
+    const [time, value] = trimmed.split(/[\s,;]+/).map(parseSpiceNumber);
+    if (Number.isFinite(time) && Number.isFinite(value)) {
+      times.push(time);
+      values.push(value);
+    } else if (times.length > 0) {
+      throw new Error(`Line ${i + 1}: expected a time and a value, got "${trimmed}".`);
+    }
+  });
+  return { times, values };
+}
+
+function parseSpicePwl(text: string): ParsedPwl {
+  // Join continuation lines and drop comments
+  const spec = text
+    .split(/\r?\n/)
+    .filter((line) => !line.trim().startsWith('*'))
+    .map((line) => line.replace(/;.*$/, ''))
+    .join('\n')
+    .replace(/\n\s*\+/g, ' ');
+  const rest = spec.slice(spec.search(/\bpwl\b/i) + 3);
+
+  if (/^\s*file\s*=/i.test(rest)) {
+    throw new Error('PWL file= refers to another file; paste or upload that file instead.');
+  }
+  let repeat = false;
+  let body: string;
+  let options: string;
+  const forever = /^\s*repeat\s+forever\s*\(([^)]*)\)\s*endrepeat(.*)$/is.exec(rest);
+  const parenthesised = /^\s*\(([^)]*)\)(.*)$/s.exec(rest);
+  if (forever) {
+    repeat = true;
+    [, body, options] = forever;
+  } else if (/^\s*repeat\b/i.test(rest)) {
+    throw new Error('Only REPEAT FOREVER is supported; list a finite repetition point by point.');
+  } else if (parenthesised) {
+    [, body, options] = parenthesised;
+  } else {
+    // Unparenthesised list: the points run up to the first option
+    const optionStart = rest.search(/\S+\s*=/);
+    body = optionStart < 0 ? rest : rest.slice(0, optionStart);
+    options = optionStart < 0 ? '' : rest.slice(optionStart);
+  }
+
+  const tokens = body.split(/[\s,]+/).filter(Boolean);
+  if (tokens.length % 2 !== 0) {
+    throw new Error('PWL needs time and value pairs, but an odd number of entries was given.');
+  }
+  const times: number[] = [];
+  const values: number[] = [];
+  for (let k = 0; k < tokens.length; k += 2) {
+    const time = parseSpiceNumber(tokens[k]);
+    const value = parseSpiceNumber(tokens[k + 1]);
+    if (!Number.isFinite(time) || !Number.isFinite(value)) {
+      throw new Error(`PWL point ${k / 2 + 1}: "${tokens[k]} ${tokens[k + 1]}" is not a time and a value.`);
+    }
+    times.push(time);
+    values.push(value);
+  }
+
+  let timeScale: number | undefined;
+  let delay = 0;
+  for (const [, key, raw] of options.matchAll(/(\w+)\s*=\s*(\S+)/g)) {
+    const value = parseSpiceNumber(raw);
+    if (!Number.isFinite(value)) throw new Error(`PWL option ${key}=${raw} is not a number.`);
+    switch (key.toLowerCase()) {
+      case 'r':
+        if (value !== 0) throw new Error('Only r=0 (repeat the whole table) is supported.');
+        repeat = true;
+        break;
+      case 'td':
+        delay = value;
+        break;
+      case 'time_scale_factor':
+        timeScale = value;
+        break;
+      case 'value_scale_factor':
+        for (let k = 0; k < values.length; k++) values[k] *= value;
+        break;
+      default:
+        throw new Error(`Unsupported PWL option ${key}.`);
+    }
+  }
+  // The delay is in seconds, so it is added after the time scale
+  if (delay !== 0) {
+    const shift = delay / (timeScale ?? 1);
+    for (let k = 0; k < times.length; k++) times[k] += shift;
+  }
+  return { times, values, repeat: repeat || undefined, timeScale };
+}
+
+function validateTable({ times, values, timeScale }: ParsedPwl): void {
+  if (times.length < 2) throw new Error('A PWL table needs at least two points.');
+  if (times[0] < 0) throw new Error('PWL times must not be negative.');
+  if (!(times[times.length - 1] > 0)) throw new Error('A PWL table must end after t = 0.');
+  for (let k = 1; k < times.length; k++) {
+    if (times[k] < times[k - 1]) {
+      throw new Error(`PWL times must not decrease (point ${k + 1}: ${times[k]} s after ${times[k - 1]} s).`);
+    }
+  }
+  if (!values.every(Number.isFinite)) throw new Error('PWL values must be finite.');
+  if (timeScale !== undefined && !(timeScale > 0)) {
+    throw new Error('The PWL time scale factor must be positive.');
+  }
+}
+
+/** Duration (s) of the scaled table: the time of its last point. */
+export function pwlDuration(params: PwlParams): number {
+  return params.times[params.times.length - 1] * params.timeScale;
+}
+
+/** The table as `time,value` rows, the format parsePwl and LTspice read. */
+export function formatPwlTable({ times, values }: PwlTable): string {
+  return times.map((t, k) => `${t},${values[k]}`).join('\n');
+}
+
+/** Period (s) of a repeating table, or null for one played once. */
+export function pwlPeriod(params: PwlParams): number | null {
+  const duration = pwlDuration(params);
+  return params.repeat && duration > 0 ? duration : null;
+}
+
+export function createPwlSignal(params: PwlParams): InputSignal {
+  const { values, interpolation } = params;
+  const times = params.times.map((t) => t * params.timeScale);
+  const n = times.length;
+  const duration = times[n - 1];
+  const period = pwlPeriod(params) ?? Infinity;
+
+  const signal = (t: number): number => {
+    const local = Number.isFinite(period) ? t - period * Math.floor(t / period) : t;
+    if (local < times[0]) return values[0];
+    if (local >= duration) return values[n - 1];
+    // Last point at or before `local`, so times[i + 1] > local
+    let lo = 0;
+    let hi = n - 1;
+    while (hi - lo > 1) {
+      const mid = (lo + hi) >> 1;
+      if (times[mid] <= local) lo = mid;
+      else hi = mid;
+    }
+    if (interpolation === 'step') return values[lo];
+    const fraction = (local - times[lo]) / (times[lo + 1] - times[lo]);
+    return values[lo] + fraction * (values[lo + 1] - values[lo]);
+  };
+
+  // Every point within a period, plus the wrap-around at its start
+  const offsets = Number.isFinite(period)
+    ? [0, ...times.filter((t) => t > 0 && t < period)]
+    : times;
+  return withBreakpoints(signal, (t0, t1) => periodicBreakpoints(t0, t1, offsets, period));
+}
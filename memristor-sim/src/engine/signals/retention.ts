@@ -0,0 +1,71 @@
+/**
+ * Retention experiment: program, then read.
+ *
+ * A single rectangular programming pulse of amplitude vProgram and width
+ * tProgram is followed by a constant low read bias vRead for the rest of
+ * the simulation. The read bias is chosen below the switching thresholds
+ * so that the current monitors the state without disturbing it, and any
+ * change in the read current comes from state relaxation.
+ *
+ * Retention is measured over many decades of time (milliseconds to days),
+ * so the read phase is sampled at log-spaced delays after the pulse.
+ */
+
+import { withBreakpoints } from './breakpoints.ts';
+import type { InputSignal } from './types.ts';
+
+export interface RetentionParams {
+  /** Programming pulse amplitude (V); negative programs the opposite state. */
+  vProgram: number;
+  /** Programming pulse width (s). */
+  tProgram: number;
+  /** Read bias applied after the pulse (V). */
+  vRead: number;
+}
+
+/** Fraction of the output points spent resolving the programming pulse. */
+const PULSE_FRACTION = 0.1;
+
+/** First read delay after the pulse, relative to the pulse width. */
+const FIRST_READ_DELAY = 1e-3;
+
+export function createRetentionSignal(params: RetentionParams): InputSignal {
+  const { vProgram, tProgram, vRead } = params;
+  return withBreakpoints(
+    (t: number): number => (t < tProgram ? vProgram : vRead),
+    (t0, t1) => (tProgram > t0 && tProgram < t1 ? [tProgram] : []),
+  );
+}
+
+/**
+ * Output times of a retention experiment: evenly spaced across the pulse,
+ * then log-spaced delays from FIRST_READ_DELAY·tProgram after the pulse
+ * up to tMax. Returned as the two phases, which share their boundary
+ * point, so the pulse edge is never stepped over by the solver.
+ */
+export function retentionTimes(
+  params: RetentionParams,
+  tMax: number,
+  numPoints: number,
+): { program: Float64Array; read: Float64Array } {
+  const { tProgram } = params;
+  if (!(tProgram > 0) || tMax <= tProgram) {
+    throw new Error('Retention experiment needs 0 < t_program < t_max.');
+  }
+
+  const nProgram = Math.max(2, Math.round(numPoints * PULSE_FRACTION));
+  const nRead = Math.max(2, numPoints - nProgram + 1);
+
+  const program = new Float64Array(nProgram);
+  for (let i = 0; i < nProgram; i++) program[i] = (tProgram * i) / (nProgram - 1);
+
+  const logLast = Math.log(tMax - tProgram);
+  const logFirst = Math.min(Math.log(FIRST_READ_DELAY * tProgram), logLast);
+  const read = new Float64Array(nRead);
+  read[0] = tProgram;
+  for (let i = 1; i < nRead; i++) {
+    read[i] = tProgram + Math.exp(logFirst + ((logLast - logFirst) * (i - 1)) / (nRead - 2));
+  }
+  read[nRead - 1] = tMax;
+  return { program, read };
+}
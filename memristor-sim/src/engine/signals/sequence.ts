@@ -0,0 +1,196 @@
+/**
+ * Waveform sequence: a measurement recipe built from segments.
+ *
+ * Real protocols chain segments — a forming ramp, a few triangle sweeps,
+ * a pulse burst, a rest — which no single periodic shape describes. A
+ * sequence lists segments, each with its own generator, and either plays
+ * them one after another (concatenate) or adds them up (sum). A segment
+ * is active for `duration` seconds from its start, and contributes
+ *
+ *   offset + amplitude · g(t − start)
+ *
+ * while active and nothing otherwise, where g is its generator:
+ *   dc        1, so the level is offset + amplitude (a rest at 0)
+ *   ramp      rises linearly from 0 to 1 over the segment
+ *   sine      sin(2πft)
+ *   triangle  0 → 1 → 0 → −1 → 0 every 1/f
+ *   pulse, staircase, pwl
+ *             the signal of that type with the segment's own settings,
+ *             so the amplitude is a factor on their levels
+ *
+ * When concatenated, a segment starts `delay` after the previous one
+ * ends; when summed, `delay` after t = 0. The signal is 0 between
+ * segments and after the last one. The edges of every segment and the
+ * breakpoints of its generator are breakpoints of the sequence.
+ */
+
+import { gridBreakpoints, withBreakpoints } from './breakpoints.ts';
+import { createPulseSignal, pulseTrainDuration } from './pulse.ts';
+import type { PulseTrainParams } from './pulse.ts';
+import { createPwlSignal, pwlDuration } from './pwl.ts';
+import type { PwlParams } from './pwl.ts';
+import { createSineSignal } from './sine.ts';
+import { createStaircaseSignal, staircaseDuration } from './staircase.ts';
+import type { StaircaseParams } from './staircase.ts';
+import { createTriangleSignal } from './triangle.ts';
+import type { InputSignal } from './types.ts';
+
+export type SegmentGenerator = 'dc' | 'ramp' | 'sine' | 'triangle' | 'pulse' | 'staircase' | 'pwl';
+
+export const SEGMENT_GENERATOR_OPTIONS: { value: SegmentGenerator; label: string }[] = [
+  { value: 'dc', label: 'DC / rest' },
+  { value: 'ramp', label: 'Ramp' },
+  { value: 'sine', label: 'Sine' },
+  { value: 'triangle', label: 'Triangle' },
+  { value: 'pulse', label: 'Pulse train' },
+  { value: 'staircase', label: 'Staircase' },
+  { value: 'pwl', label: 'PWL' },
+];
+
+/**
+ * How the segments combine:
+ *   concatenate — one after another
+ *   sum         — added up, each from its own delay after t = 0
+ */
+export type SequenceMode = 'concatenate' | 'sum';
+
+export const SEQUENCE_MODE_OPTIONS: { value: SequenceMode; label: string }[] = [
+  { value: 'concatenate', label: 'Concatenate' },
+  { value: 'sum', label: 'Sum' },
+];
+
+export interface SequenceSegment {
+  generator: SegmentGenerator;
+  /** Time the segment is active (s). */
+  duration: number;
+  /** Idle time (s) before the segment: after the previous one (concatenate) or after t = 0 (sum). */
+  delay: number;
+  /** Level added while the segment is active (V, or A under current drive). */
+  offset: number;
+  /** Peak of the generator, or the factor on the levels of pulse, staircase and PWL segments. */
+  amplitude: number;
+  /** Frequency (Hz) of sine and triangle segments. */
+  frequency: number;
+  /** Settings of pulse, staircase and PWL segments. */
+  pulse?: PulseTrainParams;
+  staircase?: StaircaseParams;
+  pwl?: PwlParams;
+}
+
+export interface SequenceParams {
+  mode: SequenceMode;
+  segments: SequenceSegment[];
+}
+
+/** Duration (s) of the settings of a pulse, staircase or PWL segment; undefined for the others. */
+export function generatorDuration(segment: SequenceSegment): number | undefined {
+  switch (segment.generator) {
+    case 'pulse':
+      return segment.pulse && pulseTrainDuration(segment.pulse);
+    case 'staircase':
+      return segment.staircase && staircaseDuration(segment.staircase);
+    case 'pwl':
+      return segment.pwl && pwlDuration(segment.pwl);
+    default:
+      return undefined;
+  }
+}
+
+/** Start time (s) of every segment. */
+export function segmentStarts({ mode, segments }: SequenceParams): number[] {
+  let end = 0;
+  return segments.map(({ delay, duration }) => {
+    const start = mode === 'sum' ? delay : end + delay;
+    end = start + duration;
+    return start;
+  });
+}
+
+/** Duration (s) of the sequence: the end of its last segment. */
+export function sequenceDuration(params: SequenceParams): number {
+  const starts = segmentStarts(params);
+  return params.segments.reduce((end, { duration }, k) => Math.max(end, starts[k] + duration), 0);
+}
+
+/** Check the segments; throws on the first one that cannot be played. */
+export function validateSequence({ segments }: SequenceParams): void {
+  if (segments.length === 0) throw new Error('A sequence needs at least one segment.');
+  segments.forEach((segment, k) => {
+    const name = `Segment ${k + 1}`;
+    if (!(segment.duration > 0) || !(segment.delay >= 0)) {
+      throw new Error(`${name}: the duration must be positive and the delay not negative.`);
+    }
+    if ((segment.generator === 'sine' || segment.generator === 'triangle') && !(segment.frequency > 0)) {
+      throw new Error(`${name}: the frequency must be positive.`);
+    }
+    if (
+      (segment.generator === 'pulse' || segment.generator === 'staircase' || segment.generator === 'pwl') &&
+      !segment[segment.generator]
+    ) {
+      throw new Error(`${name}: the ${segment.generator} segment has no settings.`);
+    }
+  });
+}
+
+/** The generator g of a segment, in time from the segment's start. */
+function createGenerator(segment: SequenceSegment): InputSignal {
+  const { duration, frequency } = segment;
+  switch (segment.generator) {
+    case 'dc':
+      return () => 1;
+    case 'ramp':
+      return (t: number) => t / duration;
+    case 'sine':
+      return createSineSignal({ vp: 1, frequency });
+    case 'triangle': {
+      // One 0 → 1 → 0 → −1 → 0 cycle, repeated
+      const period = 1 / frequency;
+      const cycle = createTriangleSignal({ vp: 1, frequency }, period);
+      return withBreakpoints(
+        (t: number) => cycle(t - period * Math.floor(t / period)),
+        (t0, t1) => gridBreakpoints(t0, t1, period / 4),
+      );
+    }
+    case 'pulse':
+      return createPulseSignal(segment.pulse!);
+    case 'staircase':
+      return createStaircaseSignal(segment.staircase!);
+    case 'pwl':
+      return createPwlSignal(segment.pwl!);
+  }
+}
+
+export function createSequenceSignal(params: SequenceParams): InputSignal {
+  validateSequence(params);
+  const starts = segmentStarts(params);
+  const parts = params.segments.map((segment, k) => ({
+    start: starts[k],
+    end: starts[k] + segment.duration,
+    offset: segment.offset,
+    amplitude: segment.amplitude,
+    generator: createGenerator(segment),
+  }));
+
+  const signal = (t: number): number => {
+    let value = 0;
+    for (const { start, end, offset, amplitude, generator } of parts) {
+      if (t >= start && t < end) value += offset + amplitude * generator(t - start);
+    }
+    return value;
+  };
+
+  const breakpoints = (t0: number, t1: number): number[] => {
+    const times: number[] = [];
+    for (const { start, end, generator } of parts) {
+      if (end <= t0 || start >= t1) continue;
+      if (start > t0) times.push(start);
+      if (end < t1) times.push(end);
+      const inner = generator.breakpoints?.(Math.max(t0, start) - start, Math.min(t1, end) - start);
+      for (const t of inner ?? []) times.push(start + t);
+    }
+    times.sort((a, b) => a - b);
+    return times.filter((t, k) => k === 0 || t !== times[k - 1]);
+  };
+
+  return withBreakpoints(signal, breakpoints);
+}
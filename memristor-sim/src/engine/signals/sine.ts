@@ -5,9 +5,12 @@
  *                 vn·sin(2πft) for the negative half-cycle.
  *
  * This allows modelling devices where the SET voltage (positive)
- * and RESET voltage (negative) have different magnitudes.
+ * and RESET voltage (negative) have different magnitudes. With unequal
+ * amplitudes the slope jumps at every zero crossing, so the half periods
+ * are then breakpoints.
  */
 
+import { gridBreakpoints, withBreakpoints } from './breakpoints.ts';
 import type { InputSignal, SignalParams } from './types.ts';
 
 export function createSineSignal(params: SignalParams): InputSignal {
@@ -15,8 +18,12 @@ export function createSineSignal(params: SignalParams): InputSignal {
   const vn = params.vn ?? vp;
   const freq = params.frequency ?? (params.period ? 1 / params.period : 1);
 
-  return (t: number): number => {
+  const signal = (t: number): number => {
     const raw = Math.sin(2 * Math.PI * freq * t);
     return raw >= 0 ? vp * raw : vn * raw;
   };
+
+  return vp === vn
+    ? signal
+    : withBreakpoints(signal, (t0, t1) => gridBreakpoints(t0, t1, 1 / (2 * freq)));
 }
@@ -0,0 +1,123 @@
+/**
+ * Staircase DC sweep, as run by a source-measure unit.
+ *
+ * The measured I-V sweeps are not continuous ramps: the SMU steps the
+ * voltage in fixed increments (e.g. 0.01 V), holds each level for a
+ * dwell time and measures at the end of it, so one row of the measured
+ * CSV is one step. The sweep runs in steps from `start` to the first
+ * peak, on to the second peak and then to `stop` (0 → +1 V → −2 V → 0 V
+ * passes through 0 V on the way), and is repeated `cycles` times. A leg
+ * whose span is not a whole number of steps ends with a shorter step
+ * onto its end level. After the last step the level is held.
+ *
+ * The readings are taken an instant before each step ends, so they see
+ * the state the dwell has settled into and the level being read, and
+ * reading k lines up with row k of the measured file. Every step edge is
+ * a breakpoint.
+ */
+
+import { gridBreakpoints, withBreakpoints } from './breakpoints.ts';
+import type { InputSignal } from './types.ts';
+
+export interface StaircaseParams {
+  /** Level of the first step (V, or A under current drive). */
+  start: number;
+  /** Turning points of the sweep, in order. */
+  firstPeak: number;
+  secondPeak: number;
+  /** Level of the last step. */
+  stop: number;
+  /** Level change between steps. */
+  step: number;
+  /** Time each level is held (s). */
+  dwell: number;
+  /** Number of times the sweep is run. */
+  cycles: number;
+}
+
+/** Most steps a staircase may have. */
+const MAX_STEPS = 1_000_000;
+
+/** Rounding tolerance of step counts and step edges, relative to the step or dwell. */
+const TOLERANCE = 1e-9;
+
+/** How long before the end of its step a reading is taken, relative to the dwell. */
+const READ_BEFORE_END = 1e-6;
+
+/** Steps from `from` to `to`, the last one possibly shorter. */
+function legSteps(from: number, to: number, step: number): number {
+  return Math.ceil(Math.abs(to - from) / step - TOLERANCE);
+}
+
+/**
+ * Levels of the steps from `from` (exclusive) to `to` (inclusive),
+ * rounded to 12 digits so 0.01 V steps give 0.3 V rather than
+ * 0.30000000000000004 V.
+ */
+function leg(from: number, to: number, step: number): number[] {
+  const count = legSteps(from, to, step);
+  const direction = Math.sign(to - from);
+  return Array.from({ length: count }, (_, k) =>
+    k === count - 1 ? to : parseFloat((from + direction * (k + 1) * step).toPrecision(12)),
+  );
+}
+
+function cycleCount(params: StaircaseParams): number {
+  return Math.max(1, Math.round(params.cycles));
+}
+
+/** Number of steps of all cycles. */
+export function staircaseStepCount(params: StaircaseParams): number {
+  const { start, firstPeak, secondPeak, stop, step } = params;
+  const perCycle =
+    1 +
+    legSteps(start, firstPeak, step) +
+    legSteps(firstPeak, secondPeak, step) +
+    legSteps(secondPeak, stop, step);
+  return perCycle * cycleCount(params);
+}
+
+/** Level of every step, for all cycles. */
+export function staircaseLevels(params: StaircaseParams): number[] {
+  const { start, firstPeak, secondPeak, stop, step } = params;
+  if (!(step > 0) || !(params.dwell > 0)) {
+    throw new Error('Staircase step and dwell time must be positive.');
+  }
+  if (staircaseStepCount(params) > MAX_STEPS) {
+    throw new Error(`A staircase of more than ${MAX_STEPS} steps is too long; use a larger step.`);
+  }
+  const cycles = cycleCount(params);
+  const sweep = [
+    start,
+    ...leg(start, firstPeak, step),
+    ...leg(firstPeak, secondPeak, step),
+    ...leg(secondPeak, stop, step),
+  ];
+  const levels: number[] = [];
+  for (let c = 0; c < cycles; c++) levels.push(...sweep);
+  return levels;
+}
+
+/** Duration (s) of all cycles: one dwell per step. */
+export function staircaseDuration(params: StaircaseParams): number {
+  return staircaseStepCount(params) * params.dwell;
+}
+
+/** Time of the reading of every step, just before the step ends. */
+export function staircaseReadTimes(params: StaircaseParams): number[] {
+  const { dwell } = params;
+  return staircaseLevels(params).map((_, k) => (k + 1 - READ_BEFORE_END) * dwell);
+}
+
+export function createStaircaseSignal(params: StaircaseParams): InputSignal {
+  const levels = staircaseLevels(params);
+  const { dwell } = params;
+  const end = levels.length * dwell;
+  // A step edge computed as k·dwell may land a rounding error short of
+  // the edge, where the new level already applies
+  return withBreakpoints(
+    (t: number): number =>
+      levels[Math.min(levels.length - 1, Math.max(0, Math.floor(t / dwell + TOLERANCE)))],
+    (t0, t1) => gridBreakpoints(t0, Math.min(t1, end), dwell),
+  );
+}
@@ -7,8 +7,12 @@
  * characterisation (e.g. 0 → +V → 0 → −V → 0).
  *
  * Ported from functions.py:Triangle, which uses scipy.signal.sawtooth.
+ *
+ * The slope jumps at the peaks and zero crossings, every quarter period,
+ * and the polarity flips at tMax/2; these are the signal's breakpoints.
  */
 
+import { gridBreakpoints, withBreakpoints } from './breakpoints.ts';
 import type { InputSignal, SignalParams } from './types.ts';
 
 /**
@@ -35,7 +39,7 @@ export function createTriangleSignal(
   const vn = params.vn ?? vp;
   const freq = params.frequency ?? (params.period ? 1 / params.period : 1);
 
-  return (t: number): number => {
+  const signal = (t: number): number => {
     const phase = 2 * Math.PI * freq * t + Math.PI / 2;
     const saw = sawtooth(phase);
     let pos = vp * Math.abs(saw);
@@ -49,4 +53,14 @@ export function createTriangleSignal(
 
     return pos > 0 ? pos : neg;
   };
+
+  return withBreakpoints(signal, (t0, t1) => {
+    const times = gridBreakpoints(t0, t1, 1 / (4 * freq));
+    const flip = tMax / 2;
+    if (flip > t0 && flip < t1 && !times.some((t) => Math.abs(t - flip) <= 1e-12 * tMax)) {
+      times.push(flip);
+      times.sort((a, b) => a - b);
+    }
+    return times;
+  });
 }
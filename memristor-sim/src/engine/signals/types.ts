@@ -1,8 +1,16 @@
-/** A callable that returns the input voltage at time t. */
-export type InputSignal = (t: number) => number;
+/**
+ * A callable that returns the input voltage at time t. Piecewise signals
+ * also list their breakpoints, the times where the signal or its slope
+ * jumps, so the solver can step exactly onto them (see solver.ts).
+ */
+export interface InputSignal {
+  (t: number): number;
+  /** Breakpoints strictly inside (t0, t1), in increasing order. */
+  breakpoints?: (t0: number, t1: number) => number[];
+}
 
 /** Signal types available in the UI. */
-export type SignalType = 'sine' | 'triangle';
+export type SignalType = 'sine' | 'triangle' | 'retention' | 'pwl' | 'pulse' | 'staircase' | 'sequence' | 'measured';
 
 /** Parameters shared by all signal generators. */
 export interface SignalParams {
@@ -6,47 +6,242 @@
  * function the UI needs to call — it handles all the wiring.
  */
 
-import { solve } from './solver.ts';
+import { mergeDiagnostics, outputTimes, solve } from './solver.ts';
+import type {
+  JacobianFunction,
+  SolverDiagnostics,
+  SolverMethod,
+  SolverResult,
+} from './solver.ts';
+import { solveSDE } from './sde.ts';
+import { createRandom } from './random.ts';
+import { createIVBranches, resolveParameterInfo } from './ivshapes.ts';
+import type { IVShapeSelection } from './ivshapes.ts';
 import { MODEL_REGISTRY } from './models/index.ts';
-import type { ParamValues } from './models/types.ts';
+import { toVectorModel } from './models/vector.ts';
+import { withThermal } from './thermal.ts';
+import { withRelaxation } from './relaxation.ts';
+import { hasLoad, operatingPoint, withLoad } from './load.ts';
+import { DEFAULT_VOLTAGE_COMPLIANCE, drivenPoint, withCurrentDrive } from './drive.ts';
+import type { DriveMode } from './drive.ts';
+import type { RelaxationType } from './relaxation.ts';
+import type { ParamValues, StateVariableInfo } from './models/types.ts';
 import { createSineSignal } from './signals/sine.ts';
 import { createTriangleSignal } from './signals/triangle.ts';
-import type { SignalType } from './signals/types.ts';
+import { createRetentionSignal, retentionTimes } from './signals/retention.ts';
+import type { RetentionParams } from './signals/retention.ts';
+import { createPwlSignal, pwlPeriod } from './signals/pwl.ts';
+import type { PwlParams } from './signals/pwl.ts';
+import { createPulseSignal, pulseReadTimes, pulseSequence } from './signals/pulse.ts';
+import type { PulseTrainParams } from './signals/pulse.ts';
+import { createStaircaseSignal, staircaseDuration, staircaseReadTimes } from './signals/staircase.ts';
+import type { StaircaseParams } from './signals/staircase.ts';
+import { createSequenceSignal } from './signals/sequence.ts';
+import type { SequenceParams } from './signals/sequence.ts';
+import type { MeasuredSweep } from './smucsv.ts';
+import type { InputSignal, SignalType } from './signals/types.ts';
 import { createWindowFunction } from './windows.ts';
 import type { WindowType } from './windows.ts';
+import { eventFunctions } from './events.ts';
+import type { EventDefinition } from './events.ts';
+import { adaptiveTimes } from './sampling.ts';
+import type { SamplingMode } from './sampling.ts';
+import type { SteadyStateReport } from './steadystate.ts';
+
+/** Noise settings for a stochastic simulation. */
+export interface StochasticOptions {
+  /** PRNG seed; the same seed always reproduces the same run. */
+  seed: number;
+  /**
+   * State noise: standard deviation of the random walk of the primary
+   * state over one signal period, as a fraction of its range.
+   */
+  stateNoise: number;
+  /**
+   * Cycle-to-cycle jitter: relative (log-normal) standard deviation of
+   * every continuous model parameter, redrawn at the start of each
+   * signal period.
+   */
+  paramJitter: number;
+}
 
 export interface SimulationConfig {
   modelId: string;
   modelParams: ParamValues;
   signalType: SignalType;
   signalParams: { vp: number; vn: number; frequency: number };
+  /** Program and read settings (retention experiments only). */
+  retention?: RetentionParams;
+  /** Time–value table (PWL signals only). */
+  pwl?: PwlParams;
+  /** Write and read pulses (pulse trains only). */
+  pulse?: PulseTrainParams;
+  /** Steps and dwell time (staircase sweeps only). */
+  staircase?: StaircaseParams;
+  /** Segments of a composite waveform (sequences only). */
+  sequence?: SequenceParams;
+  /**
+   * Measured sweep whose voltage (or, under current drive, current)
+   * readings drive the run (measured replays only).
+   */
+  measured?: MeasuredSweep;
+  /** Initial value of the primary state component. */
   x0: number;
+  /**
+   * Initial values of the remaining state components of vector-state
+   * models, in stateInfo order after the first. Missing entries use the
+   * component's default.
+   */
+  x0Rest?: number[];
   tMax: number;
+  /**
+   * Number of output points (default 10000); with adaptive sampling, the
+   * scale of the point budget instead.
+   */
   numPoints?: number;
+  /**
+   * Output sampling (default 'uniform'; see sampling.ts). Stochastic runs
+   * and retention experiments keep their own output times.
+   */
+  sampling?: SamplingMode;
   windowType?: WindowType;
   windowP?: number;
   windowJ?: number;
+  /** Detachment thresholds (V) of the boundary-condition window at x = 0 and 1. */
+  windowVth0?: number;
+  windowVth1?: number;
+  /** Conduction mechanism per I-V branch (models with ivBranches only). */
+  ivShapes?: IVShapeSelection;
+  /** Enable the electro-thermal subsystem (adds a temperature state). */
+  thermal?: boolean;
+  /** Ambient temperature in K (default 300), used when `thermal` is set. */
+  ambientTemperature?: number;
+  /** Run as an SDE with state noise and per-cycle parameter jitter. */
+  stochastic?: StochasticOptions;
+  /** Decay of the primary state towards its rest value (see relaxation.ts). */
+  relaxation?: RelaxationType;
+  /**
+   * Whether the signal is a voltage (default) or a current (see drive.ts).
+   * Signal amplitudes are in A under current drive.
+   */
+  drive?: DriveMode;
+  /** Voltage compliance (V) of the current source (default 10 V). */
+  voltageCompliance?: number;
+  /**
+   * Resistance (Ω) in series with the device (see load.ts). Voltage drive
+   * only: a current source forces its current through any series resistance.
+   */
+  seriesResistance?: number;
+  /** Current compliance (A) of the voltage source; 0 or undefined for none. */
+  compliance?: number;
+  /** ODE integration method (default 'rk45'; see solver.ts). */
+  method?: SolverMethod;
+  /** Events to locate during the run (see events.ts). */
+  events?: EventDefinition[];
+}
+
+/** A located event with the electrical operating point at its time. */
+export interface SimulationEvent {
+  label: string;
+  time: number;
+  /** Source voltage and current, as in SimulationResult. */
+  voltage: number;
+  current: number;
+  /** Every state component, in stateInfo order. */
+  states: number[];
+  direction: 'rising' | 'falling';
+}
+
+/** Conductance read at a read pulse of a pulse train. */
+export interface PulseRead {
+  /** Write pulses applied before the read (0 for the opening read). */
+  pulse: number;
+  time: number;
+  /** Device conductance I/V (S) at the centre of the read pulse. */
+  conductance: number;
+  /** Polarity of the last write pulse: +1 SET, −1 RESET, 0 before any. */
+  polarity: number;
+}
+
+/** SMU reading at the end of a step of a staircase sweep. */
+export interface SweepReading {
+  /** Step index, counted from 0 across all cycles: row `step` of a measured file. */
+  step: number;
+  time: number;
+  /** Source voltage and current, as in SimulationResult. */
+  voltage: number;
+  current: number;
 }
 
 export interface SimulationResult {
   time: number[];
+  /**
+   * Source voltage at the SMU terminals (the signal unless compliance
+   * engaged); under current drive, the device voltage.
+   */
   voltage: number[];
+  /** Device current; under current drive, the delivered source current. */
   current: number[];
+  /** Voltage across the device, when a series resistance or compliance is set. */
+  deviceVoltage?: number[];
+  /** Whether the source compliance limit engaged, per output point. */
+  complianceLimited?: boolean[];
+  /** The signal was a current: plot voltage as the response. */
+  currentDriven?: boolean;
+  /** Primary state component (x for scalar models). */
   stateVariable: number[];
+  /** Every state component, in stateInfo order (states[0] === stateVariable). */
+  states: number[][];
+  /** Metadata of each state component, for axis labels and units. */
+  stateInfo: StateVariableInfo[];
+  /** Device temperature in K (electro-thermal simulations only). */
+  temperature?: number[];
+  /** Output times are log-spaced, so time is best shown on a log axis. */
+  logTime?: boolean;
+  /** Step statistics of the solver (see solverWarnings). */
+  diagnostics: SolverDiagnostics;
+  /** Located events in time order. */
+  events: SimulationEvent[];
+  /** Shooting report, when the result is one period of the steady state. */
+  steadyState?: SteadyStateReport;
+  /** Read-pulse conductances in pulse order (pulse trains with read pulses only). */
+  pulseReads?: PulseRead[];
+  /** One reading per step (staircase sweeps only). */
+  sweepReadings?: SweepReading[];
+  /** The measurement replayed, for overlaying on the simulation (measured replays only). */
+  measured?: MeasuredSweep;
 }
 
 /**
  * Run a complete memristor simulation.
  *
  * 1. Build the input signal function
- * 2. Build the window function (HP Labs only)
- * 3. Solve the ODE dx/dt = model.dxdt(t, x, V, params, window)
+ * 2. Build the window function (models that accept one) and I-V branch
+ *    functions, add the relaxation term if enabled, add the
+ *    temperature state if electro-thermal coupling is enabled, and put
+ *    the device behind the series resistance and compliance if set
+ * 3. Solve the ODE dx/dt = model.dxdt(t, x, V, params, window) over the
+ *    full state vector, bounded per component by the model's stateInfo
+ *    (or the SDE with added noise and jittered parameters if stochastic)
  * 4. Compute I(t) = model.current(V(t), x(t), params) at each output point
+ *    and event, solving for the device voltage behind a series resistance
+ *    or compliance limit if one is set
  * 5. Return all arrays for plotting
+ *
+ * Scalar models are run as one-component vector models. Retention
+ * experiments are solved in two phases (program pulse, then read) with
+ * log-spaced output during the read phase. Adaptive sampling keeps the
+ * solver's dense output and picks the output times from it afterwards.
+ *
+ * `onProgress` is called with the fraction of the time span solved so
+ * far after every solver step.
  */
-export function simulate(config: SimulationConfig): SimulationResult {
-  const model = MODEL_REGISTRY[config.modelId];
-  if (!model) {
+export function simulate(
+  config: SimulationConfig,
+  onProgress?: (fraction: number) => void,
+): SimulationResult {
+  const registered = MODEL_REGISTRY[config.modelId];
+  if (!registered) {
     throw new Error(`Unknown model: ${config.modelId}`);
   }
 
@@ -56,39 +251,425 @@ export function simulate(config: SimulationConfig): SimulationResult {
     vn: config.signalParams.vn,
     frequency: config.signalParams.frequency,
   };
-  const signal =
-    config.signalType === 'triangle'
-      ? createTriangleSignal(sigParams, config.tMax)
-      : createSineSignal(sigParams);
-
-  // Build window function (only used by HP Labs)
-  const windowFunc = config.windowType
-    ? createWindowFunction(config.windowType, config.windowP, config.windowJ)
+  const retention = config.signalType === 'retention' ? config.retention : undefined;
+  if (config.signalType === 'retention' && !retention) {
+    throw new Error('Retention experiment requires program and read settings.');
+  }
+  const pwl = config.signalType === 'pwl' ? config.pwl : undefined;
+  if (config.signalType === 'pwl' && !pwl) {
+    throw new Error('PWL signal requires a time–value table.');
+  }
+  const pulse = config.signalType === 'pulse' ? config.pulse : undefined;
+  if (config.signalType === 'pulse' && !pulse) {
+    throw new Error('Pulse train requires pulse settings.');
+  }
+  const staircase = config.signalType === 'staircase' ? config.staircase : undefined;
+  if (config.signalType === 'staircase' && !staircase) {
+    throw new Error('Staircase sweep requires step settings.');
+  }
+  const sequence = config.signalType === 'sequence' ? config.sequence : undefined;
+  if (config.signalType === 'sequence' && !sequence) {
+    throw new Error('Waveform sequence requires its segments.');
+  }
+  const measured = config.signalType === 'measured' ? config.measured : undefined;
+  if (config.signalType === 'measured' && !measured) {
+    throw new Error('Measured replay requires a measured sweep; load an SMU CSV file.');
+  }
+  const signal = retention
+    ? createRetentionSignal(retention)
+    : pwl
+      ? createPwlSignal(pwl)
+      : pulse
+        ? createPulseSignal(pulse)
+        : staircase
+          ? createStaircaseSignal(staircase)
+          : sequence
+            ? createSequenceSignal(sequence)
+            : measured
+              ? createReplaySignal(measured, config.drive === 'current')
+              : config.signalType === 'triangle'
+                ? createTriangleSignal(sigParams, config.tMax)
+                : createSineSignal(sigParams);
+
+  // Build window function (only for models that opt in)
+  const windowFunc = config.windowType && registered.acceptsWindow
+    ? createWindowFunction(
+        config.windowType,
+        config.windowP,
+        config.windowJ,
+        config.windowVth0,
+        config.windowVth1,
+      )
     : undefined;
 
+  // Build I-V branch functions (models with selectable conduction only)
+  const iv = createIVBranches(registered, config.ivShapes);
+
+  // Optional relaxation of the primary state, then electro-thermal
+  // coupling, which appends the temperature state, and finally the
+  // source: a current source, or a voltage source behind the series
+  // resistance and compliance of the measurement circuit
+  const relaxing = withRelaxation(toVectorModel(registered), config.relaxation ?? 'none');
+  const device = config.thermal
+    ? withThermal(relaxing, config.ambientTemperature ?? 300, iv)
+    : relaxing;
+  const currentDriven = config.drive === 'current';
+  const voltageCompliance = config.voltageCompliance ?? DEFAULT_VOLTAGE_COMPLIANCE;
+  const load = { seriesResistance: config.seriesResistance ?? 0, compliance: config.compliance };
+  const loaded = !currentDriven && hasLoad(load);
+  const model = currentDriven
+    ? withCurrentDrive(device, voltageCompliance, iv)
+    : loaded
+      ? withLoad(device, load, iv)
+      : device;
+  const stateInfo = model.stateInfo;
+
+  // Parameter values in effect at time t (one jittered set per cycle
+  // in stochastic mode, one per pulse of a pulse train or sweep of a
+  // staircase). A retention experiment, a waveform sequence, a measured
+  // replay and a PWL table that does not repeat are a single cycle.
+  const period = retention || sequence || measured
+    ? config.tMax
+    : pwl
+      ? (pwlPeriod(pwl) ?? config.tMax)
+      : pulse
+        ? pulse.period
+        : staircase
+          ? staircaseDuration({ ...staircase, cycles: 1 })
+          : 1 / config.signalParams.frequency;
+  const cycleParams = config.stochastic?.paramJitter
+    ? jitterParameters(config, Math.ceil(config.tMax / period) + 1)
+    : null;
+  const paramsAt = (t: number): ParamValues =>
+    cycleParams
+      ? cycleParams[Math.min(cycleParams.length - 1, Math.floor(t / period))]
+      : config.modelParams;
+
   // ODE right-hand side: dx/dt
-  const rhs = (t: number, x: number): number =>
-    model.dxdt(t, x, signal, config.modelParams, windowFunc);
+  const rhs = (t: number, x: Float64Array): ArrayLike<number> =>
+    model.dxdt(t, x, signal, paramsAt(t), windowFunc);
+  const jacobian: JacobianFunction | undefined = model.jacobian &&
+    ((t, x) => model.jacobian!(t, x, signal, paramsAt(t), windowFunc));
+
+  // Electrical operating point at time t and state x
+  const pointAt = (t: number, x: Float64Array): OperatingPoint => {
+    const v = signal(t); // the set current under current drive
+    if (currentDriven) {
+      const point = drivenPoint(device, v, x, paramsAt(t), voltageCompliance, iv);
+      return {
+        voltage: point.voltage,
+        current: point.current,
+        deviceVoltage: point.voltage,
+        limited: point.limited,
+      };
+    }
+    if (loaded) {
+      const op = operatingPoint(device, v, x, paramsAt(t), load, iv);
+      return {
+        voltage: op.sourceVoltage,
+        current: op.current,
+        deviceVoltage: op.deviceVoltage,
+        limited: op.limited,
+      };
+    }
+    return {
+      voltage: v,
+      current: model.current(v, x, paramsAt(t), iv),
+      deviceVoltage: v,
+      limited: false,
+    };
+  };
+  const events = config.events?.length
+    ? eventFunctions(
+        config.events,
+        // The signal itself unless a load or current drive is in the way
+        currentDriven || loaded ? (t, x) => pointAt(t, x).deviceVoltage : (t) => signal(t),
+        stateInfo[0],
+      )
+    : undefined;
 
-  // Solve
-  const numPoints = config.numPoints ?? 10_000;
-  const sol = solve(rhs, [0, config.tMax], config.x0, { numPoints });
+  // Initial state and per-component bounds
+  const y0 = stateInfo.map((info, k) =>
+    k === 0 ? config.x0 : config.x0Rest?.[k - 1] ?? info.default,
+  );
+  const lower = stateInfo.map((info) => info.min);
+  const upper = stateInfo.map((info) => info.max);
+
+  // Noise on the primary state only, scaled so stateNoise is the
+  // per-period spread as a fraction of the state range
+  const random = config.stochastic ? createRandom(config.stochastic.seed) : null;
+  const sigma = stateInfo.map((info, k) =>
+    k === 0 && config.stochastic
+      ? config.stochastic.stateNoise * (info.max - info.min) / Math.sqrt(period)
+      : 0,
+  );
+  const adaptive = config.sampling === 'adaptive' && !random && !retention;
+  const integrate = (tEval: Float64Array, yStart: ArrayLike<number>): SolverResult => {
+    const tSpan: [number, number] = [tEval[0], tEval[tEval.length - 1]];
+    const tstops = signal.breakpoints?.(tSpan[0], tSpan[1]);
+    const onStep = onProgress && ((t: number) => onProgress(t / config.tMax));
+    return random
+      ? solveSDE(rhs, tSpan, yStart, {
+          tEval, lower, upper, sigma, random, method: config.method, jacobian, events, tstops, onStep,
+        })
+      : solve(rhs, tSpan, yStart, {
+          tEval,
+          lower,
+          upper,
+          method: config.method,
+          jacobian,
+          events,
+          tstops,
+          denseOutput: adaptive,
+          onStep,
+          // Log-spaced output starts with intervals far below the default
+          // first step of 1e-3 of the span
+          firstStep: retention ? tEval[1] - tEval[0] : undefined,
+          // A state held by the boundary-condition window has dx/dt = 0,
+          // so the step would grow past a short detaching voltage excursion
+          maxStep: windowFunc && config.windowType === 'boundary' ? period / 100 : undefined,
+        });
+  };
+
+  // Solve, with the read pulses' centres, the SMU readings or the
+  // measured reading times among the output times
+  const readTimes = (
+    pulse
+      ? pulseReadTimes(pulse)
+      : staircase
+        ? staircaseReadTimes(staircase)
+        : measured
+          ? measured.time
+          : []
+  ).filter((t) => t < config.tMax);
+  const sol = retention
+    ? solveRetention(retention, config, y0, integrate)
+    : adaptive
+      ? resample(
+          integrate(outputTimes([0, config.tMax], 2), y0),
+          config.numPoints ?? 10_000,
+          pointAt,
+          readTimes,
+        )
+      : integrate(
+          withTimes(outputTimes([0, config.tMax], config.numPoints ?? 10_000), readTimes),
+          y0,
+        );
+  const numPoints = sol.t.length;
 
   // Compute voltage and current at each output point
+  const dim = stateInfo.length;
   const time: number[] = new Array(numPoints);
   const voltage: number[] = new Array(numPoints);
   const current: number[] = new Array(numPoints);
-  const stateVariable: number[] = new Array(numPoints);
+  const states: number[][] = stateInfo.map(() => new Array(numPoints));
+  const deviceVoltage: number[] | undefined = loaded ? new Array(numPoints) : undefined;
+  const limited: boolean[] | undefined =
+    loaded || currentDriven ? new Array(numPoints) : undefined;
+  const x = new Float64Array(dim);
 
   for (let i = 0; i < numPoints; i++) {
     const t = sol.t[i];
-    const x = sol.y[i];
-    const v = signal(t);
+    for (let k = 0; k < dim; k++) {
+      x[k] = sol.y[k][i];
+      states[k][i] = x[k];
+    }
+    const point = pointAt(t, x);
     time[i] = t;
-    voltage[i] = v;
-    current[i] = model.current(v, x, config.modelParams);
-    stateVariable[i] = x;
+    voltage[i] = point.voltage;
+    current[i] = point.current;
+    if (deviceVoltage) deviceVoltage[i] = point.deviceVoltage;
+    if (limited) limited[i] = point.limited;
   }
 
-  return { time, voltage, current, stateVariable };
+  return {
+    time,
+    voltage,
+    current,
+    deviceVoltage,
+    complianceLimited: limited,
+    stateVariable: states[0],
+    states,
+    stateInfo,
+    temperature: config.thermal ? states[dim - 1] : undefined,
+    logTime: retention !== undefined,
+    pulseReads: pulse && readTimes.length > 0
+      ? readConductances(pulse, readTimes, time, current, deviceVoltage ?? voltage)
+      : undefined,
+    sweepReadings: staircase
+      ? readAt(readTimes, time).map((i, step) => ({
+          step,
+          time: time[i],
+          voltage: voltage[i],
+          current: current[i],
+        }))
+      : undefined,
+    measured,
+    currentDriven: currentDriven || undefined,
+    diagnostics: sol.diagnostics,
+    events: sol.events.map((event) => {
+      const point = pointAt(event.t, Float64Array.from(event.y));
+      return {
+        label: event.label,
+        time: event.t,
+        voltage: point.voltage,
+        current: point.current,
+        states: event.y,
+        direction: event.direction,
+      };
+    }),
+  };
+}
+
+/** Source voltage and current and the voltage across the device. */
+interface OperatingPoint {
+  voltage: number;
+  current: number;
+  deviceVoltage: number;
+  /** The source was held at its compliance limit. */
+  limited: boolean;
+}
+
+/**
+ * Resample a dense solve at adaptive output times (see sampling.ts),
+ * monitoring the source voltage, the current and every state component.
+ */
+function resample(
+  sol: SolverResult,
+  numPoints: number,
+  pointAt: (t: number, x: Float64Array) => OperatingPoint,
+  extraTimes: number[],
+): SolverResult {
+  const solution = sol.solution!;
+  const n = sol.y.length;
+  const x = new Float64Array(n);
+  const tSpan: [number, number] = [sol.t[0], sol.t[sol.t.length - 1]];
+  const adaptive = adaptiveTimes(solution.steps, tSpan, numPoints, (tq) => {
+    solution.evaluate(tq, x);
+    const point = pointAt(tq, x);
+    return [point.voltage, point.current, ...x];
+  });
+  const t = withTimes(adaptive, extraTimes);
+
+  const y = sol.y.map(() => new Float64Array(t.length));
+  for (let i = 0; i < t.length; i++) {
+    solution.evaluate(t[i], x);
+    for (let k = 0; k < n; k++) y[k][i] = x[k];
+  }
+  return { ...sol, t, y };
+}
+
+/** Output times with the increasing `extra` times inside their span merged in. */
+function withTimes(tEval: Float64Array, extra: number[]): Float64Array {
+  if (extra.length === 0) return tEval;
+  const merged: number[] = [];
+  let j = 0;
+  for (let i = 0; i < tEval.length; i++) {
+    while (j < extra.length && extra[j] <= tEval[i]) {
+      if (extra[j] > tEval[0] && extra[j] < tEval[i]) merged.push(extra[j]);
+      j++;
+    }
+    merged.push(tEval[i]);
+  }
+  return Float64Array.from(merged);
+}
+
+/**
+ * Conductance at every read time, found among the output times, paired
+ * with the number and polarity of the write pulses before it.
+ */
+function readConductances(
+  pulse: PulseTrainParams,
+  readTimes: number[],
+  time: number[],
+  current: number[],
+  voltage: number[],
+): PulseRead[] {
+  const sequence = pulseSequence(pulse);
+  return readAt(readTimes, time).map((i, k) => ({
+    pulse: k,
+    time: readTimes[k],
+    conductance: current[i] / voltage[i],
+    polarity: k > 0 ? sequence[k - 1] : 0,
+  }));
+}
+
+/** Index of every one of the increasing `readTimes` among the output times. */
+function readAt(readTimes: number[], time: number[]): number[] {
+  let i = 0;
+  return readTimes.map((t) => {
+    while (time[i] < t) i++;
+    return i;
+  });
+}
+
+/**
+ * The measured voltage readings, or the current readings under current
+ * drive, joined linearly as a PWL table: the source replays the measured
+ * excitation, and every reading is a breakpoint.
+ */
+function createReplaySignal(measured: MeasuredSweep, currentDriven: boolean): InputSignal {
+  return createPwlSignal({
+    times: measured.time,
+    values: currentDriven ? measured.current : measured.voltage,
+    interpolation: 'linear',
+    repeat: false,
+    timeScale: 1,
+  });
+}
+
+/**
+ * Solve a retention experiment as two consecutive integrations, so the
+ * pulse edge falls on a step boundary: the programming pulse on a linear
+ * grid, then the read phase on log-spaced output times.
+ */
+function solveRetention(
+  retention: RetentionParams,
+  config: SimulationConfig,
+  y0: ArrayLike<number>,
+  integrate: (tEval: Float64Array, yStart: ArrayLike<number>) => SolverResult,
+): SolverResult {
+  const { program, read } = retentionTimes(retention, config.tMax, config.numPoints ?? 10_000);
+  const programmed = integrate(program, y0);
+  const yProgrammed = programmed.y.map((yk) => yk[yk.length - 1]);
+  const reading = integrate(read, yProgrammed);
+
+  // The phases share the pulse-end point; keep it once
+  const join = (a: Float64Array, b: Float64Array): Float64Array => {
+    const out = new Float64Array(a.length + b.length - 1);
+    out.set(a);
+    out.set(b.subarray(1), a.length);
+    return out;
+  };
+  return {
+    t: join(programmed.t, reading.t),
+    y: programmed.y.map((yk, k) => join(yk, reading.y[k])),
+    diagnostics: mergeDiagnostics(programmed.diagnostics, reading.diagnostics),
+    events: [...programmed.events, ...reading.events],
+  };
+}
+
+/**
+ * Draw one log-normally jittered copy of the model parameters per signal
+ * cycle. Integer-stepped parameters (mode flags, exponents) are left
+ * unchanged. The jitter stream is seeded separately from the state noise
+ * so changing one intensity does not reshuffle the other.
+ */
+function jitterParameters(config: SimulationConfig, cycles: number): ParamValues[] {
+  const { seed, paramJitter } = config.stochastic!;
+  const random = createRandom(seed ^ 0x9e3779b9);
+  const model = MODEL_REGISTRY[config.modelId];
+  const continuous = resolveParameterInfo(model, config.ivShapes)
+    .filter((info) => info.step < 1)
+    .map((info) => info.name);
+
+  const sets: ParamValues[] = [];
+  for (let c = 0; c < cycles; c++) {
+    const p: ParamValues = { ...config.modelParams };
+    for (const name of continuous) {
+      p[name] = config.modelParams[name] * Math.exp(paramJitter * random.normal());
+    }
+    sets.push(p);
+  }
+  return sets;
 }
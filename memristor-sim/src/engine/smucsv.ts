@@ -0,0 +1,94 @@
+/**
+ * CSV files in the layout the SMU writes for a measured sweep
+ * (imported_data/data): an Item counter, then time, voltage, current
+ * and resistance of source-measure unit 1, one row per reading, with a
+ * trailing comma on every line.
+ *
+ *   Item,Smu1.Time[1][1],Smu1.V[1][1],Smu1.I[1][1],Smu1.R[1][1],
+ *   1,0,9.21656464925036E-07,-4.82184514538631E-10,-1911.41863153135,
+ *
+ * Times count from the first reading. Measured files are read back for
+ * replay, as are the tab-separated Time, Voltage, Current files of the
+ * older device; files without a time column (V1, I1, absI) only record
+ * the sweep's shape and cannot be replayed.
+ */
+
+import type { SweepReading } from './simulate.ts';
+
+/** A measured sweep, one entry per reading. */
+export interface MeasuredSweep {
+  /** File the readings were read from, for display. */
+  name?: string;
+  /** Reading times (s) from the first reading. */
+  time: number[];
+  voltage: number[];
+  current: number[];
+}
+
+const HEADER = 'Item,Smu1.Time[1][1],Smu1.V[1][1],Smu1.I[1][1],Smu1.R[1][1],';
+
+/** Simulated readings in the SMU's CSV layout, so they line up row by row with a measurement. */
+export function formatSmuCsv(readings: SweepReading[]): string {
+  const t0 = readings.length > 0 ? readings[0].time : 0;
+  const rows = readings.map(({ time, voltage, current }, k) => {
+    const resistance = voltage / current;
+    // Readings sit a rounding error off the dwell grid
+    const elapsed = parseFloat((time - t0).toPrecision(12));
+    return [k + 1, elapsed, voltage, current, Number.isFinite(resistance) ? resistance : '', ''].join(',');
+  });
+  return [HEADER, ...rows].join('\n') + '\n';
+}
+
+/** Column headers of time, voltage and current, e.g. Smu1.Time[1][1], Smu1.V[1][1], Smu1.I[1][1]. */
+const COLUMNS = {
+  time: /time/i,
+  voltage: /^(smu\d+\.)?v(\d|\[|$)|voltage/i,
+  current: /^(smu\d+\.)?i(\d|\[|$)|current/i,
+};
+
+/**
+ * Read a measured sweep from a CSV or tab-separated file with a header
+ * row naming its time, voltage and current columns. Times are taken
+ * relative to the first reading and must not decrease.
+ */
+export function parseSmuCsv(text: string): MeasuredSweep {
+  const lines = text.split(/\r?\n/).filter((line) => line.trim());
+  if (lines.length === 0) throw new Error('The file is empty.');
+  const separator = lines[0].includes('\t') ? '\t' : ',';
+  const header = lines[0].split(separator).map((name) => name.trim());
+  if (Number.isFinite(parseFloat(header[0]))) {
+    throw new Error('The file has no header row; a plain time–value table can be loaded as a PWL signal.');
+  }
+  const column = (pattern: RegExp) => header.findIndex((name) => pattern.test(name));
+  const timeColumn = column(COLUMNS.time);
+  const voltageColumn = column(COLUMNS.voltage);
+  const currentColumn = column(COLUMNS.current);
+  if (voltageColumn < 0 || currentColumn < 0) {
+    throw new Error(`No voltage and current columns in the header "${lines[0].trim()}".`);
+  }
+  if (timeColumn < 0) {
+    throw new Error('The file has no time column, so its sweep cannot be replayed in time.');
+  }
+
+  const time: number[] = [];
+  const voltage: number[] = [];
+  const current: number[] = [];
+  lines.slice(1).forEach((line, k) => {
+    const cells = line.split(separator).map(parseFloat);
+    const row = [cells[timeColumn], cells[voltageColumn], cells[currentColumn]];
+    if (!row.every(Number.isFinite)) {
+      throw new Error(`Line ${k + 2}: expected a time, a voltage and a current, got "${line.trim()}".`);
+    }
+    if (time.length > 0 && row[0] < time[time.length - 1]) {
+      throw new Error(`Line ${k + 2}: the time ${row[0]} s is earlier than the reading before it.`);
+    }
+    time.push(row[0]);
+    voltage.push(row[1]);
+    current.push(row[2]);
+  });
+  if (time.length < 2 || !(time[time.length - 1] > time[0])) {
+    throw new Error('A replay needs at least two readings spread over time.');
+  }
+  const t0 = time[0];
+  return { time: time.map((t) => t - t0), voltage, current };
+}
@@ -1,33 +1,195 @@
 /**
  * Adaptive Dormand-Prince (RK45) ODE solver.
  *
- * Solves the scalar initial-value problem dx/dt = f(t, x) over [t0, tEnd]
- * with adaptive step-size control. The state variable is clamped to [0, 1]
- * after every step because memristor state variables are physically bounded
- * (x represents a normalised dopant width or filament extent).
+ * Solves the initial-value problem dy/dt = f(t, y) for an N-dimensional
+ * state y over [t0, tEnd] with adaptive step-size control. Each state
+ * component is clamped to its bounds after every step because memristor
+ * state variables are physically bounded (a normalised dopant width lies
+ * in [0, 1], a filament gap cannot be negative, …). Without
+ * explicit bounds every component is clamped to [0, 1].
  *
  * The Dormand-Prince method is the same algorithm used by MATLAB's ode45
  * and is the default RK45 in scipy's solve_ivp. It uses 6 function
  * evaluations per step and provides a 4th-order solution with a 5th-order
- * error estimate for step-size control (FSAL property).
+ * error estimate for step-size control (FSAL property). The error norm is
+ * the RMS of the per-component scaled errors, as in solve_ivp.
+ *
+ * Explicit methods are unstable on stiff problems (fast ion motion with
+ * large Ap/An, sharp exponential thresholds): the step is limited by
+ * stability rather than accuracy and shrinks towards hMin. For these the
+ * linearly implicit Rosenbrock method in stiff.ts can be selected, or
+ * picked automatically once the Dormand-Prince steps show stiffness.
+ *
+ * Event functions (see events.ts) are checked after every accepted step
+ * and their zero crossings located on the dense output.
+ *
+ * Breakpoints of the input (tstops: jumps or kinks of a piecewise signal)
+ * are never stepped across. A step that would cross one is shortened to
+ * end exactly on it, its last stages see the signal from the left, and
+ * the next step restarts from the right-hand value. Edges are resolved
+ * sharply without tightening the tolerances, and a short pulse cannot
+ * fall between two steps unseen.
  */
 
+import { rosenbrock } from './stiff.ts';
+import { createEventTracker, detectEvents } from './events.ts';
+import type { EventFunction, EventTracker, Interpolant, SolverEvent } from './events.ts';
+
+/**
+ * Integration method:
+ *   rk45       — explicit Dormand-Prince (default)
+ *   rosenbrock — linearly implicit Rosenbrock23 for stiff problems
+ *   auto       — Dormand-Prince, switching to Rosenbrock23 for the rest
+ *                of the span when stiffness is detected
+ */
+export type SolverMethod = 'rk45' | 'rosenbrock' | 'auto';
+
+export const SOLVER_METHOD_OPTIONS: { value: SolverMethod; label: string }[] = [
+  { value: 'auto', label: 'Auto' },
+  { value: 'rk45', label: 'RK45' },
+  { value: 'rosenbrock', label: 'Rosenbrock' },
+];
+
 export interface SolverOptions {
   /** Number of evenly-spaced output points (default 10000). */
   numPoints?: number;
+  /**
+   * Explicit output times, increasing from tSpan[0] to tSpan[1]. Overrides
+   * numPoints, e.g. for log-spaced output over long time spans.
+   */
+  tEval?: ArrayLike<number>;
   /** Relative tolerance for step-size control (default 1e-8). */
   rtol?: number;
   /** Absolute tolerance for step-size control (default 1e-10). */
   atol?: number;
   /** Maximum number of internal steps before giving up (default 500000). */
   maxSteps?: number;
+  /** Initial step size (default 1e-3 of the time span). */
+  firstStep?: number;
+  /** Largest allowed step size (default 0.1 of the time span). */
+  maxStep?: number;
+  /** Per-component lower bounds (default 0 for every component). */
+  lower?: ArrayLike<number>;
+  /** Per-component upper bounds (default 1 for every component). */
+  upper?: ArrayLike<number>;
+  /** Integration method (default 'rk45'). */
+  method?: SolverMethod;
+  /**
+   * Analytic Jacobian for the stiff method. Without one it is
+   * approximated by finite differences.
+   */
+  jacobian?: JacobianFunction;
+  /** Event functions whose zero crossings are located and returned. */
+  events?: EventFunction[];
+  /** Breakpoints of the right-hand side in increasing order (see above). */
+  tstops?: ArrayLike<number>;
+  /**
+   * Keep the interpolant of every accepted step and return the solution
+   * as a continuous function (default false).
+   */
+  denseOutput?: boolean;
+  /** Called with the time reached after every accepted step, e.g. to report progress. */
+  onStep?: (t: number) => void;
 }
 
 export interface SolverResult {
-  /** Evenly-spaced output times. */
+  /** Output times (evenly spaced unless tEval was given). */
   t: Float64Array;
-  /** State variable values at each output time. */
+  /** State values at each output time, one array per state component. */
+  y: Float64Array[];
+  /** Step statistics, for judging whether the result can be trusted. */
+  diagnostics: SolverDiagnostics;
+  /** Located events in time order (empty without event functions). */
+  events: SolverEvent[];
+  /** Continuous solution, with options.denseOutput. */
+  solution?: DenseSolution;
+}
+
+/** The continuous solution of a solve, pieced from its steps' interpolants. */
+export interface DenseSolution {
+  /** Start time of every accepted step, followed by the end of the last. */
+  steps: Float64Array;
+  /**
+   * State at time t into `out`. Past the last step (a truncated solve)
+   * this is the last computed state.
+   */
+  evaluate: (t: number, out: Float64Array) => void;
+}
+
+/** Step statistics of a solve. */
+export interface SolverDiagnostics {
+  acceptedSteps: number;
+  /** Steps that failed the error test and were retried with a smaller step. */
+  rejectedSteps: number;
+  /** Smallest accepted step size. */
+  minStep: number;
+  /** Steps accepted at the minimum step size despite failing the error test. */
+  forcedSteps: number;
+  /** Accepted steps whose new state had to be clamped back into its bounds. */
+  clampedSteps: number;
+  /**
+   * maxSteps was exceeded at `truncatedAt`; the remaining output holds the
+   * last computed state.
+   */
+  truncated: boolean;
+  truncatedAt?: number;
+  /** Time from which the stiff method integrated, if it was used. */
+  stiffFrom?: number;
+}
+
+/**
+ * Fraction of clamped steps above which a result is flagged: the model
+ * keeps driving its state out of bounds, so the trajectory is shaped by
+ * the clamp rather than by the model.
+ */
+export const HEAVY_CLAMPING = 0.05;
+
+/** Right-hand side f(t, y) returning dy/dt for every component. */
+export type OdeFunction = (t: number, y: Float64Array) => ArrayLike<number>;
+
+/** Jacobian ∂f/∂y of the right-hand side; row k holds ∂f_k/∂y. */
+export type JacobianFunction = (t: number, y: Float64Array) => ArrayLike<number>[];
+
+/**
+ * An integration in progress, shared by the explicit and stiff steppers
+ * so one can hand the remaining span over to the other. The steppers
+ * advance t, y and h and fill the output arrays up to outIdx.
+ */
+export interface Integration {
+  f: OdeFunction;
+  tEnd: number;
+  rtol: number;
+  atol: number;
+  hMin: number;
+  hMax: number;
+  maxSteps: number;
+  lo: Float64Array;
+  hi: Float64Array;
+  tOut: Float64Array;
+  yOut: Float64Array[];
+  /** Current time, (clamped) state and next step size. */
+  t: number;
   y: Float64Array;
+  h: number;
+  /** Next output index to fill. */
+  outIdx: number;
+  /** Steps attempted so far, accepted or rejected. */
+  steps: number;
+  /** Running statistics, see SolverDiagnostics. */
+  accepted: number;
+  rejected: number;
+  forced: number;
+  clamped: number;
+  minStep: number;
+  stiffFrom?: number;
+  /** Event functions being watched, if any. */
+  events?: EventTracker;
+  /** Breakpoints inside the span, and the index of the next one ahead. */
+  stops: Float64Array;
+  stopIdx: number;
+  /** Start time and interpolant of every accepted step, with denseOutput. */
+  pieces?: { t: number[]; interpolants: Interpolant[] };
+  onStep?: (t: number) => void;
 }
 
 /**
@@ -50,105 +212,356 @@ const a71 = 35 / 384, a73 = 500 / 1113, a74 = 125 / 192, a75 = -2187 / 6784, a76
 // Error coefficients: e_i = b_i - b*_i
 const e1 = 71 / 57600, e3 = -71 / 16695, e4 = 71 / 1920, e5 = -17253 / 339200, e6 = 22 / 525, e7 = -1 / 40;
 
-/** Clamp x to the physically valid range [0, 1]. */
-function clamp01(x: number): number {
-  return x < 0 ? 0 : x > 1 ? 1 : x;
+/**
+ * Stiffness test of Hairer & Wanner (DOPRI5): h·|λ| beyond the stability
+ * boundary of the method on STIFF_STEPS accepted steps without
+ * NONSTIFF_STEPS consecutive non-stiff steps in between.
+ */
+const STIFF_H_LAMBDA = 3.25;
+const STIFF_STEPS = 15;
+const NONSTIFF_STEPS = 6;
+
+/** A time just left of t, to evaluate a signal before its breakpoint at t. */
+function leftOf(t: number): number {
+  return t - 2 * Number.EPSILON * Math.abs(t);
+}
+
+/** Clamp every component of y to [lo, hi] in place. */
+function clampInPlace(y: Float64Array, lo: Float64Array, hi: Float64Array): Float64Array {
+  for (let k = 0; k < y.length; k++) {
+    y[k] = y[k] < lo[k] ? lo[k] : y[k] > hi[k] ? hi[k] : y[k];
+  }
+  return y;
+}
+
+/** Combine the statistics of consecutive solves. */
+export function mergeDiagnostics(a: SolverDiagnostics, b: SolverDiagnostics): SolverDiagnostics {
+  return {
+    acceptedSteps: a.acceptedSteps + b.acceptedSteps,
+    rejectedSteps: a.rejectedSteps + b.rejectedSteps,
+    minStep: Math.min(a.minStep, b.minStep),
+    forcedSteps: a.forcedSteps + b.forcedSteps,
+    clampedSteps: a.clampedSteps + b.clampedSteps,
+    truncated: a.truncated || b.truncated,
+    truncatedAt: a.truncatedAt ?? b.truncatedAt,
+    stiffFrom: a.stiffFrom ?? b.stiffFrom,
+  };
+}
+
+/**
+ * Warnings for results that should not be trusted: a run that ran out of
+ * steps, or one whose state was clamped on more than HEAVY_CLAMPING of
+ * its steps.
+ */
+export function solverWarnings(d: SolverDiagnostics): string[] {
+  const warnings: string[] = [];
+  if (d.truncated) {
+    warnings.push(
+      `The solver ran out of steps at t = ${d.truncatedAt?.toPrecision(4)} s; ` +
+      'the curves hold the last state from there on. Try the stiff solver or a shorter run.',
+    );
+  }
+  if (d.acceptedSteps > 0 && d.clampedSteps / d.acceptedSteps > HEAVY_CLAMPING) {
+    warnings.push(
+      `The state was clamped to its bounds on ${Math.round(100 * d.clampedSteps / d.acceptedSteps)}% ` +
+      'of the steps, so the trajectory follows the bounds rather than the model. ' +
+      'Try a window function or gentler parameters.',
+    );
+  }
+  return warnings;
 }
 
 /**
- * Solve dx/dt = f(t, x), x(t0) = x0, outputting at evenly-spaced points.
+ * Output times: `tEval` if given, otherwise `numPoints` evenly spaced
+ * points. The endpoints are always exactly tSpan.
+ */
+export function outputTimes(
+  tSpan: [number, number],
+  numPoints: number,
+  tEval?: ArrayLike<number>,
+): Float64Array {
+  const [t0, tEnd] = tSpan;
+  const tOut = tEval ? Float64Array.from(tEval) : new Float64Array(numPoints);
+  if (!tEval) {
+    const dt = (tEnd - t0) / (numPoints - 1);
+    for (let i = 0; i < numPoints; i++) tOut[i] = t0 + i * dt;
+  }
+  tOut[0] = t0;
+  tOut[numPoints - 1] = tEnd; // exact endpoint
+  return tOut;
+}
+
+/**
+ * Solve dy/dt = f(t, y), y(t0) = y0, outputting at evenly-spaced points
+ * (or at options.tEval).
  *
  * Uses dense output (Hermite interpolation) to evaluate the solution at
  * the requested output times without degrading accuracy.
  */
 export function solve(
-  f: (t: number, x: number) => number,
+  f: OdeFunction,
   tSpan: [number, number],
-  x0: number,
+  y0: ArrayLike<number>,
   options: SolverOptions = {},
 ): SolverResult {
-  const numPoints = options.numPoints ?? 10_000;
-  const rtol = options.rtol ?? 1e-8;
-  const atol = options.atol ?? 1e-10;
-  const maxSteps = options.maxSteps ?? 500_000;
+  const numPoints = options.tEval?.length ?? options.numPoints ?? 10_000;
+  const method = options.method ?? 'rk45';
+
+  const n = y0.length;
+  const lo = new Float64Array(n).fill(0);
+  const hi = new Float64Array(n).fill(1);
+  if (options.lower) lo.set(options.lower);
+  if (options.upper) hi.set(options.upper);
 
   const [t0, tEnd] = tSpan;
-  const dt = (tEnd - t0) / (numPoints - 1);
+  const hMin = (tEnd - t0) * 1e-12;
 
-  // Output arrays
-  const tOut = new Float64Array(numPoints);
-  const yOut = new Float64Array(numPoints);
-  for (let i = 0; i < numPoints; i++) {
-    tOut[i] = t0 + i * dt;
+  // Breakpoints strictly inside the span and at least hMin apart
+  const stops: number[] = [];
+  for (let i = 0; i < (options.tstops?.length ?? 0); i++) {
+    const ts = options.tstops![i];
+    if (ts > (stops[stops.length - 1] ?? t0) + hMin && ts < tEnd - hMin) stops.push(ts);
   }
-  tOut[numPoints - 1] = tEnd; // exact endpoint
+
+  // Output arrays
+  const tOut = outputTimes(tSpan, numPoints, options.tEval);
+  const yOut: Float64Array[] = [];
+  for (let k = 0; k < n; k++) yOut.push(new Float64Array(numPoints));
+
+  const run: Integration = {
+    f,
+    tEnd,
+    rtol: options.rtol ?? 1e-8,
+    atol: options.atol ?? 1e-10,
+    hMin,
+    hMax: options.maxStep ?? (tEnd - t0) * 0.1,
+    maxSteps: options.maxSteps ?? 500_000,
+    lo,
+    hi,
+    tOut,
+    yOut,
+    t: t0,
+    y: clampInPlace(Float64Array.from(y0), lo, hi),
+    h: options.firstStep ?? (tEnd - t0) * 1e-3,
+    outIdx: 1,
+    steps: 0,
+    accepted: 0,
+    rejected: 0,
+    forced: 0,
+    clamped: 0,
+    minStep: Infinity,
+    stops: Float64Array.from(stops),
+    stopIdx: 0,
+    pieces: options.denseOutput ? { t: [], interpolants: [] } : undefined,
+    onStep: options.onStep,
+  };
 
   // First output point
-  yOut[0] = clamp01(x0);
+  for (let k = 0; k < n; k++) yOut[k][0] = run.y[k];
+  if (options.events?.length) run.events = createEventTracker(options.events, t0, run.y);
+
+  // Dormand-Prince returns early in auto mode once the problem turns stiff
+  if (method !== 'rosenbrock') dormandPrince(run, method === 'auto');
+  if (run.t < tEnd && run.outIdx < numPoints && run.steps <= run.maxSteps) {
+    run.stiffFrom = run.t;
+    rosenbrock(run, options.jacobian);
+  }
 
-  let tCur = t0;
-  let xCur = clamp01(x0);
-  let outIdx = 1; // next output index to fill
+  // Fill any remaining points (only after exceeding maxSteps): hold the
+  // last computed value
+  const truncated = run.outIdx < numPoints;
+  for (let i = run.outIdx; i < numPoints; i++) {
+    for (let k = 0; k < n; k++) yOut[k][i] = run.y[k];
+  }
 
-  // Initial step-size estimate
-  let h = (tEnd - t0) * 1e-3;
-  const hMin = (tEnd - t0) * 1e-12;
-  const hMax = (tEnd - t0) * 0.1;
+  return {
+    t: tOut,
+    y: yOut,
+    diagnostics: {
+      acceptedSteps: run.accepted,
+      rejectedSteps: run.rejected,
+      minStep: run.minStep,
+      forcedSteps: run.forced,
+      clampedSteps: run.clamped,
+      truncated,
+      truncatedAt: truncated ? run.t : undefined,
+      stiffFrom: run.stiffFrom,
+    },
+    events: run.events?.found ?? [],
+    solution: run.pieces && denseSolution(run.pieces, run.t, run.y),
+  };
+}
 
-  let k1 = f(tCur, xCur);
-  let steps = 0;
+/** Look up the step containing t and evaluate its interpolant. */
+function denseSolution(
+  pieces: { t: number[]; interpolants: Interpolant[] },
+  tLast: number,
+  yLast: Float64Array,
+): DenseSolution {
+  const starts = pieces.t;
+  const yFinal = Float64Array.from(yLast);
+  return {
+    steps: Float64Array.from([...starts, tLast]),
+    evaluate: (t, out) => {
+      if (starts.length === 0 || t >= tLast) {
+        out.set(yFinal);
+        return;
+      }
+      // Last step starting at or before t
+      let lo = 0, hi = starts.length - 1;
+      while (lo < hi) {
+        const mid = (lo + hi + 1) >> 1;
+        if (starts[mid] <= t) lo = mid;
+        else hi = mid - 1;
+      }
+      pieces.interpolants[lo](t, out);
+    },
+  };
+}
 
-  while (tCur < tEnd && outIdx < numPoints) {
-    if (steps++ > maxSteps) {
-      // Fill remaining output with last computed value
-      for (let i = outIdx; i < numPoints; i++) yOut[i] = xCur;
-      break;
-    }
+/**
+ * Advance an integration with Dormand-Prince steps until the end of the
+ * span, or, with `detectStiffness`, until the steps are limited by
+ * stability rather than accuracy.
+ */
+function dormandPrince(run: Integration, detectStiffness: boolean): void {
+  const { f, tEnd, rtol, atol, hMin, hMax, maxSteps, lo, hi, tOut, yOut, stops } = run;
+  const numPoints = tOut.length;
+  const n = run.y.length;
 
-    // Don't overshoot the end
-    if (tCur + h > tEnd) h = tEnd - tCur;
-    if (h < hMin) h = hMin;
+  let tCur = run.t;
+  let yCur: Float64Array = run.y;
+  let yNew: Float64Array = new Float64Array(n);
+  let h = run.h;
+
+  // Stage derivatives and stage-state scratch buffers
+  let k1 = Float64Array.from(f(tCur, yCur));
+  const k2 = new Float64Array(n), k3 = new Float64Array(n), k4 = new Float64Array(n);
+  const k5 = new Float64Array(n), k6 = new Float64Array(n);
+  let k7 = new Float64Array(n);
+  const yStage = new Float64Array(n);
+  const y6 = new Float64Array(n);
+  const yDense = new Float64Array(n);
+
+  // Dense output of the step from tCur, valid until the buffers are swapped
+  const interpolate = (t: number, out: Float64Array): void =>
+    hermite((t - tCur) / h, h, yCur, k1, k3, k4, k5, k6, k7, lo, hi, out);
+
+  let stiffSteps = 0;
+  let nonstiffSteps = 0;
+
+  while (tCur < tEnd && run.outIdx < numPoints) {
+    if (run.steps++ > maxSteps) break;
+
+    // Don't overshoot the end or the next breakpoint: land exactly on it,
+    // with the stages at the end of the step left of a breakpoint
+    const hProposed = h;
+    const tStop = run.stopIdx < stops.length ? stops[run.stopIdx] : tEnd;
+    const landing = tCur + h >= tStop;
+    if (landing) h = tStop - tCur;
+    else if (h < hMin) h = hMin;
+    const atStop = landing && run.stopIdx < stops.length;
+    const tEdge = atStop ? leftOf(tStop) : tCur + h;
 
     // --- Dormand-Prince stages ---
     // k1 is already computed (FSAL)
-    const k2 = f(tCur + c2 * h, clamp01(xCur + h * a21 * k1));
-    const k3 = f(tCur + c3 * h, clamp01(xCur + h * (a31 * k1 + a32 * k2)));
-    const k4 = f(tCur + c4 * h, clamp01(xCur + h * (a41 * k1 + a42 * k2 + a43 * k3)));
-    const k5 = f(tCur + c5 * h, clamp01(xCur + h * (a51 * k1 + a52 * k2 + a53 * k3 + a54 * k4)));
-    const k6 = f(tCur + h, clamp01(xCur + h * (a61 * k1 + a62 * k2 + a63 * k3 + a64 * k4 + a65 * k5)));
+    for (let k = 0; k < n; k++) yStage[k] = yCur[k] + h * a21 * k1[k];
+    k2.set(f(tCur + c2 * h, clampInPlace(yStage, lo, hi)));
+    for (let k = 0; k < n; k++) yStage[k] = yCur[k] + h * (a31 * k1[k] + a32 * k2[k]);
+    k3.set(f(tCur + c3 * h, clampInPlace(yStage, lo, hi)));
+    for (let k = 0; k < n; k++) yStage[k] = yCur[k] + h * (a41 * k1[k] + a42 * k2[k] + a43 * k3[k]);
+    k4.set(f(tCur + c4 * h, clampInPlace(yStage, lo, hi)));
+    for (let k = 0; k < n; k++) yStage[k] = yCur[k] + h * (a51 * k1[k] + a52 * k2[k] + a53 * k3[k] + a54 * k4[k]);
+    k5.set(f(tCur + c5 * h, clampInPlace(yStage, lo, hi)));
+    for (let k = 0; k < n; k++) yStage[k] = yCur[k] + h * (a61 * k1[k] + a62 * k2[k] + a63 * k3[k] + a64 * k4[k] + a65 * k5[k]);
+    k6.set(f(tEdge, clampInPlace(yStage, lo, hi)));
+    y6.set(yStage);
 
     // 5th-order solution
-    const xNew = xCur + h * (a71 * k1 + a73 * k3 + a74 * k4 + a75 * k5 + a76 * k6);
-    const k7 = f(tCur + h, clamp01(xNew));
+    for (let k = 0; k < n; k++) {
+      yNew[k] = yCur[k] + h * (a71 * k1[k] + a73 * k3[k] + a74 * k4[k] + a75 * k5[k] + a76 * k6[k]);
+    }
+    yStage.set(yNew);
+    k7.set(f(tEdge, clampInPlace(yStage, lo, hi)));
 
-    // Error estimate
-    const err = h * (e1 * k1 + e3 * k3 + e4 * k4 + e5 * k5 + e6 * k6 + e7 * k7);
-    const scale = atol + rtol * Math.max(Math.abs(xCur), Math.abs(xNew));
-    const errNorm = Math.abs(err) / scale;
+    // Error estimate (RMS norm of the scaled per-component errors)
+    let errSq = 0;
+    for (let k = 0; k < n; k++) {
+      const err = h * (e1 * k1[k] + e3 * k3[k] + e4 * k4[k] + e5 * k5[k] + e6 * k6[k] + e7 * k7[k]);
+      const scale = atol + rtol * Math.max(Math.abs(yCur[k]), Math.abs(yNew[k]));
+      errSq += (err / scale) * (err / scale);
+    }
+    const errNorm = Math.sqrt(errSq / n);
 
-    if (errNorm <= 1.0) {
+    // Accept the step when the error is within tolerance, or when the step
+    // is already at its minimum (e.g. a derivative discontinuity at a state
+    // limit) and shrinking further is impossible
+    const accepted = errNorm <= 1.0 || h <= hMin;
+    if (accepted) {
       // Step accepted
-      const tNew = tCur + h;
-      const xClamped = clamp01(xNew);
+      const tNew = landing ? tStop : tCur + h;
+      run.accepted++;
+      if (errNorm > 1.0) run.forced++;
+      if (h < run.minStep) run.minStep = h;
+      for (let k = 0; k < n; k++) {
+        if (yNew[k] < lo[k] || yNew[k] > hi[k]) {
+          run.clamped++;
+          break;
+        }
+      }
 
       // Fill output points that fall within [tCur, tNew] using Hermite interpolation
-      while (outIdx < numPoints && tOut[outIdx] <= tNew + 1e-14 * Math.abs(tNew)) {
-        const theta = (tOut[outIdx] - tCur) / h;
-        // 4th-order Hermite interpolant for Dormand-Prince
-        const b1 = theta * (1 + theta * (-8048581381 / 2820520608 + theta * (8663915743 / 2820520608 + theta * (-12715105075 / 11282082432))));
-        const b3 = theta * theta * (131558114200 / 32700410799 + theta * (-68118460800 / 10900136933 + theta * (87487479700 / 32700410799)));
-        const b4 = theta * theta * (-1754552775 / 470086768 + theta * (14199869525 / 1410260304 + theta * (-10690763975 / 1880347072)));
-        const b5 = theta * theta * (127303824393 / 49829197408 + theta * (-318862633887 / 49829197408 + theta * (701980252875 / 199316789632)));
-        const b6 = theta * theta * (-282668133 / 205662961 + theta * (2019193451 / 616988883 + theta * (-1453857185 / 822651844)));
-        const b7 = theta * theta * (40617522 / 29380423 + theta * (-110615467 / 29380423 + theta * (69997945 / 29380423)));
-        const xInterp = xCur + h * (b1 * k1 + b3 * k3 + b4 * k4 + b5 * k5 + b6 * k6 + b7 * k7);
-        yOut[outIdx] = clamp01(xInterp);
-        outIdx++;
+      while (run.outIdx < numPoints && tOut[run.outIdx] <= tNew + 1e-14 * Math.abs(tNew)) {
+        interpolate(tOut[run.outIdx], yDense);
+        for (let k = 0; k < n; k++) yOut[k][run.outIdx] = yDense[k];
+        run.outIdx++;
+      }
+
+      // yStage holds the clamped new state
+      if (run.events) detectEvents(run.events, tCur, tNew, yStage, interpolate);
+      if (run.pieces) {
+        const [t0, hStep, y0] = [tCur, h, Float64Array.from(yCur)];
+        const [c1, c3, c4, c5, c6, c7] = [k1, k3, k4, k5, k6, k7].map((k) => Float64Array.from(k));
+        run.pieces.t.push(t0);
+        run.pieces.interpolants.push((t, out) =>
+          hermite((t - t0) / hStep, hStep, y0, c1, c3, c4, c5, c6, c7, lo, hi, out),
+        );
+      }
+
+      // Stiffness estimate h·|λ| ≈ h·‖k7 − k6‖ / ‖y7 − y6‖ from the two
+      // stages evaluated at t + h
+      if (detectStiffness) {
+        let num = 0, den = 0;
+        for (let k = 0; k < n; k++) {
+          num += (k7[k] - k6[k]) ** 2;
+          den += (yStage[k] - y6[k]) ** 2;
+        }
+        if (den > 0 && h * Math.sqrt(num / den) > STIFF_H_LAMBDA) {
+          nonstiffSteps = 0;
+          stiffSteps++;
+        } else if (++nonstiffSteps === NONSTIFF_STEPS) {
+          stiffSteps = 0;
+        }
       }
 
       tCur = tNew;
-      xCur = xClamped;
-      k1 = k7; // FSAL: reuse last stage
+      // Swap buffers: the clamped new state becomes current, k7 becomes k1 (FSAL)
+      const yPrev = yCur;
+      yCur = yNew;
+      clampInPlace(yCur, lo, hi);
+      yNew = yPrev;
+      const kPrev = k1;
+      k1 = k7;
+      k7 = kPrev;
+
+      // Restart on the far side of a breakpoint
+      if (atStop) {
+        k1.set(f(tCur, yCur));
+        run.stopIdx++;
+      }
+      run.onStep?.(tCur);
+    } else {
+      run.rejected++;
     }
 
     // Step-size adjustment (PI controller)
@@ -157,13 +570,43 @@ export function solve(
     let hNew = h * Math.min(5.0, Math.max(0.2, safety * errPow));
     if (hNew > hMax) hNew = hMax;
     if (hNew < hMin) hNew = hMin;
-    h = hNew;
-  }
+    // A step shortened to land on a breakpoint says little about the next
+    h = accepted && atStop ? Math.min(Math.max(hNew, hProposed), hMax) : hNew;
 
-  // Fill any remaining points (shouldn't normally happen)
-  for (let i = outIdx; i < numPoints; i++) {
-    yOut[i] = xCur;
+    if (accepted && stiffSteps >= STIFF_STEPS) break;
   }
 
-  return { t: tOut, y: yOut };
+  run.t = tCur;
+  run.y = yCur;
+  run.h = h;
+}
+
+/**
+ * 4th-order Hermite interpolant of a Dormand-Prince step of size h from
+ * state y, evaluated at the fraction theta of the step and clamped.
+ */
+function hermite(
+  theta: number,
+  h: number,
+  y: Float64Array,
+  k1: Float64Array,
+  k3: Float64Array,
+  k4: Float64Array,
+  k5: Float64Array,
+  k6: Float64Array,
+  k7: Float64Array,
+  lo: Float64Array,
+  hi: Float64Array,
+  out: Float64Array,
+): void {
+  const b1 = theta * (1 + theta * (-8048581381 / 2820520608 + theta * (8663915743 / 2820520608 + theta * (-12715105075 / 11282082432))));
+  const b3 = theta * theta * (131558114200 / 32700410799 + theta * (-68118460800 / 10900136933 + theta * (87487479700 / 32700410799)));
+  const b4 = theta * theta * (-1754552775 / 470086768 + theta * (14199869525 / 1410260304 + theta * (-10690763975 / 1880347072)));
+  const b5 = theta * theta * (127303824393 / 49829197408 + theta * (-318862633887 / 49829197408 + theta * (701980252875 / 199316789632)));
+  const b6 = theta * theta * (-282668133 / 205662961 + theta * (2019193451 / 616988883 + theta * (-1453857185 / 822651844)));
+  const b7 = theta * theta * (40617522 / 29380423 + theta * (-110615467 / 29380423 + theta * (69997945 / 29380423)));
+  for (let k = 0; k < y.length; k++) {
+    const yInterp = y[k] + h * (b1 * k1[k] + b3 * k3[k] + b4 * k4[k] + b5 * k5[k] + b6 * k6[k] + b7 * k7[k]);
+    out[k] = yInterp < lo[k] ? lo[k] : yInterp > hi[k] ? hi[k] : yInterp;
+  }
 }
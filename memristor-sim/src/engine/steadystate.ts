@@ -0,0 +1,254 @@
+/**
+ * Periodic steady state by shooting.
+ *
+ * Under a periodic drive the first loop of a transient run depends on the
+ * initial state, and the loop measured on a device is the one it settles
+ * into. The settled loop starts from a fixed point of the period map
+ * Φ(x₀) = x(T; x₀), which advances every state component through one
+ * period T of the signal. The shooting method solves Φ(x₀) − x₀ = 0 by
+ * Newton's method, with the monodromy matrix M = ∂Φ/∂x₀ taken by finite
+ * differences, one extra period per state component. Where M − I is
+ * singular or a Newton step fails to reduce the residual, a plain period
+ * x₀ ← Φ(x₀) is taken instead, which converges wherever the cycle
+ * attracts.
+ *
+ * The eigenvalues of M at the fixed point are the Floquet multipliers of
+ * the cycle. The largest modulus |μ| says how fast a transient run
+ * settles: deviations shrink by that factor every period. A multiplier
+ * of 1 means the cycle is neutral, as for the HP Labs model, whose state
+ * follows the charge: every initial state then lies on a periodic loop
+ * of its own.
+ *
+ * Sine signals repeat every 1/f and a repeating PWL table after its last
+ * point; a triangle or staircase sweep, a pulse train or a PWL table
+ * played once is treated as repeating every t_max. Retention
+ * experiments and stochastic runs have no periodic steady state.
+ */
+
+import { simulate } from './simulate.ts';
+import type { SimulationConfig, SimulationResult } from './simulate.ts';
+import { luFactor, luSolve } from './stiff.ts';
+import { pwlPeriod } from './signals/pwl.ts';
+
+/**
+ * What a run shows:
+ *   transient   — the response from x₀ over t_max (default)
+ *   steadyState — one period of the periodic steady state
+ */
+export type AnalysisType = 'transient' | 'steadyState';
+
+export const ANALYSIS_OPTIONS: { value: AnalysisType; label: string }[] = [
+  { value: 'transient', label: 'Transient' },
+  { value: 'steadyState', label: 'Steady State' },
+];
+
+/** Outcome of a steady-state analysis. */
+export interface SteadyStateReport {
+  converged: boolean;
+  /** Newton or fixed-point iterations taken. */
+  iterations: number;
+  /**
+   * Largest |x_k(T) − x_k(0)| relative to the range of component k,
+   * for the initial state and after every iteration.
+   */
+  residuals: number[];
+  /** Signal period T. */
+  period: number;
+  /** Initial state of the periodic loop, every component in stateInfo order. */
+  initialState: number[];
+  /** Largest Floquet multiplier modulus |μ| of the loop. */
+  multiplier: number;
+  /** |μ| ≈ 1: every nearby initial state lies on a periodic loop of its own. */
+  neutral: boolean;
+  /**
+   * Periods a transient run from the configured x₀ needs to come within
+   * SETTLED of the loop, estimated from the multiplier (so only accurate
+   * close to the loop); null for a neutral or unstable loop.
+   */
+  transientPeriods: number | null;
+}
+
+/** Residual below which the loop counts as closed. */
+const TOLERANCE = 1e-7;
+
+const MAX_ITERATIONS = 40;
+
+/** Finite-difference perturbation of the monodromy matrix, relative to each range. */
+const PERTURBATION = 1e-6;
+
+/** Smallest fraction of a Newton step tried before falling back to a plain period. */
+const MIN_DAMPING = 1 / 64;
+
+/** Multipliers this close to 1 are neutral. */
+const NEUTRAL = 1e-4;
+
+/** Distance from the loop, relative to the range, at which a transient counts as settled. */
+const SETTLED = 1e-3;
+
+/** Power iterations of the multiplier estimate. */
+const POWER_ITERATIONS = 60;
+
+/** Period of the configured signal, or an error for aperiodic ones. */
+export function signalPeriod(config: SimulationConfig): number {
+  switch (config.signalType) {
+    case 'sine':
+      return 1 / config.signalParams.frequency;
+    case 'triangle':
+    case 'pulse':
+    case 'staircase':
+    case 'sequence':
+    case 'measured':
+      return config.tMax;
+    case 'pwl':
+      return (config.pwl && pwlPeriod(config.pwl)) ?? config.tMax;
+    case 'retention':
+      throw new Error('A retention experiment has no periodic steady state.');
+  }
+}
+
+/**
+ * Find the periodic steady state of a run and simulate one period of it.
+ * The result covers [0, T] with the configured output sampling and
+ * events, and carries the report in `steadyState`. `onProgress` is
+ * called with the fraction of the iteration budget used so far.
+ */
+export function solveSteadyState(
+  config: SimulationConfig,
+  onProgress?: (fraction: number) => void,
+): SimulationResult {
+  if (config.stochastic) {
+    throw new Error('The steady-state analysis needs a deterministic run; switch off stochastic mode.');
+  }
+  const period = signalPeriod(config);
+
+  // One period from the full state x, returning the full state at T
+  const periodMap = (x: number[]): { end: number[]; result: SimulationResult } => {
+    const result = simulate({
+      ...config,
+      tMax: period,
+      x0: x[0],
+      x0Rest: x.slice(1),
+      numPoints: 2,
+      sampling: 'uniform',
+      events: undefined,
+    });
+    return { end: result.states.map((s) => s[s.length - 1]), result };
+  };
+
+  // The configured initial state, as clamped by the solver
+  const first = periodMap([config.x0, ...(config.x0Rest ?? [])]);
+  const { stateInfo } = first.result;
+  const n = stateInfo.length;
+  const lo = stateInfo.map((info) => info.min);
+  const hi = stateInfo.map((info) => info.max);
+  const range = stateInfo.map((info) => info.max - info.min || 1);
+  const start = first.result.states.map((s) => s[0]);
+  const clamp = (x: number[]) => x.map((v, k) => Math.min(hi[k], Math.max(lo[k], v)));
+  const residualOf = (x: number[], end: number[]) =>
+    Math.max(...x.map((v, k) => Math.abs(end[k] - v) / range[k]));
+
+  // Monodromy matrix ∂Φ/∂x (row-major) by forward differences, stepping
+  // inwards at an upper bound
+  const monodromy = (x: number[], end: number[]): Float64Array => {
+    const m = new Float64Array(n * n);
+    for (let j = 0; j < n; j++) {
+      const delta = (x[j] + PERTURBATION * range[j] > hi[j] ? -1 : 1) * PERTURBATION * range[j];
+      const probe = [...x];
+      probe[j] += delta;
+      const shifted = periodMap(probe).end;
+      for (let i = 0; i < n; i++) m[i * n + j] = (shifted[i] - end[i]) / delta;
+    }
+    return m;
+  };
+
+  let x = start;
+  let end = first.end;
+  let residual = residualOf(x, end);
+  const residuals = [residual];
+  let iterations = 0;
+
+  while (residual > TOLERANCE && iterations < MAX_ITERATIONS) {
+    iterations++;
+    const m = monodromy(x, end);
+
+    // Newton step (M − I)·Δ = −(Φ(x) − x), halved until it reduces the
+    // residual
+    let next: number[] | null = null;
+    let mapped: number[] | null = null;
+    const a = Float64Array.from(m);
+    for (let k = 0; k < n; k++) a[k * n + k] -= 1;
+    const pivot = new Int32Array(n);
+    if (luFactor(a, n, pivot)) {
+      const step = Float64Array.from(x, (v, k) => v - end[k]);
+      luSolve(a, n, pivot, step);
+      for (let damping = 1; damping >= MIN_DAMPING && step.every(Number.isFinite); damping /= 2) {
+        const trial = clamp(x.map((v, k) => v + damping * step[k]));
+        const trialEnd = periodMap(trial).end;
+        if (residualOf(trial, trialEnd) < residual) {
+          next = trial;
+          mapped = trialEnd;
+          break;
+        }
+      }
+    }
+    if (!next || !mapped) {
+      // Fixed-point iteration: one more period
+      next = end;
+      mapped = periodMap(next).end;
+    }
+    x = next;
+    end = mapped;
+    residual = residualOf(x, end);
+    residuals.push(residual);
+    onProgress?.(iterations / MAX_ITERATIONS);
+  }
+
+  const converged = residual <= TOLERANCE;
+  const multiplier = spectralRadius(monodromy(x, end), n);
+  const neutral = Math.abs(multiplier - 1) <= NEUTRAL;
+  const distance = Math.max(...start.map((v, k) => Math.abs(v - x[k]) / range[k]));
+  const transientPeriods = !converged || multiplier > 1 - NEUTRAL
+    ? null
+    : distance <= SETTLED
+      ? 0
+      : Math.ceil(Math.log(SETTLED / distance) / Math.log(Math.max(multiplier, Number.EPSILON)));
+
+  // The loop itself, with the configured sampling and events
+  const loop = simulate({ ...config, tMax: period, x0: x[0], x0Rest: x.slice(1) });
+  onProgress?.(1);
+  return {
+    ...loop,
+    steadyState: {
+      converged,
+      iterations,
+      residuals,
+      period,
+      initialState: x,
+      multiplier,
+      neutral,
+      transientPeriods,
+    },
+  };
+}
+
+/**
+ * Largest eigenvalue modulus of the n×n row-major matrix `m`, by power
+ * iteration: the geometric mean growth of ‖Mᵏv‖ over the second half of
+ * the iterations, which also holds for a dominant complex pair.
+ */
+function spectralRadius(m: Float64Array, n: number): number {
+  if (n === 1) return Math.abs(m[0]);
+  let v = new Float64Array(n).fill(1 / Math.sqrt(n));
+  let logGrowth = 0;
+  for (let iter = 0; iter < POWER_ITERATIONS; iter++) {
+    const w = new Float64Array(n);
+    for (let i = 0; i < n; i++) {
+      for (let j = 0; j < n; j++) w[i] += m[i * n + j] * v[j];
+    }
+    const norm = Math.hypot(...w);
+    if (norm === 0) return 0;
+    if (iter >= POWER_ITERATIONS / 2) logGrowth += Math.log(norm);
+    v = w.map((wi) => wi / norm);
+  }
+  return Math.exp(logGrowth / (POWER_ITERATIONS / 2));
+}
@@ -0,0 +1,331 @@
+/**
+ * Rosenbrock23 stiff ODE stepper.
+ *
+ * The linearly implicit second-order Rosenbrock method of Shampine &
+ * Reichelt, used by MATLAB's ode23s. Each step solves three linear
+ * systems with the matrix W = I − h·d·J, where J = ∂f/∂y, instead of
+ * iterating a nonlinear implicit equation. The method is L-stable, so
+ * the step size follows the accuracy of the solution even when the
+ * dynamics contain much faster decaying modes (large Ap/An, sharp
+ * exponential thresholds) that force an explicit method towards hMin.
+ *
+ * The third stage gives an embedded third-order error estimate, and a
+ * free second-order interpolant provides the dense output. J is taken
+ * from the model's analytic Jacobian when it has one and otherwise by
+ * finite differences, and is re-evaluated once per accepted step;
+ * ∂f/∂t is always differenced, since the drive signals are arbitrary.
+ *
+ * Reference:
+ *   L. F. Shampine and M. W. Reichelt, "The MATLAB ODE Suite," SIAM J.
+ *   Sci. Comput., vol. 18, no. 1, pp. 1-22, 1997.
+ */
+
+import { detectEvents } from './events.ts';
+import type { Integration, JacobianFunction, OdeFunction } from './solver.ts';
+
+const d = 1 / (2 + Math.SQRT2);
+const e32 = 6 + Math.SQRT2;
+
+/** Relative perturbation of the finite-difference derivatives. */
+const SQRT_EPS = Math.sqrt(Number.EPSILON);
+
+/**
+ * Advance an integration with Rosenbrock23 steps to the end of its span
+ * (or until its step budget is exhausted).
+ */
+export function rosenbrock(run: Integration, jacobian?: JacobianFunction): void {
+  const { f, tEnd, rtol, atol, hMin, hMax, maxSteps, lo, hi, tOut, yOut, stops } = run;
+  const numPoints = tOut.length;
+  const n = run.y.length;
+
+  let t = run.t;
+  const y = Float64Array.from(run.y);
+  let h = run.h;
+
+  const f0 = Float64Array.from(f(t, y));
+  const f1 = new Float64Array(n), f2 = new Float64Array(n);
+  const k1 = new Float64Array(n), k2 = new Float64Array(n), k3 = new Float64Array(n);
+  const dfdt = new Float64Array(n);
+  const yNew = new Float64Array(n), yStage = new Float64Array(n);
+  const J = new Float64Array(n * n);
+  const W = new Float64Array(n * n);
+  const pivot = new Int32Array(n);
+  const yDense = new Float64Array(n);
+  let jacobianCurrent = false;
+
+  // Interpolant of the step from t, valid until the step is taken
+  const interpolate = (tq: number, out: Float64Array): void =>
+    interpolant((tq - t) / h, h, y, k1, k2, lo, hi, out);
+
+  const clamp = (out: Float64Array): Float64Array => {
+    for (let k = 0; k < n; k++) out[k] = out[k] < lo[k] ? lo[k] : out[k] > hi[k] ? hi[k] : out[k];
+    return out;
+  };
+
+  while (t < tEnd && run.outIdx < numPoints) {
+    if (run.steps++ > maxSteps) break;
+
+    // Don't overshoot the end or the next breakpoint (see solver.ts)
+    const hProposed = h;
+    const tStop = run.stopIdx < stops.length ? stops[run.stopIdx] : tEnd;
+    const landing = t + h >= tStop;
+    if (landing) h = tStop - t;
+    else if (h < hMin) h = hMin;
+    const atStop = landing && run.stopIdx < stops.length;
+    // Just left of the breakpoint, as leftOf in solver.ts
+    const tEdge = atStop ? tStop - 2 * Number.EPSILON * Math.abs(tStop) : t + h;
+
+    // Jacobian and time derivative at (t, y), kept across rejected steps
+    if (!jacobianCurrent) {
+      if (jacobian) {
+        const rows = jacobian(t, y);
+        for (let i = 0; i < n; i++) {
+          for (let j = 0; j < n; j++) J[i * n + j] = rows[i][j];
+        }
+      } else {
+        numericJacobian(f, t, y, f0, lo, hi, J);
+      }
+      const dt = SQRT_EPS * Math.max(Math.abs(t), Math.abs(h));
+      const ft = f(t + dt, y);
+      for (let k = 0; k < n; k++) dfdt[k] = (ft[k] - f0[k]) / dt;
+      jacobianCurrent = true;
+    }
+
+    // W = I − h·d·J
+    for (let i = 0; i < n * n; i++) W[i] = -h * d * J[i];
+    for (let i = 0; i < n; i++) W[i * n + i] += 1;
+    if (!luFactor(W, n, pivot)) {
+      if (h <= hMin) throw new Error('Stiff solver failed: singular iteration matrix.');
+      run.rejected++;
+      h = Math.max(h / 4, hMin);
+      continue;
+    }
+
+    // --- Rosenbrock stages ---
+    for (let k = 0; k < n; k++) k1[k] = f0[k] + h * d * dfdt[k];
+    luSolve(W, n, pivot, k1);
+
+    for (let k = 0; k < n; k++) yStage[k] = y[k] + 0.5 * h * k1[k];
+    f1.set(f(t + 0.5 * h, clamp(yStage)));
+    for (let k = 0; k < n; k++) k2[k] = f1[k] - k1[k];
+    luSolve(W, n, pivot, k2);
+    for (let k = 0; k < n; k++) k2[k] += k1[k];
+
+    // A model stops its state at a limit by returning a rate of exactly
+    // zero there (the Stanford/ASU gap at g_min and g_max). If a rate is
+    // switched off at the midpoint, the second-order solution, which leans
+    // on the midpoint rate, leaves the state stalled just short of the
+    // limit; the step takes the first-order update y + h·k1 across it
+    // instead, with half the difference of the two as its error.
+    let switched = false;
+    for (let k = 0; k < n; k++) {
+      if (f1[k] === 0 && f0[k] !== 0) switched = true;
+    }
+
+    let errSq = 0;
+    if (switched) {
+      for (let k = 0; k < n; k++) {
+        yNew[k] = y[k] + h * k1[k];
+        const err = 0.5 * h * (k1[k] - k2[k]);
+        const scale = atol + rtol * Math.max(Math.abs(y[k]), Math.abs(yNew[k]));
+        errSq += (err / scale) * (err / scale);
+      }
+      k2.set(k1);
+      yStage.set(yNew);
+      f2.set(f(tEdge, clamp(yStage)));
+    } else {
+      // 2nd-order solution
+      for (let k = 0; k < n; k++) yNew[k] = y[k] + h * k2[k];
+      yStage.set(yNew);
+      f2.set(f(tEdge, clamp(yStage)));
+
+      for (let k = 0; k < n; k++) {
+        k3[k] = f2[k] - e32 * (k2[k] - f1[k]) - 2 * (k1[k] - f0[k]) + h * d * dfdt[k];
+      }
+      luSolve(W, n, pivot, k3);
+
+      // Error estimate (RMS norm of the scaled per-component errors)
+      for (let k = 0; k < n; k++) {
+        const err = (h / 6) * (k1[k] - 2 * k2[k] + k3[k]);
+        const scale = atol + rtol * Math.max(Math.abs(y[k]), Math.abs(yNew[k]));
+        errSq += (err / scale) * (err / scale);
+      }
+    }
+    const errNorm = Math.sqrt(errSq / n);
+
+    const accepted = errNorm <= 1.0 || h <= hMin;
+    if (accepted) {
+      const tNew = landing ? tStop : t + h;
+      run.accepted++;
+      if (errNorm > 1.0) run.forced++;
+      if (h < run.minStep) run.minStep = h;
+      for (let k = 0; k < n; k++) {
+        if (yNew[k] < lo[k] || yNew[k] > hi[k]) {
+          run.clamped++;
+          break;
+        }
+      }
+
+      // Fill output points within [t, tNew] from the interpolant
+      while (run.outIdx < numPoints && tOut[run.outIdx] <= tNew + 1e-14 * Math.abs(tNew)) {
+        interpolate(tOut[run.outIdx], yDense);
+        for (let k = 0; k < n; k++) yOut[k][run.outIdx] = yDense[k];
+        run.outIdx++;
+      }
+
+      // yStage holds the clamped new state
+      if (run.events) detectEvents(run.events, t, tNew, yStage, interpolate);
+      if (run.pieces) {
+        const [t0, hStep] = [t, h];
+        const [y0, c1, c2] = [y, k1, k2].map((v) => Float64Array.from(v));
+        run.pieces.t.push(t0);
+        run.pieces.interpolants.push((tq, out) =>
+          interpolant((tq - t0) / hStep, hStep, y0, c1, c2, lo, hi, out),
+        );
+      }
+
+      t = tNew;
+      y.set(clamp(yNew));
+      f0.set(f2); // evaluated at the clamped new state
+      jacobianCurrent = false;
+
+      // Restart on the far side of a breakpoint
+      if (atStop) {
+        f0.set(f(t, y));
+        run.stopIdx++;
+      }
+      run.onStep?.(t);
+    } else {
+      run.rejected++;
+    }
+
+    // Step-size adjustment for the third-order error estimate
+    const errPow = errNorm > 0 ? Math.pow(errNorm, -1 / 3) : 5.0;
+    let hNew = h * Math.min(5.0, Math.max(0.2, 0.8 * errPow));
+    if (hNew > hMax) hNew = hMax;
+    if (hNew < hMin) hNew = hMin;
+    h = accepted && atStop ? Math.min(Math.max(hNew, hProposed), hMax) : hNew;
+  }
+
+  run.t = t;
+  run.y = y;
+  run.h = h;
+}
+
+/**
+ * Free second-order interpolant of a step of size h from state y,
+ * evaluated at the fraction s of the step and clamped:
+ * y(t + s·h) = y + h·(s(1 − s)·k1 + s(s − 2d)·k2) / (1 − 2d)
+ */
+function interpolant(
+  s: number,
+  h: number,
+  y: Float64Array,
+  k1: Float64Array,
+  k2: Float64Array,
+  lo: Float64Array,
+  hi: Float64Array,
+  out: Float64Array,
+): void {
+  const b1 = (s * (1 - s)) / (1 - 2 * d);
+  const b2 = (s * (s - 2 * d)) / (1 - 2 * d);
+  for (let k = 0; k < y.length; k++) {
+    const yInterp = y[k] + h * (b1 * k1[k] + b2 * k2[k]);
+    out[k] = yInterp < lo[k] ? lo[k] : yInterp > hi[k] ? hi[k] : yInterp;
+  }
+}
+
+/**
+ * Finite-difference Jacobian into `out` (row-major). Each component is
+ * probed on both sides and the smaller of the two one-sided differences
+ * kept (zero if they disagree in sign), so a model that switches its rate
+ * off at a limit, like the Stanford/ASU gap at g_min, does not report the
+ * jump as an enormous derivative. Probes stay inside the state bounds.
+ */
+function numericJacobian(
+  f: OdeFunction,
+  t: number,
+  y: Float64Array,
+  f0: Float64Array,
+  lo: Float64Array,
+  hi: Float64Array,
+  out: Float64Array,
+): void {
+  const n = y.length;
+  const probe = Float64Array.from(y);
+  const forward = new Float64Array(n);
+  for (let j = 0; j < n; j++) {
+    const range = hi[j] - lo[j];
+    const delta = SQRT_EPS * Math.max(Math.abs(y[j]), Number.isFinite(range) ? range : 1);
+    const up = y[j] + delta <= hi[j];
+    const down = y[j] - delta >= lo[j];
+
+    if (up) {
+      probe[j] = y[j] + delta;
+      const fj = f(t, probe);
+      for (let i = 0; i < n; i++) forward[i] = (fj[i] - f0[i]) / delta;
+    }
+    if (down) {
+      probe[j] = y[j] - delta;
+      const fj = f(t, probe);
+      for (let i = 0; i < n; i++) {
+        const backward = (f0[i] - fj[i]) / delta;
+        out[i * n + j] = !up
+          ? backward
+          : forward[i] * backward <= 0
+            ? 0
+            : Math.abs(forward[i]) < Math.abs(backward) ? forward[i] : backward;
+      }
+    } else {
+      for (let i = 0; i < n; i++) out[i * n + j] = up ? forward[i] : 0;
+    }
+    probe[j] = y[j];
+  }
+}
+
+/**
+ * LU decomposition with partial pivoting of the n×n row-major matrix `a`,
+ * in place. Returns false if the matrix is singular.
+ */
+export function luFactor(a: Float64Array, n: number, pivot: Int32Array): boolean {
+  for (let c = 0; c < n; c++) {
+    let p = c;
+    for (let r = c + 1; r < n; r++) {
+      if (Math.abs(a[r * n + c]) > Math.abs(a[p * n + c])) p = r;
+    }
+    pivot[c] = p;
+    if (!(Math.abs(a[p * n + c]) > 0)) return false;
+    if (p !== c) {
+      for (let j = 0; j < n; j++) {
+        const tmp = a[c * n + j];
+        a[c * n + j] = a[p * n + j];
+        a[p * n + j] = tmp;
+      }
+    }
+    for (let r = c + 1; r < n; r++) {
+      const m = (a[r * n + c] /= a[c * n + c]);
+      for (let j = c + 1; j < n; j++) a[r * n + j] -= m * a[c * n + j];
+    }
+  }
+  return true;
+}
+
+/** Solve a·x = b in place in b, given the factors from luFactor. */
+export function luSolve(a: Float64Array, n: number, pivot: Int32Array, b: Float64Array): void {
+  // Rows were swapped whole, multipliers included, so permute b first
+  for (let c = 0; c < n; c++) {
+    const p = pivot[c];
+    if (p !== c) {
+      const tmp = b[c];
+      b[c] = b[p];
+      b[p] = tmp;
+    }
+  }
+  for (let c = 0; c < n; c++) {
+    for (let r = c + 1; r < n; r++) b[r] -= a[r * n + c] * b[c];
+  }
+  for (let r = n - 1; r >= 0; r--) {
+    for (let j = r + 1; j < n; j++) b[r] -= a[r * n + j] * b[j];
+    b[r] /= a[r * n + r];
+  }
+}
@@ -0,0 +1,142 @@
+/**
+ * Optional electro-thermal subsystem.
+ *
+ * Adds the device temperature T as an extra state component, heated by
+ * the Joule power dissipated in the device and cooled through a thermal
+ * resistance to the ambient:
+ *
+ *   C_th · dT/dt = I·V − (T − T_amb) / R_th
+ *
+ * The temperature feeds back into the switching dynamics through the
+ * model's ThermalCoupling: each listed rate parameter k is scaled by the
+ * Arrhenius factor
+ *
+ *   k(T) = k · exp(E_a,th/k_B · (1/T_ref − 1/T))
+ *
+ * so it keeps its fitted value at T_ref and grows as the device heats.
+ * Models with their own temperature dependence (Stanford/ASU) instead
+ * have their temperature parameter replaced by T.
+ *
+ * The thermal time constant τ = R_th·C_th must be resolved by the solver,
+ * so very small C_th makes the simulation slow.
+ */
+
+import type {
+  IVBranchFunctions,
+  ParameterInfo,
+  ParamValues,
+  StateVariableInfo,
+  VectorMemristorModel,
+} from './models/types.ts';
+
+/** Boltzmann constant (eV/K). */
+const K_B = 8.617333262e-5;
+
+/** Parameters of the thermal subsystem, shown when it is enabled. */
+export const THERMAL_PARAMETER_INFO: ParameterInfo[] = [
+  {
+    name: 'Rth', symbol: 'R_{\\mathrm{th}}', default: 1e4,
+    min: 1, max: 1e8, step: 1,
+    unit: 'K\\,W^{-1}', group: 'thermal',
+    description:
+      'Thermal resistance from the switching region to the ambient. ' +
+      'The steady-state temperature rise is R_th·I·V, so nanoscale ' +
+      'filaments (10⁵–10⁶ K/W) heat far more than large-area devices.',
+  },
+  {
+    name: 'Cth', symbol: 'C_{\\mathrm{th}}', default: 1e-7,
+    min: 1e-18, max: 1e-3, step: 1e-18,
+    unit: 'J\\,K^{-1}', group: 'thermal',
+    description:
+      'Thermal capacitance of the heated volume. Together with R_th sets ' +
+      'the thermal time constant τ = R_th·C_th.',
+  },
+  {
+    name: 'Ea_th', symbol: 'E_{a,\\mathrm{th}}', default: 0.5,
+    min: 0, max: 2, step: 0.01,
+    unit: 'eV', group: 'thermal',
+    description:
+      'Activation energy of the Arrhenius scaling applied to the model\'s ' +
+      'rate parameters. Zero disables the thermal feedback on switching.',
+  },
+  {
+    name: 'Tref', symbol: 'T_{\\mathrm{ref}}', default: 300,
+    min: 1, max: 1000, step: 1,
+    unit: 'K', group: 'thermal',
+    description:
+      'Reference temperature at which the rate parameters were fitted. ' +
+      'At T = T_ref the Arrhenius factor is 1.',
+  },
+];
+
+/** Metadata of the temperature state component. */
+export const TEMPERATURE_STATE_INFO: StateVariableInfo = {
+  name: 'T',
+  symbol: 'T',
+  unit: 'K',
+  description: 'Device temperature, raised above ambient by Joule heating.',
+  min: 1,
+  max: 5000,
+  default: 300,
+};
+
+/**
+ * Extend a model with a temperature state component.
+ *
+ * The returned model appends T to the state vector (starting at the
+ * ambient temperature) and evaluates the wrapped model with its rate
+ * parameters scaled to the current temperature. `iv` must be the same
+ * branch functions used for the current so the Joule power matches it.
+ */
+export function withThermal(
+  model: VectorMemristorModel,
+  ambientTemperature: number,
+  iv?: IVBranchFunctions,
+): VectorMemristorModel {
+  const coupling = model.thermal ?? { rates: [] };
+  const n = model.stateInfo.length;
+
+  // Reused scaled-parameter record, rebuilt only when the input changes
+  let source: ParamValues | null = null;
+  let scaled: ParamValues = {};
+
+  const paramsAt = (p: ParamValues, T: number): ParamValues => {
+    if (source !== p) {
+      source = p;
+      scaled = { ...p };
+    }
+    const factor = Math.exp((p.Ea_th / K_B) * (1 / p.Tref - 1 / T));
+    for (const name of coupling.rates) scaled[name] = p[name] * factor;
+    if (coupling.temperature) scaled[coupling.temperature] = T;
+    return scaled;
+  };
+
+  const dydt = new Float64Array(n + 1);
+
+  return {
+    ...model,
+    stateInfo: [
+      ...model.stateInfo,
+      { ...TEMPERATURE_STATE_INFO, default: ambientTemperature },
+    ],
+    jacobian: undefined,
+
+    current(v, x, p, branches) {
+      return model.current(v, x, paramsAt(p, x[n]), branches);
+    },
+
+    voltage: model.voltage && ((i, x, p, branches) =>
+      model.voltage!(i, x, paramsAt(p, x[n]), branches)),
+
+    dxdt(t, x, vFunc, p, windowFunc) {
+      const T = x[n];
+      const pT = paramsAt(p, T);
+      dydt.set(model.dxdt(t, x, vFunc, pT, windowFunc));
+
+      const v = vFunc(t);
+      const power = v * model.current(v, x, pT, iv);
+      dydt[n] = (power - (T - ambientTemperature) / p.Rth) / p.Cth;
+      return dydt;
+    },
+  };
+}
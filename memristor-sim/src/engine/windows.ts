@@ -1,5 +1,6 @@
 /**
- * Window functions for the HP Labs ion-drift model.
+ * Window functions for drift-type models (HP Labs, and custom models that
+ * opt in via `acceptsWindow`).
  *
  * Window functions F(x) multiply dx/dt to prevent the state variable
  * from exceeding its physical bounds [0, 1]. Without a window, the
@@ -15,9 +16,36 @@
  *
  *   - Anusudha: Alternative polynomial window with a parameter j
  *     that provides additional control over the boundary shape.
+ *
+ *   - Prodromakis: Window with an independent maximum j and
+ *     boundary sharpness p; the state never fully freezes inside.
+ *
+ *   - Zha: Prodromakis window made current-dependent like Biolek's,
+ *     so a boundary only blocks drift further into it.
+ *
+ *   - Boundary condition (Corinto & Ascoli): F = 1 inside (0, 1), and a
+ *     state held at a boundary stays there until the voltage exceeds a
+ *     detachment threshold in the opposite direction.
+ *
+ * Windows are defined on the normalised state x ∈ [0, 1]. Joglekar and
+ * Prodromakis are 0 at both bounds, so a state driven there can never
+ * leave ("boundary lock"); Biolek, Zha and the boundary-condition model
+ * avoid this by depending on the drive direction.
  */
 
-export type WindowType = 'none' | 'joglekar' | 'biolek' | 'anusudha';
+import type { WindowFunction } from './models/types.ts';
+
+export type WindowType =
+  | 'none'
+  | 'joglekar'
+  | 'biolek'
+  | 'anusudha'
+  | 'prodromakis'
+  | 'zha'
+  | 'boundary';
+
+/** Distance from a bound below which the boundary-condition model treats x as held there. */
+const BOUNDARY_TOLERANCE = 1e-9;
 
 /**
  * No window — F(x) = 1. Useful for debugging but allows x to exit [0, 1].
@@ -63,15 +91,65 @@ function anusudha(x: number, _i: number, p: number, j: number): number {
   return j * (1 - 2 * Math.pow(x * x * x - x + 1, p));
 }
 
+/**
+ * Prodromakis window function.
+ * F(x) = j · (1 − [(x − 0.5)² + 0.75]^p)
+ *
+ * Zero at both bounds with a maximum of j·(1 − 0.75^p) at x = 0.5.
+ * Unlike Joglekar, the peak height (j) and the flatness (p) are set
+ * independently.
+ */
+function prodromakis(x: number, _i: number, p: number, j: number): number {
+  return j * (1 - Math.pow((x - 0.5) * (x - 0.5) + 0.75, p));
+}
+
+/**
+ * Zha window function.
+ * F(x, i) = j · (1 − [0.25·(x − H(−i))² + 0.75]^p)
+ *
+ * The Heaviside term moves the zero to the boundary being approached, so
+ * a state at x = 0 or x = 1 can always leave when the current reverses.
+ */
+function zha(x: number, i: number, p: number, j: number): number {
+  const h = i < 0 ? 1 : 0; // Heaviside(−i)
+  return j * (1 - Math.pow(0.25 * (x - h) * (x - h) + 0.75, p));
+}
+
+/**
+ * Boundary condition model (Corinto & Ascoli).
+ *
+ *   F = 0  if x = 0 and v ≤ v_th,0, or x = 1 and v ≥ −v_th,1
+ *   F = 1  otherwise
+ *
+ * Inside the device the drift is unimpeded. Once the state reaches a
+ * bound it is held until the voltage pulls it away by more than the
+ * detachment threshold, so switching back needs a larger drive than
+ * switching there — the hysteresis of the model.
+ */
+function boundaryCondition(
+  x: number,
+  v: number,
+  vth0: number,
+  vth1: number,
+): number {
+  if (x <= BOUNDARY_TOLERANCE && v <= vth0) return 0;
+  if (x >= 1 - BOUNDARY_TOLERANCE && v >= -vth1) return 0;
+  return 1;
+}
+
 /**
  * Create a window function closure with the given type and parameters.
- * Returns a function (x, i) → F suitable for passing to the HP Labs model.
+ * Returns a function (x, i, v) → F suitable for passing to a model's dxdt.
+ * p and j shape the polynomial windows; vth0 and vth1 (V) are the
+ * detachment thresholds of the boundary-condition model at x = 0 and 1.
  */
 export function createWindowFunction(
   type: WindowType,
   p: number = 1,
   j: number = 1,
-): (x: number, i: number) => number {
+  vth0: number = 0,
+  vth1: number = 0,
+): WindowFunction {
   switch (type) {
     case 'joglekar':
       return (x, i) => joglekar(x, i, p);
@@ -79,6 +157,12 @@ export function createWindowFunction(
       return (x, i) => biolek(x, i, p);
     case 'anusudha':
       return (x, i) => anusudha(x, i, p, j);
+    case 'prodromakis':
+      return (x, i) => prodromakis(x, i, p, j);
+    case 'zha':
+      return (x, i) => zha(x, i, p, j);
+    case 'boundary':
+      return (x, _i, v) => boundaryCondition(x, v, vth0, vth1);
     case 'none':
     default:
       return noWindow;
@@ -2,215 +2,958 @@
  * Central application state using Zustand.
  *
  * Holds the selected model, all parameter values, signal configuration,
- * and the latest simulation result. Every parameter change triggers an
- * immediate re-simulation (< 5 ms in-browser) and plot update.
+ * and the latest simulation result. Every parameter change re-runs the
+ * simulation on a Web Worker (see worker/runner.ts), debounced while a
+ * slider is dragged; the previous result stays on screen until the new
+ * one arrives.
  */
 
 import { create } from 'zustand';
-import { MODEL_REGISTRY } from '../engine/models/index.ts';
-import type { ParamValues } from '../engine/models/types.ts';
+import {
+  MODEL_REGISTRY,
+  compileCustomModel,
+  registerModel,
+  stateInfoOf,
+  unregisterModel,
+} from '../engine/models/index.ts';
+import type { CustomModelSpec, ParamValues } from '../engine/models/index.ts';
 import type { SignalType } from '../engine/signals/types.ts';
 import type { WindowType } from '../engine/windows.ts';
+import { resolveParameterInfo } from '../engine/ivshapes.ts';
+import type { IVShapeSelection, IVShapeType } from '../engine/ivshapes.ts';
+import { THERMAL_PARAMETER_INFO } from '../engine/thermal.ts';
+import { relaxationParameterInfo } from '../engine/relaxation.ts';
+import type { RelaxationType } from '../engine/relaxation.ts';
+import type { SolverMethod } from '../engine/solver.ts';
+import type { EventDefinition } from '../engine/events.ts';
+import type { SamplingMode } from '../engine/sampling.ts';
+import type { AnalysisType } from '../engine/steadystate.ts';
+import type { RetentionParams } from '../engine/signals/retention.ts';
+import { pwlDuration } from '../engine/signals/pwl.ts';
+import type { ParsedPwl, PwlInterpolation, PwlParams } from '../engine/signals/pwl.ts';
+import { pulseTrainDuration } from '../engine/signals/pulse.ts';
+import type { PulsePolarity, PulseTrainParams } from '../engine/signals/pulse.ts';
+import { staircaseDuration } from '../engine/signals/staircase.ts';
+import type { StaircaseParams } from '../engine/signals/staircase.ts';
+import { sequenceDuration } from '../engine/signals/sequence.ts';
+import type { SequenceParams } from '../engine/signals/sequence.ts';
+import type { MeasuredSweep } from '../engine/smucsv.ts';
+import { DEFAULT_VOLTAGE_COMPLIANCE } from '../engine/drive.ts';
+import type { DriveMode } from '../engine/drive.ts';
 import { PRESETS } from '../engine/presets.ts';
 import type { ExperimentPreset } from '../engine/presets.ts';
-import { simulate } from '../engine/simulate.ts';
-import type { SimulationResult } from '../engine/simulate.ts';
+import type { SimulationConfig, SimulationResult } from '../engine/simulate.ts';
+import type {
+  MonteCarloResult,
+  ParameterDistribution,
+  VariabilitySpec,
+} from '../engine/montecarlo.ts';
+import { createSimulationRunner } from '../worker/runner.ts';
 
 export interface SimulationState {
   // Model
   modelId: string;
   modelParams: ParamValues;
+  customModels: CustomModelSpec[];
+  /** Setups saved by the user, listed with the experiment presets. */
+  savedPresets: ExperimentPreset[];
 
   // Signal
   signalType: SignalType;
   signalParams: { vp: number; vn: number; frequency: number };
+  retention: RetentionParams;
+  pwl: PwlParams;
+  pulse: PulseTrainParams;
+  staircase: StaircaseParams;
+  sequence: SequenceParams;
+  /** Measured sweep to replay, once one is loaded. */
+  measured: MeasuredSweep | null;
+
+  // Source and measurement circuit
+  drive: DriveMode;
+  voltageCompliance: number;
+  seriesResistance: number;
+  compliance: number;
 
   // Simulation
   x0: number;
   tMax: number;
+  relaxation: RelaxationType;
+  solverMethod: SolverMethod;
+  sampling: SamplingMode;
+  events: EventDefinition[];
+  analysis: AnalysisType;
 
-  // HP Labs window
+  // Window function (models that accept one)
   windowType: WindowType;
   windowP: number;
   windowJ: number;
+  windowVth0: number;
+  windowVth1: number;
+
+  // I-V branch conduction mechanisms
+  ivShapes: IVShapeSelection;
+
+  // Electro-thermal coupling
+  thermal: boolean;
+  ambientTemperature: number;
+
+  // Stochastic mode
+  stochastic: boolean;
+  noiseSeed: number;
+  stateNoise: number;
+  paramJitter: number;
+
+  // Monte Carlo variability
+  variability: VariabilitySpec;
+  mcRuns: number;
+  mcSeed: number;
+  monteCarlo: MonteCarloResult | null;
+  monteCarloRunning: boolean;
+  /** Fraction of the Monte Carlo batch done. */
+  monteCarloProgress: number;
+  monteCarloError: string | null;
 
   // Results
   result: SimulationResult | null;
   error: string | null;
+  /** A simulation of the current inputs is in progress. */
+  simulating: boolean;
+  /** Fraction of the time span solved by the simulation in progress. */
+  simulationProgress: number;
 
   // Actions
   setModel: (modelId: string) => void;
+  saveCustomModel: (spec: CustomModelSpec) => void;
+  deleteCustomModel: (id: string) => void;
   setModelParam: (name: string, value: number) => void;
   setSignalType: (type: SignalType) => void;
   setSignalParam: (name: string, value: number) => void;
+  setRetentionParam: (name: keyof RetentionParams, value: number) => void;
+  /** Load a parsed PWL table, taking over the options its source set. */
+  setPwlTable: (table: ParsedPwl) => void;
+  setPwlInterpolation: (interpolation: PwlInterpolation) => void;
+  setPwlRepeat: (repeat: boolean) => void;
+  setPwlTimeScale: (timeScale: number) => void;
+  setPulseParam: (name: Exclude<keyof PulseTrainParams, 'polarity'>, value: number) => void;
+  setPulsePolarity: (polarity: PulsePolarity) => void;
+  setStaircaseParam: (name: keyof StaircaseParams, value: number) => void;
+  setSequence: (sequence: SequenceParams) => void;
+  setMeasured: (measured: MeasuredSweep) => void;
+  setDrive: (drive: DriveMode) => void;
+  setVoltageCompliance: (compliance: number) => void;
+  setSeriesResistance: (resistance: number) => void;
+  setCompliance: (compliance: number) => void;
   setX0: (x0: number) => void;
   setTMax: (tMax: number) => void;
+  setRelaxation: (type: RelaxationType) => void;
+  setSolverMethod: (method: SolverMethod) => void;
+  setSampling: (sampling: SamplingMode) => void;
+  setEvents: (events: EventDefinition[]) => void;
+  setAnalysis: (analysis: AnalysisType) => void;
   setWindowType: (type: WindowType) => void;
   setWindowP: (p: number) => void;
   setWindowJ: (j: number) => void;
+  setWindowVth0: (vth: number) => void;
+  setWindowVth1: (vth: number) => void;
+  setIVShape: (branch: string, shape: IVShapeType) => void;
+  setThermal: (enabled: boolean) => void;
+  setAmbientTemperature: (temperature: number) => void;
+  setStochastic: (enabled: boolean) => void;
+  setNoiseSeed: (seed: number) => void;
+  setStateNoise: (noise: number) => void;
+  setParamJitter: (jitter: number) => void;
+  setVariability: (name: string, dist: ParameterDistribution | null) => void;
+  setMcRuns: (runs: number) => void;
+  setMcSeed: (seed: number) => void;
+  runMonteCarlo: () => void;
+  cancelMonteCarlo: () => void;
+  clearMonteCarlo: () => void;
   loadPreset: (preset: ExperimentPreset) => void;
+  /** Save the present setup, signal and all, as a preset of the current model. */
+  savePreset: (name: string) => void;
+  deletePreset: (id: string) => void;
   runSimulation: () => void;
   resetToDefaults: () => void;
 }
 
 /** Build a ParamValues record from a model's default parameter info. */
-function defaultParams(modelId: string): ParamValues {
+function defaultParams(modelId: string, ivShapes: IVShapeSelection = {}): ParamValues {
+  return withDefaults(modelId, {}, ivShapes);
+}
+
+/**
+ * Fill in defaults for any parameter the model (with the given I-V shapes),
+ * the relaxation term or the thermal subsystem declares but `params`
+ * lacks, e.g. after switching a branch's shape.
+ */
+function withDefaults(
+  modelId: string,
+  params: ParamValues,
+  ivShapes: IVShapeSelection,
+): ParamValues {
   const model = MODEL_REGISTRY[modelId];
-  if (!model) return {};
-  const params: ParamValues = {};
-  for (const info of model.parameterInfo) {
-    params[info.name] = info.default;
+  if (!model) return params;
+  const filled: ParamValues = { ...params };
+  for (const info of [
+    ...resolveParameterInfo(model, ivShapes),
+    ...relaxationParameterInfo(stateInfoOf(model)[0], 'stretched'),
+    ...THERMAL_PARAMETER_INFO,
+  ]) {
+    if (!(info.name in filled)) filled[info.name] = info.default;
   }
-  return params;
+  return filled;
 }
 
-/** Run the simulation and return result or error. */
-function runSim(state: {
+/** Store fields that determine the simulation configuration. */
+interface SimulationInputs {
   modelId: string;
   modelParams: ParamValues;
   signalType: SignalType;
   signalParams: { vp: number; vn: number; frequency: number };
+  retention: RetentionParams;
+  pwl: PwlParams;
+  pulse: PulseTrainParams;
+  staircase: StaircaseParams;
+  sequence: SequenceParams;
+  measured: MeasuredSweep | null;
+  drive: DriveMode;
+  voltageCompliance: number;
+  seriesResistance: number;
+  compliance: number;
   x0: number;
   tMax: number;
+  relaxation: RelaxationType;
+  solverMethod: SolverMethod;
+  sampling: SamplingMode;
+  events: EventDefinition[];
   windowType: WindowType;
   windowP: number;
   windowJ: number;
-}): { result: SimulationResult | null; error: string | null } {
+  windowVth0: number;
+  windowVth1: number;
+  ivShapes: IVShapeSelection;
+  thermal: boolean;
+  ambientTemperature: number;
+  stochastic: boolean;
+  noiseSeed: number;
+  stateNoise: number;
+  paramJitter: number;
+}
+
+/** Build the engine configuration from the store fields. */
+function toConfig(state: SimulationInputs): SimulationConfig {
+  return {
+    modelId: state.modelId,
+    modelParams: state.modelParams,
+    signalType: state.signalType,
+    signalParams: state.signalParams,
+    retention: state.retention,
+    pwl: state.pwl,
+    pulse: state.pulse,
+    staircase: state.staircase,
+    sequence: state.sequence,
+    measured: state.measured ?? undefined,
+    drive: state.drive,
+    voltageCompliance: state.voltageCompliance,
+    seriesResistance: state.seriesResistance,
+    compliance: state.compliance,
+    x0: state.x0,
+    tMax: state.tMax,
+    windowType: state.windowType,
+    windowP: state.windowP,
+    windowJ: state.windowJ,
+    windowVth0: state.windowVth0,
+    windowVth1: state.windowVth1,
+    ivShapes: state.ivShapes,
+    thermal: state.thermal,
+    ambientTemperature: state.ambientTemperature,
+    stochastic: state.stochastic
+      ? {
+          seed: state.noiseSeed,
+          stateNoise: state.stateNoise,
+          paramJitter: state.paramJitter,
+        }
+      : undefined,
+    relaxation: state.relaxation,
+    method: state.solverMethod,
+    sampling: state.sampling,
+    events: state.events,
+  };
+}
+
+/** Quiet period (ms) after the last input change before a run starts. */
+const DEBOUNCE_MS = 40;
+
+/** Longest (ms) a run is held back while the inputs keep changing, e.g. during a slider drag. */
+const MAX_DEBOUNCE_MS = 200;
+
+const simulationRunner = createSimulationRunner();
+const monteCarloRunner = createSimulationRunner();
+
+/** localStorage key of the saved custom model specifications. */
+const CUSTOM_MODELS_KEY = 'memristor-sim:custom-models';
+
+/**
+ * Read the saved custom models and register every one that still
+ * compiles. Storage may be unavailable (private browsing, tests), in which
+ * case there are simply no saved models.
+ */
+function loadCustomModels(): CustomModelSpec[] {
+  let specs: CustomModelSpec[];
   try {
-    const result = simulate({
-      modelId: state.modelId,
-      modelParams: state.modelParams,
-      signalType: state.signalType,
-      signalParams: state.signalParams,
-      x0: state.x0,
-      tMax: state.tMax,
-      windowType: state.modelId === 'hp_labs' ? state.windowType : undefined,
-      windowP: state.windowP,
-      windowJ: state.windowJ,
-    });
-    return { result, error: null };
-  } catch (e) {
-    return { result: null, error: e instanceof Error ? e.message : String(e) };
+    specs = JSON.parse(localStorage.getItem(CUSTOM_MODELS_KEY) ?? '[]');
+  } catch {
+    return [];
+  }
+  return specs.filter((spec) => {
+    try {
+      registerModel(compileCustomModel(spec));
+      return true;
+    } catch {
+      return false;
+    }
+  });
+}
+
+function storeCustomModels(specs: CustomModelSpec[]): void {
+  try {
+    localStorage.setItem(CUSTOM_MODELS_KEY, JSON.stringify(specs));
+  } catch {
+    // Storage full or unavailable: the models last for this session only
+  }
+}
+
+/** localStorage key of the presets saved by the user. */
+const SAVED_PRESETS_KEY = 'memristor-sim:saved-presets';
+
+/** Prefix of the ids of saved presets, which keeps them apart from the built-in ones. */
+const SAVED_PRESET_PREFIX = 'saved:';
+
+/** The saved presets, or none if storage is unavailable. */
+function loadSavedPresets(): ExperimentPreset[] {
+  try {
+    return JSON.parse(localStorage.getItem(SAVED_PRESETS_KEY) ?? '[]');
+  } catch {
+    return [];
   }
 }
 
+function storeSavedPresets(presets: ExperimentPreset[]): void {
+  try {
+    localStorage.setItem(SAVED_PRESETS_KEY, JSON.stringify(presets));
+  } catch {
+    // Storage full or unavailable: the presets last for this session only
+  }
+}
+
+/**
+ * The setup as a preset, so that a whole measurement recipe — model,
+ * signal with all its segments, source and simulation settings — can be
+ * saved and loaded again. Saving under the name of an existing saved
+ * preset of the model replaces it.
+ */
+function toPreset(state: SimulationInputs, name: string): ExperimentPreset {
+  const slug = name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+  return {
+    id: `${SAVED_PRESET_PREFIX}${state.modelId}:${slug || 'preset'}`,
+    name: name.trim() || 'Saved preset',
+    description: `Saved ${state.signalType} setup.`,
+    citation: 'Saved preset',
+    modelId: state.modelId,
+    signalType: state.signalType,
+    signalParams: { ...state.signalParams },
+    modelParams: { ...state.modelParams },
+    x0: state.x0,
+    tMax: state.tMax,
+    windowType: state.windowType,
+    windowP: state.windowP,
+    windowJ: state.windowJ,
+    windowVth0: state.windowVth0,
+    windowVth1: state.windowVth1,
+    ivShapes: { ...state.ivShapes },
+    thermal: state.thermal,
+    ambientTemperature: state.ambientTemperature,
+    relaxation: state.relaxation,
+    retention: { ...state.retention },
+    pwl: { ...state.pwl },
+    pulse: { ...state.pulse },
+    staircase: { ...state.staircase },
+    sequence: { ...state.sequence },
+    // A sweep runs to a thousand rows; keep it out of presets that do not replay it
+    measured: state.signalType === 'measured' ? (state.measured ?? undefined) : undefined,
+    drive: state.drive,
+    voltageCompliance: state.voltageCompliance,
+    seriesResistance: state.seriesResistance,
+    compliance: state.compliance,
+  };
+}
+
 // Load the first preset as the initial state
 const initialPreset = PRESETS[0];
 
+/** Retention settings used until a retention preset is loaded. */
+const DEFAULT_RETENTION: RetentionParams = { vProgram: 1, tProgram: 1e-3, vRead: 0.1 };
+
+/**
+ * PWL table used until one is loaded: the stimulus PWL(0 0 1 1 2 -2 3 0)
+ * of the LTspice STDP experiments.
+ */
+const DEFAULT_PWL: PwlParams = {
+  times: [0, 1, 2, 3],
+  values: [0, 1, -2, 0],
+  interpolation: 'linear',
+  repeat: false,
+  timeScale: 1,
+};
+
+/** Pulse train used until a pulse preset is loaded: 20 SET then 20 RESET pulses. */
+const DEFAULT_PULSE: PulseTrainParams = {
+  vSet: 1,
+  vReset: 1,
+  width: 10e-3,
+  rise: 1e-3,
+  fall: 1e-3,
+  period: 50e-3,
+  count: 20,
+  polarity: 'setReset',
+  vRead: 0.1,
+  readWidth: 5e-3,
+};
+
+/** Staircase sweep used until a staircase preset is loaded: 0 → 1 → −1 → 0 V in 10 mV steps. */
+const DEFAULT_STAIRCASE: StaircaseParams = {
+  start: 0,
+  firstPeak: 1,
+  secondPeak: -1,
+  stop: 0,
+  step: 0.01,
+  dwell: 2.5e-3,
+  cycles: 1,
+};
+
+/**
+ * Sequence used until a sequence preset is loaded: a forming ramp to
+ * 1 V, three triangle cycles, a burst of five SET pulses and a rest.
+ */
+const DEFAULT_SEQUENCE: SequenceParams = {
+  mode: 'concatenate',
+  segments: [
+    { generator: 'ramp', duration: 1, delay: 0, offset: 0, amplitude: 1, frequency: 1 },
+    { generator: 'triangle', duration: 3, delay: 0, offset: 0, amplitude: 1, frequency: 1 },
+    {
+      generator: 'pulse',
+      duration: 0.3,
+      delay: 0,
+      offset: 0,
+      amplitude: 1,
+      frequency: 1,
+      pulse: { ...DEFAULT_PULSE, count: 5, polarity: 'set' },
+    },
+    { generator: 'dc', duration: 1, delay: 0, offset: 0, amplitude: 0, frequency: 1 },
+  ],
+};
+
+/**
+ * Duration of a PWL table, pulse train, staircase sweep, sequence or
+ * measured sweep, which t_max follows; undefined for signals that run
+ * for any t_max.
+ */
+function signalDuration(
+  state: Pick<SimulationInputs, 'signalType' | 'pwl' | 'pulse' | 'staircase' | 'sequence' | 'measured'>,
+): number | undefined {
+  switch (state.signalType) {
+    case 'pwl':
+      return pwlDuration(state.pwl);
+    case 'pulse':
+      return pulseTrainDuration(state.pulse);
+    case 'staircase':
+      return staircaseDuration(state.staircase);
+    case 'sequence':
+      return sequenceDuration(state.sequence);
+    case 'measured':
+      return state.measured ? state.measured.time[state.measured.time.length - 1] : undefined;
+    default:
+      return undefined;
+  }
+}
+
+/** Signal amplitude (A) on switching to current drive without a result to scale from. */
+const DEFAULT_DRIVE_CURRENT = 1e-4;
+
+/** Detachment threshold (V) of the boundary-condition window unless a preset sets one. */
+const DEFAULT_WINDOW_VTH = 0.5;
+
 export const useSimulationStore = create<SimulationState>()((set, get) => {
   const initialState = {
     modelId: initialPreset.modelId,
-    modelParams: { ...initialPreset.modelParams },
+    modelParams: withDefaults(
+      initialPreset.modelId,
+      initialPreset.modelParams,
+      { ...initialPreset.ivShapes },
+    ),
     signalType: initialPreset.signalType,
     signalParams: { ...initialPreset.signalParams },
+    retention: { ...(initialPreset.retention ?? DEFAULT_RETENTION) },
+    pwl: { ...(initialPreset.pwl ?? DEFAULT_PWL) },
+    pulse: { ...(initialPreset.pulse ?? DEFAULT_PULSE) },
+    staircase: { ...(initialPreset.staircase ?? DEFAULT_STAIRCASE) },
+    sequence: { ...(initialPreset.sequence ?? DEFAULT_SEQUENCE) },
+    measured: initialPreset.measured ?? null,
+    drive: initialPreset.drive ?? ('voltage' as DriveMode),
+    voltageCompliance: initialPreset.voltageCompliance ?? DEFAULT_VOLTAGE_COMPLIANCE,
+    seriesResistance: initialPreset.seriesResistance ?? 0,
+    compliance: initialPreset.compliance ?? 0,
     x0: initialPreset.x0,
     tMax: initialPreset.tMax,
+    relaxation: initialPreset.relaxation ?? ('none' as RelaxationType),
+    solverMethod: 'auto' as SolverMethod,
+    sampling: 'uniform' as SamplingMode,
+    events: [] as EventDefinition[],
+    analysis: 'transient' as AnalysisType,
     windowType: (initialPreset.windowType ?? 'joglekar') as WindowType,
     windowP: initialPreset.windowP ?? 1,
     windowJ: initialPreset.windowJ ?? 1,
+    windowVth0: initialPreset.windowVth0 ?? DEFAULT_WINDOW_VTH,
+    windowVth1: initialPreset.windowVth1 ?? DEFAULT_WINDOW_VTH,
+    ivShapes: { ...initialPreset.ivShapes },
+    thermal: initialPreset.thermal ?? false,
+    ambientTemperature: initialPreset.ambientTemperature ?? 300,
+    stochastic: false,
+    noiseSeed: 1,
+    stateNoise: 0.02,
+    paramJitter: 0.05,
+  };
+
+  const initialMonteCarlo = {
+    variability: {} as VariabilitySpec,
+    mcRuns: 50,
+    mcSeed: 1,
+    monteCarlo: null,
+    monteCarloRunning: false,
+    monteCarloProgress: 0,
+    monteCarloError: null,
+  };
+
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let firstRequest = 0;
+
+  /** Simulate the inputs as they are now. */
+  const startSimulation = () => {
+    timer = null;
+    const state = get();
+    set({ simulating: true, simulationProgress: 0 });
+    const kind = state.analysis === 'steadyState' ? 'steadyState' : 'simulate';
+    simulationRunner.run({ kind, config: toConfig(state) }, state.customModels, {
+      onProgress: (simulationProgress) => set({ simulationProgress }),
+      onDone: (result) => set({ result, error: null, simulating: false }),
+      onError: (error) => set({ result: null, error, simulating: false }),
+    });
   };
 
-  const { result, error } = runSim(initialState);
+  /** Drop the Monte Carlo envelope: it only describes the inputs it was run with. */
+  const invalidateMonteCarlo = () => {
+    if (get().monteCarlo || get().monteCarloRunning) {
+      monteCarloRunner.cancel();
+      set({ monteCarlo: null, monteCarloRunning: false });
+    }
+  };
+
+  /**
+   * Re-simulate after an input change. On a worker the run starts once
+   * the inputs have been left alone for DEBOUNCE_MS, or at the latest
+   * MAX_DEBOUNCE_MS after the first change, superseding any run still in
+   * progress. Without one it runs at once, as every run did before.
+   */
+  const requestSimulation = () => {
+    invalidateMonteCarlo();
+    if (!simulationRunner.threaded) {
+      startSimulation();
+      return;
+    }
+    const now = Date.now();
+    if (timer === null) firstRequest = now;
+    else clearTimeout(timer);
+    const delay = Math.min(DEBOUNCE_MS, firstRequest + MAX_DEBOUNCE_MS - now);
+    timer = setTimeout(startSimulation, Math.max(0, delay));
+  };
+
+  /** Change a timed signal's settings; t_max follows the signal's duration. */
+  const setTimedSignal = (
+    changes: Partial<Pick<SimulationInputs, 'pwl' | 'pulse' | 'staircase' | 'sequence' | 'measured'>>,
+  ) => {
+    const tMax = signalDuration({ ...get(), ...changes });
+    set(tMax === undefined ? changes : { ...changes, tMax });
+    requestSimulation();
+  };
 
   return {
     ...initialState,
-    result,
-    error,
+    ...initialMonteCarlo,
+    customModels: loadCustomModels(),
+    savedPresets: loadSavedPresets(),
+    result: null,
+    error: null,
+    simulating: false,
+    simulationProgress: 0,
 
     setModel: (modelId: string) => {
-      const params = defaultParams(modelId);
       const model = MODEL_REGISTRY[modelId];
       if (!model) return;
 
       // Find a matching preset for sensible defaults
       const preset = PRESETS.find((p) => p.modelId === modelId);
-      const newState = {
-        ...get(),
+      const ivShapes = { ...preset?.ivShapes };
+      set({
         modelId,
-        modelParams: preset ? { ...preset.modelParams } : params,
+        modelParams: preset
+          ? withDefaults(modelId, preset.modelParams, ivShapes)
+          : defaultParams(modelId, ivShapes),
         signalType: (preset?.signalType ?? get().signalType) as SignalType,
         signalParams: preset ? { ...preset.signalParams } : get().signalParams,
-        x0: preset?.x0 ?? 0.1,
+        retention: preset?.retention ? { ...preset.retention } : get().retention,
+        pwl: preset?.pwl ? { ...preset.pwl } : get().pwl,
+        pulse: preset?.pulse ? { ...preset.pulse } : get().pulse,
+        staircase: preset?.staircase ? { ...preset.staircase } : get().staircase,
+        sequence: preset?.sequence ? { ...preset.sequence } : get().sequence,
+        measured: preset?.measured ?? get().measured,
+        drive: (preset?.drive ?? 'voltage') as DriveMode,
+        voltageCompliance: preset?.voltageCompliance ?? DEFAULT_VOLTAGE_COMPLIANCE,
+        seriesResistance: preset?.seriesResistance ?? 0,
+        compliance: preset?.compliance ?? 0,
+        x0: preset?.x0 ?? stateInfoOf(model)[0].default,
         tMax: preset?.tMax ?? 1,
+        relaxation: (preset?.relaxation ?? 'none') as RelaxationType,
         windowType: (preset?.windowType ?? 'joglekar') as WindowType,
         windowP: preset?.windowP ?? 1,
         windowJ: preset?.windowJ ?? 1,
-      };
-      const { result, error } = runSim(newState);
-      set({ ...newState, result, error });
+        windowVth0: preset?.windowVth0 ?? DEFAULT_WINDOW_VTH,
+        windowVth1: preset?.windowVth1 ?? DEFAULT_WINDOW_VTH,
+        ivShapes,
+        thermal: preset?.thermal ?? false,
+        ambientTemperature: preset?.ambientTemperature ?? 300,
+        // Parameter names differ between models
+        variability: {},
+      });
+      requestSimulation();
+    },
+
+    saveCustomModel: (spec: CustomModelSpec) => {
+      registerModel(compileCustomModel(spec));
+      const customModels = [
+        ...get().customModels.filter((m) => m.id !== spec.id),
+        spec,
+      ];
+      storeCustomModels(customModels);
+      set({ customModels });
+      get().setModel(spec.id);
+    },
+
+    deleteCustomModel: (id: string) => {
+      const customModels = get().customModels.filter((m) => m.id !== id);
+      storeCustomModels(customModels);
+      set({ customModels });
+      if (get().modelId === id) get().setModel(initialPreset.modelId);
+      unregisterModel(id);
     },
 
     setModelParam: (name: string, value: number) => {
-      const newState = {
-        ...get(),
-        modelParams: { ...get().modelParams, [name]: value },
-      };
-      const { result, error } = runSim(newState);
-      set({ modelParams: newState.modelParams, result, error });
+      set({ modelParams: { ...get().modelParams, [name]: value } });
+      requestSimulation();
     },
 
     setSignalType: (signalType: SignalType) => {
-      const newState = { ...get(), signalType };
-      const { result, error } = runSim(newState);
-      set({ signalType, result, error });
+      // A PWL table, pulse train, staircase, sequence or measured sweep
+      // plays over its own duration
+      const tMax = signalDuration({ ...get(), signalType });
+      set(tMax === undefined ? { signalType } : { signalType, tMax });
+      requestSimulation();
     },
 
     setSignalParam: (name: string, value: number) => {
       const newSignalParams = { ...get().signalParams, [name]: value };
-      const newState = { ...get(), signalParams: newSignalParams };
-      const { result, error } = runSim(newState);
-      set({ signalParams: newSignalParams, result, error });
+      set({ signalParams: newSignalParams });
+      requestSimulation();
+    },
+
+    setRetentionParam: (name: keyof RetentionParams, value: number) => {
+      const retention = { ...get().retention, [name]: value };
+      set({ retention });
+      requestSimulation();
+    },
+
+    setPwlTable: ({ times, values, repeat, timeScale }: ParsedPwl) => {
+      const { pwl } = get();
+      setTimedSignal({
+        pwl: {
+          ...pwl,
+          times,
+          values,
+          repeat: repeat ?? pwl.repeat,
+          timeScale: timeScale ?? pwl.timeScale,
+        },
+      });
+    },
+
+    setPwlInterpolation: (interpolation: PwlInterpolation) => {
+      set({ pwl: { ...get().pwl, interpolation } });
+      requestSimulation();
+    },
+
+    setPwlRepeat: (repeat: boolean) => {
+      set({ pwl: { ...get().pwl, repeat } });
+      requestSimulation();
+    },
+
+    setPwlTimeScale: (timeScale: number) => setTimedSignal({ pwl: { ...get().pwl, timeScale } }),
+
+    setPulseParam: (name: Exclude<keyof PulseTrainParams, 'polarity'>, value: number) =>
+      setTimedSignal({ pulse: { ...get().pulse, [name]: value } }),
+
+    setPulsePolarity: (polarity: PulsePolarity) =>
+      setTimedSignal({ pulse: { ...get().pulse, polarity } }),
+
+    setStaircaseParam: (name: keyof StaircaseParams, value: number) =>
+      setTimedSignal({ staircase: { ...get().staircase, [name]: value } }),
+
+    setSequence: (sequence: SequenceParams) => setTimedSignal({ sequence }),
+
+    setMeasured: (measured: MeasuredSweep) => setTimedSignal({ measured }),
+
+    setDrive: (drive: DriveMode) => {
+      if (drive === get().drive) return;
+      const { result, signalParams } = get();
+      // Start from the peaks of the present response so the new drive
+      // reproduces roughly the same experiment
+      const response = drive === 'current' ? result?.current : result?.voltage;
+      const fallback = drive === 'current' ? DEFAULT_DRIVE_CURRENT : 1;
+      const peak = (values: number[] | undefined, sign: number) => {
+        const value = values ? Math.max(0, ...values.map((y) => sign * y)) : 0;
+        return value > 0 ? parseFloat(value.toPrecision(3)) : fallback;
+      };
+      const newSignalParams = {
+        ...signalParams,
+        vp: peak(response, 1),
+        vn: peak(response, -1),
+      };
+      set({ drive, signalParams: newSignalParams });
+      requestSimulation();
+    },
+
+    setVoltageCompliance: (voltageCompliance: number) => {
+      set({ voltageCompliance });
+      requestSimulation();
+    },
+
+    setSeriesResistance: (seriesResistance: number) => {
+      set({ seriesResistance });
+      requestSimulation();
+    },
+
+    setCompliance: (compliance: number) => {
+      set({ compliance });
+      requestSimulation();
     },
 
     setX0: (x0: number) => {
-      const newState = { ...get(), x0 };
-      const { result, error } = runSim(newState);
-      set({ x0, result, error });
+      set({ x0 });
+      requestSimulation();
     },
 
     setTMax: (tMax: number) => {
-      const newState = { ...get(), tMax };
-      const { result, error } = runSim(newState);
-      set({ tMax, result, error });
+      set({ tMax });
+      requestSimulation();
+    },
+
+    setRelaxation: (relaxation: RelaxationType) => {
+      set({ relaxation });
+      requestSimulation();
+    },
+
+    setSolverMethod: (solverMethod: SolverMethod) => {
+      set({ solverMethod });
+      requestSimulation();
+    },
+
+    setSampling: (sampling: SamplingMode) => {
+      set({ sampling });
+      requestSimulation();
+    },
+
+    setEvents: (events: EventDefinition[]) => {
+      set({ events });
+      requestSimulation();
+    },
+
+    setAnalysis: (analysis: AnalysisType) => {
+      set({ analysis });
+      requestSimulation();
     },
 
     setWindowType: (windowType: WindowType) => {
-      const newState = { ...get(), windowType };
-      const { result, error } = runSim(newState);
-      set({ windowType, result, error });
+      set({ windowType });
+      requestSimulation();
     },
 
     setWindowP: (windowP: number) => {
-      const newState = { ...get(), windowP };
-      const { result, error } = runSim(newState);
-      set({ windowP, result, error });
+      set({ windowP });
+      requestSimulation();
     },
 
     setWindowJ: (windowJ: number) => {
-      const newState = { ...get(), windowJ };
-      const { result, error } = runSim(newState);
-      set({ windowJ, result, error });
+      set({ windowJ });
+      requestSimulation();
+    },
+
+    setWindowVth0: (windowVth0: number) => {
+      set({ windowVth0 });
+      requestSimulation();
+    },
+
+    setWindowVth1: (windowVth1: number) => {
+      set({ windowVth1 });
+      requestSimulation();
+    },
+
+    setIVShape: (branch: string, shape: IVShapeType) => {
+      const ivShapes = { ...get().ivShapes, [branch]: shape };
+      const modelParams = withDefaults(get().modelId, get().modelParams, ivShapes);
+      set({ ivShapes, modelParams });
+      requestSimulation();
+    },
+
+    setThermal: (thermal: boolean) => {
+      set({ thermal });
+      requestSimulation();
+    },
+
+    setAmbientTemperature: (ambientTemperature: number) => {
+      set({ ambientTemperature });
+      requestSimulation();
+    },
+
+    setStochastic: (stochastic: boolean) => {
+      set({ stochastic });
+      requestSimulation();
+    },
+
+    setNoiseSeed: (noiseSeed: number) => {
+      set({ noiseSeed });
+      requestSimulation();
+    },
+
+    setStateNoise: (stateNoise: number) => {
+      set({ stateNoise });
+      requestSimulation();
+    },
+
+    setParamJitter: (paramJitter: number) => {
+      set({ paramJitter });
+      requestSimulation();
+    },
+
+    setVariability: (name: string, dist: ParameterDistribution | null) => {
+      const variability = { ...get().variability };
+      if (dist) variability[name] = dist;
+      else delete variability[name];
+      set({ variability });
+    },
+
+    setMcRuns: (mcRuns: number) => set({ mcRuns }),
+
+    setMcSeed: (mcSeed: number) => set({ mcSeed }),
+
+    runMonteCarlo: () => {
+      if (get().analysis === 'steadyState') {
+        set({ monteCarloError: 'Monte Carlo runs are transient; switch the analysis back to Transient.' });
+        return;
+      }
+      set({ monteCarloRunning: true, monteCarloProgress: 0, monteCarloError: null });
+      const start = () => {
+        const state = get();
+        const job = {
+          kind: 'monteCarlo' as const,
+          config: toConfig(state),
+          monteCarlo: {
+            runs: state.mcRuns,
+            seed: state.mcSeed,
+            distributions: state.variability,
+          },
+        };
+        monteCarloRunner.run(job, state.customModels, {
+          onProgress: (monteCarloProgress) => set({ monteCarloProgress }),
+          onDone: (monteCarlo) => set({ monteCarlo, monteCarloRunning: false }),
+          onError: (monteCarloError) =>
+            set({ monteCarlo: null, monteCarloRunning: false, monteCarloError }),
+        });
+      };
+      // Without a worker, yield so the UI can show the running state
+      // before the batch blocks the thread
+      if (monteCarloRunner.threaded) start();
+      else setTimeout(start, 0);
+    },
+
+    cancelMonteCarlo: () => {
+      monteCarloRunner.cancel();
+      set({ monteCarloRunning: false });
     },
 
+    clearMonteCarlo: () => set({ monteCarlo: null, monteCarloError: null }),
+
     loadPreset: (preset: ExperimentPreset) => {
+      const ivShapes = { ...preset.ivShapes };
       const newState = {
         modelId: preset.modelId,
-        modelParams: { ...preset.modelParams },
+        modelParams: withDefaults(preset.modelId, preset.modelParams, ivShapes),
         signalType: preset.signalType as SignalType,
         signalParams: { ...preset.signalParams },
+        retention: preset.retention ? { ...preset.retention } : get().retention,
+        pwl: preset.pwl ? { ...preset.pwl } : get().pwl,
+        pulse: preset.pulse ? { ...preset.pulse } : get().pulse,
+        staircase: preset.staircase ? { ...preset.staircase } : get().staircase,
+        sequence: preset.sequence ? { ...preset.sequence } : get().sequence,
+        measured: preset.measured ?? get().measured,
+        drive: (preset.drive ?? 'voltage') as DriveMode,
+        voltageCompliance: preset.voltageCompliance ?? DEFAULT_VOLTAGE_COMPLIANCE,
+        seriesResistance: preset.seriesResistance ?? 0,
+        compliance: preset.compliance ?? 0,
         x0: preset.x0,
         tMax: preset.tMax,
+        relaxation: preset.relaxation ?? ('none' as RelaxationType),
         windowType: (preset.windowType ?? 'joglekar') as WindowType,
         windowP: preset.windowP ?? 1,
         windowJ: preset.windowJ ?? 1,
+        windowVth0: preset.windowVth0 ?? DEFAULT_WINDOW_VTH,
+        windowVth1: preset.windowVth1 ?? DEFAULT_WINDOW_VTH,
+        ivShapes,
+        thermal: preset.thermal ?? false,
+        ambientTemperature: preset.ambientTemperature ?? 300,
+        // Presets are deterministic; the noise settings are kept
+        stochastic: false,
+        // Parameter names differ between models
+        variability: preset.modelId === get().modelId ? get().variability : {},
       };
-      const { result, error } = runSim(newState);
-      set({ ...newState, result, error });
+      set(newState);
+      requestSimulation();
+    },
+
+    savePreset: (name: string) => {
+      const preset = toPreset(get(), name);
+      const savedPresets = [...get().savedPresets.filter((p) => p.id !== preset.id), preset];
+      storeSavedPresets(savedPresets);
+      set({ savedPresets });
+    },
+
+    deletePreset: (id: string) => {
+      const savedPresets = get().savedPresets.filter((p) => p.id !== id);
+      storeSavedPresets(savedPresets);
+      set({ savedPresets });
     },
 
     runSimulation: () => {
-      const { result, error } = runSim(get());
-      set({ result, error });
+      if (timer !== null) clearTimeout(timer);
+      invalidateMonteCarlo();
+      startSimulation();
     },
 
     resetToDefaults: () => {
@@ -219,3 +962,6 @@ export const useSimulationStore = create<SimulationState>()((set, get) => {
     },
   };
 });
+
+// First run, of the initial preset
+useSimulationStore.getState().runSimulation();
@@ -0,0 +1,105 @@
+/**
+ * Simulation jobs and the messages that carry them to the worker.
+ *
+ * A job is plain data, so it can be posted to the worker as is or run on
+ * the calling thread where there are no workers. Custom models live in
+ * the main thread's registry; their specifications travel with every
+ * request so the worker can compile the same models.
+ */
+
+import {
+  MODEL_REGISTRY,
+  compileCustomModel,
+  registerModel,
+  unregisterModel,
+} from '../engine/models/index.ts';
+import type { CustomModelSpec } from '../engine/models/index.ts';
+import { simulate } from '../engine/simulate.ts';
+import type { SimulationConfig, SimulationResult } from '../engine/simulate.ts';
+import { solveSteadyState } from '../engine/steadystate.ts';
+import { runMonteCarlo } from '../engine/montecarlo.ts';
+import type { MonteCarloConfig, MonteCarloResult } from '../engine/montecarlo.ts';
+
+/**
+ * One simulation of the nominal device, one period of its periodic
+ * steady state, or a Monte Carlo batch.
+ */
+export type SimulationJob =
+  | { kind: 'simulate'; config: SimulationConfig }
+  | { kind: 'steadyState'; config: SimulationConfig }
+  | { kind: 'monteCarlo'; config: SimulationConfig; monteCarlo: MonteCarloConfig };
+
+/** What a job produces. */
+export type JobResult<J extends SimulationJob> = J extends { kind: 'monteCarlo' }
+  ? MonteCarloResult
+  : SimulationResult;
+
+/** Main thread → worker. */
+export interface JobRequest {
+  id: number;
+  job: SimulationJob;
+  customModels: CustomModelSpec[];
+}
+
+/** Worker → main thread, tagged with the id of the request. */
+export type JobResponse =
+  | { id: number; type: 'progress'; fraction: number }
+  | { id: number; type: 'done'; result: SimulationResult | MonteCarloResult }
+  | { id: number; type: 'error'; message: string };
+
+/** Smallest advance of the progress fraction worth reporting. */
+const PROGRESS_STEP = 0.01;
+
+/**
+ * Run a job on the calling thread. `onProgress` is called with the
+ * fraction done whenever it has advanced by PROGRESS_STEP.
+ */
+export function runJob(
+  job: SimulationJob,
+  onProgress: (fraction: number) => void,
+): SimulationResult | MonteCarloResult {
+  let reported = 0;
+  const progress = (fraction: number) => {
+    if (fraction - reported >= PROGRESS_STEP) {
+      reported = fraction;
+      onProgress(Math.min(1, fraction));
+    }
+  };
+  switch (job.kind) {
+    case 'simulate':
+      return simulate(job.config, progress);
+    case 'steadyState':
+      return solveSteadyState(job.config, progress);
+    case 'monteCarlo':
+      return runMonteCarlo(job.config, job.monteCarlo, progress);
+  }
+}
+
+/** Serialised specification of every custom model registered by syncCustomModels. */
+const registered = new Map<string, string>();
+
+/**
+ * Make the registry's custom models match `specs`: compile new or changed
+ * ones and drop the rest. Models that no longer compile are left out;
+ * a job using one fails with an unknown-model error.
+ */
+export function syncCustomModels(specs: CustomModelSpec[]): void {
+  const wanted = new Set(specs.map((spec) => spec.id));
+  for (const id of registered.keys()) {
+    if (!wanted.has(id)) {
+      unregisterModel(id);
+      registered.delete(id);
+    }
+  }
+  for (const spec of specs) {
+    const serialised = JSON.stringify(spec);
+    if (registered.get(spec.id) === serialised && MODEL_REGISTRY[spec.id]) continue;
+    try {
+      registerModel(compileCustomModel(spec));
+      registered.set(spec.id, serialised);
+    } catch {
+      unregisterModel(spec.id);
+      registered.delete(spec.id);
+    }
+  }
+}
@@ -0,0 +1,130 @@
+/**
+ * Runs simulation jobs on a Web Worker, so long or stiff runs do not
+ * freeze the page.
+ *
+ * A runner works on one job at a time, and starting a job supersedes the
+ * one in progress. A job stuck in a long synchronous solve cannot read
+ * messages, so the superseded job is cancelled by terminating its worker.
+ * A fresh worker is started for the next job. Where there are no workers
+ * (Node scripts, tests), or the worker fails to load, jobs run on the
+ * calling thread and complete before run() returns.
+ */
+
+import type { CustomModelSpec } from '../engine/models/index.ts';
+import type { SimulationResult } from '../engine/simulate.ts';
+import type { MonteCarloResult } from '../engine/montecarlo.ts';
+import { runJob } from './jobs.ts';
+import type { JobRequest, JobResponse, JobResult, SimulationJob } from './jobs.ts';
+
+/** Callbacks of a job. None is called once the job has been superseded or cancelled. */
+export interface JobHandlers<R> {
+  onProgress?: (fraction: number) => void;
+  onDone: (result: R) => void;
+  onError: (message: string) => void;
+}
+
+export interface SimulationRunner {
+  /** Whether jobs run on a worker rather than on the calling thread. */
+  readonly threaded: boolean;
+  /** Start a job, cancelling the one in progress. */
+  run<J extends SimulationJob>(
+    job: J,
+    customModels: CustomModelSpec[],
+    handlers: JobHandlers<JobResult<J>>,
+  ): void;
+  /** Cancel the job in progress, if any. */
+  cancel(): void;
+}
+
+interface ActiveJob extends JobRequest {
+  handlers: JobHandlers<SimulationResult | MonteCarloResult>;
+}
+
+export function createSimulationRunner(): SimulationRunner {
+  let threaded = typeof Worker !== 'undefined';
+  let worker: Worker | null = null;
+  let active: ActiveJob | null = null;
+  let nextId = 0;
+
+  const runInline = (request: ActiveJob) => {
+    const { handlers } = request;
+    try {
+      const result = runJob(request.job, (fraction) => handlers.onProgress?.(fraction));
+      handlers.onDone(result);
+    } catch (e) {
+      handlers.onError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  // Without a working worker, fall back to the calling thread for good
+  // and finish the job that was waiting on it there
+  const fallBack = () => {
+    threaded = false;
+    worker?.terminate();
+    worker = null;
+    const pending = active;
+    active = null;
+    if (pending) runInline(pending);
+  };
+
+  const startWorker = (): Worker | null => {
+    try {
+      const created = new Worker(new URL('./simulation.worker.ts', import.meta.url), {
+        type: 'module',
+      });
+      created.onmessage = ({ data }: MessageEvent<JobResponse>) => {
+        if (!active || data.id !== active.id) return; // superseded
+        const { handlers } = active;
+        if (data.type === 'progress') {
+          handlers.onProgress?.(data.fraction);
+          return;
+        }
+        active = null;
+        if (data.type === 'done') handlers.onDone(data.result);
+        else handlers.onError(data.message);
+      };
+      created.onerror = (event) => {
+        event.preventDefault();
+        fallBack();
+      };
+      return created;
+    } catch {
+      return null;
+    }
+  };
+
+  const cancel = () => {
+    if (active && worker) {
+      worker.terminate();
+      worker = null;
+    }
+    active = null;
+  };
+
+  return {
+    get threaded() {
+      return threaded;
+    },
+
+    run(job, customModels, handlers) {
+      cancel();
+      const request: ActiveJob = {
+        id: ++nextId,
+        job,
+        customModels,
+        handlers: handlers as ActiveJob['handlers'],
+      };
+      if (threaded) worker ??= startWorker();
+      if (!threaded || !worker) {
+        threaded = false;
+        runInline(request);
+        return;
+      }
+      active = request;
+      const message: JobRequest = { id: request.id, job, customModels };
+      worker.postMessage(message);
+    },
+
+    cancel,
+  };
+}
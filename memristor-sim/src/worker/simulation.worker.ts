@@ -0,0 +1,27 @@
+/// <reference lib="webworker" />
+
+/**
+ * Web Worker running simulation jobs off the main thread, one at a time.
+ * A superseded job is not interrupted from here: the runner terminates
+ * the whole worker and starts a fresh one.
+ */
+
+import { runJob, syncCustomModels } from './jobs.ts';
+import type { JobRequest, JobResponse } from './jobs.ts';
+
+declare const self: DedicatedWorkerGlobalScope;
+
+/** Post a response, checked against the protocol of jobs.ts. */
+function respond(response: JobResponse): void {
+  self.postMessage(response);
+}
+
+self.onmessage = ({ data: { id, job, customModels } }: MessageEvent<JobRequest>) => {
+  try {
+    syncCustomModels(customModels);
+    const result = runJob(job, (fraction) => respond({ id, type: 'progress', fraction }));
+    respond({ id, type: 'done', result });
+  } catch (e) {
+    respond({ id, type: 'error', message: e instanceof Error ? e.message : String(e) });
+  }
+};